@@ -8,13 +8,26 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Cases from "./pages/Cases";
+import CaseDetail from "./pages/CaseDetail";
 import Evidence from "./pages/Evidence";
 import Suspects from "./pages/Suspects";
 import Officers from "./pages/Officers";
 import LabReports from "./pages/LabReports";
+import LinkAnalysis from "./pages/LinkAnalysis";
+import PropertyRoom from "./pages/PropertyRoom";
+import Users from "./pages/Users";
+import AuditLog from "./pages/AuditLog";
+import Import from "./pages/Import";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -28,10 +41,16 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/cases" element={<Cases />} />
+            <Route path="/cases/:id" element={<CaseDetail />} />
             <Route path="/evidence" element={<Evidence />} />
             <Route path="/suspects" element={<Suspects />} />
             <Route path="/officers" element={<Officers />} />
             <Route path="/lab-reports" element={<LabReports />} />
+            <Route path="/link-analysis" element={<LinkAnalysis />} />
+            <Route path="/property-room" element={<PropertyRoom />} />
+            <Route path="/import" element={<Import />} />
+            <Route path="/audit" element={<AuditLog />} />
+            <Route path="/users" element={<Users />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRightLeft, Edit, FileText, FlaskConical, History, NotebookPen, Package, Plus, Trash2, Users } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { InputField, SelectField, TextareaField } from '@/components/ui/FormField';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useCaseTimeline, useCreateTimelineEntry, useDeleteTimelineEntry, useUpdateTimelineEntry } from '@/hooks/useTimeline';
+import {
+  TimelineEvent,
+  TimelineKind,
+  formatTimelineDay,
+  groupTimelineByDay,
+  timelineEntryTypeOptions,
+  timelineKindOptions,
+} from '@/lib/timeline';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { z } from 'zod';
+
+const timelineEntrySchema = z.object({
+  entry_type: z.string().min(1, 'Type is required'),
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
+  occurred_at: z.string().min(1, 'Date and time are required'),
+  details: z.string().optional(),
+});
+
+type TimelineEntryFormData = z.infer<typeof timelineEntrySchema>;
+
+const initialFormData = (): TimelineEntryFormData => ({
+  entry_type: 'interview',
+  title: '',
+  occurred_at: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  details: '',
+});
+
+const kindIcons: Record<TimelineKind, typeof FileText> = {
+  case: FileText,
+  evidence: Package,
+  custody: ArrowRightLeft,
+  people: Users,
+  lab: FlaskConical,
+  entry: NotebookPen,
+};
+
+interface CaseTimelineProps {
+  caseId: string;
+}
+
+export function CaseTimeline({ caseId }: CaseTimelineProps) {
+  const { can } = useAuth();
+  const { data: events = [], isLoading: loading, isError } = useCaseTimeline(caseId);
+  const createEntry = useCreateTimelineEntry();
+  const updateEntry = useUpdateTimelineEntry();
+  const deleteEntry = useDeleteTimelineEntry();
+  const [hiddenKinds, setHiddenKinds] = useState<Set<string>>(new Set());
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<TimelineEvent | null>(null);
+  const [deletingEntry, setDeletingEntry] = useState<TimelineEvent | null>(null);
+  const [formData, setFormData] = useState<TimelineEntryFormData>(initialFormData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const submitting = createEntry.isPending || updateEntry.isPending;
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch case timeline');
+  }, [isError]);
+
+  const visibleEvents = events.filter((event) => !hiddenKinds.has(event.kind));
+  const groups = groupTimelineByDay(visibleEvents);
+  const kindCounts = events.reduce<Record<string, number>>((counts, event) => {
+    counts[event.kind] = (counts[event.kind] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const toggleKind = (kind: TimelineKind) => {
+    setHiddenKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    setSelectedEntry(null);
+    setFormData(initialFormData());
+    setErrors({});
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (event: TimelineEvent) => {
+    setSelectedEntry(event);
+    setFormData({
+      entry_type: event.tag ?? 'note',
+      title: event.title,
+      occurred_at: format(new Date(event.event_time as string), "yyyy-MM-dd'T'HH:mm"),
+      details: event.detail ?? '',
+    });
+    setErrors({});
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = timelineEntrySchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0] as string] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const values = {
+      entry_type: formData.entry_type,
+      title: formData.title.trim(),
+      occurred_at: new Date(formData.occurred_at).toISOString(),
+      details: formData.details || null,
+    };
+
+    try {
+      if (selectedEntry) {
+        await updateEntry.mutateAsync({ id: selectedEntry.record_id, values });
+        toast.success('Timeline entry updated');
+      } else {
+        await createEntry.mutateAsync({ ...values, case_id: caseId });
+        toast.success('Timeline entry added');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save timeline entry');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingEntry) return;
+    try {
+      await deleteEntry.mutateAsync(deletingEntry.record_id);
+      toast.success('Timeline entry deleted');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete timeline entry');
+    } finally {
+      setDeletingEntry(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card-forensic"
+    >
+      <div className="p-4 border-b border-border flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Timeline</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {timelineKindOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => toggleKind(option.value)}
+              aria-pressed={!hiddenKinds.has(option.value)}
+              className={cn(
+                "px-2.5 py-1 rounded-full text-xs border transition-colors",
+                hiddenKinds.has(option.value)
+                  ? "border-border text-muted-foreground hover:text-foreground"
+                  : "border-primary/40 bg-primary/10 text-primary"
+              )}
+            >
+              {option.label} ({kindCounts[option.value] ?? 0})
+            </button>
+          ))}
+          {can('create', 'timeline') && (
+            <button onClick={handleAdd} className="btn-primary flex items-center gap-2 text-sm ml-2">
+              <Plus className="w-4 h-4" />
+              Add Entry
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-8 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="p-6 text-center text-muted-foreground text-sm">
+          {events.length === 0 ? 'Nothing has happened on this case yet.' : 'No events of the selected kinds.'}
+        </div>
+      ) : (
+        <div className="p-6 space-y-6">
+          {groups.map((group) => (
+            <div key={group.day}>
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+                {formatTimelineDay(group.day)}
+              </p>
+              <ol className="relative border-l border-border ml-3 space-y-4">
+                {group.events.map((event) => {
+                  const Icon = kindIcons[event.kind as TimelineKind] ?? FileText;
+                  const isEntry = event.kind === 'entry';
+                  return (
+                    <li key={event.event_id} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-card border border-border">
+                        <Icon className="w-3 h-3 text-primary" />
+                      </span>
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-foreground flex flex-wrap items-center gap-2">
+                            {event.title}
+                            {event.tag && <Badge variant={getStatusVariant(event.tag)}>{event.tag.replace(/_/g, ' ')}</Badge>}
+                          </p>
+                          {event.detail && (
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">{event.detail}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {event.event_time ? format(new Date(event.event_time), 'HH:mm') : 'All day'}
+                            {event.actor_name && ` · ${event.actor_name}`}
+                          </p>
+                        </div>
+                        {isEntry && (
+                          <div className="flex items-center gap-1">
+                            {can('update', 'timeline', event.owner_id) && (
+                              <button
+                                onClick={() => handleEdit(event)}
+                                className="p-1.5 hover:bg-muted rounded-md text-muted-foreground hover:text-primary"
+                              >
+                                <Edit className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            {can('delete', 'timeline', event.owner_id) && (
+                              <button
+                                onClick={() => setDeletingEntry(event)}
+                                className="p-1.5 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={selectedEntry ? 'Edit Timeline Entry' : 'Add Timeline Entry'}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SelectField
+              label="Type"
+              value={formData.entry_type}
+              onChange={(e) => setFormData({ ...formData, entry_type: e.target.value })}
+              options={timelineEntryTypeOptions}
+              error={errors.entry_type}
+              required
+            />
+            <InputField
+              label="Date & Time"
+              type="datetime-local"
+              value={formData.occurred_at}
+              onChange={(e) => setFormData({ ...formData, occurred_at: e.target.value })}
+              error={errors.occurred_at}
+              required
+            />
+          </div>
+          <InputField
+            label="Title"
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            error={errors.title}
+            required
+            placeholder="Interview with witness, search warrant issued..."
+          />
+          <TextareaField
+            label="Details"
+            value={formData.details}
+            onChange={(e) => setFormData({ ...formData, details: e.target.value })}
+            placeholder="Who was present, outcome, reference numbers..."
+          />
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setIsModalOpen(false)} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={submitting} className="btn-primary">
+              {submitting ? 'Saving...' : selectedEntry ? 'Save Changes' : 'Add Entry'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!deletingEntry} onClose={() => setDeletingEntry(null)} title="Delete Timeline Entry" size="sm">
+        <p className="text-muted-foreground mb-6">
+          Are you sure you want to delete "{deletingEntry?.title}"? This action cannot be undone.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setDeletingEntry(null)} className="btn-secondary">Cancel</button>
+          <button onClick={confirmDelete} className="btn-danger">Delete</button>
+        </div>
+      </Modal>
+    </motion.div>
+  );
+}
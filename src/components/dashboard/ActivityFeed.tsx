@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, FlaskConical, History, Package, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { SelectField } from '@/components/ui/FormField';
+import { ActivityFilters, useActivityFeed } from '@/hooks/useDashboard';
+import { ActivityEntity, activityEntityOptions, activityLink, describeActivity } from '@/lib/activity';
+import { RowChange } from '@/lib/realtime';
+import { cn } from '@/lib/utils';
+
+const entityIcons: Record<ActivityEntity, typeof FileText> = {
+  cases: FileText,
+  evidence: Package,
+  suspects: Users,
+  lab_reports: FlaskConical,
+};
+
+export function ActivityFeed({ highlights }: { highlights: Record<string, RowChange> }) {
+  const [filters, setFilters] = useState<ActivityFilters>({ entity: '', onlyMyCases: false });
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useActivityFeed(filters);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const items = data?.pages.flat() ?? [];
+
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 items-end">
+        <SelectField
+          label="Show"
+          value={filters.entity}
+          onChange={(e) => setFilters({ ...filters, entity: e.target.value as ActivityFilters['entity'] })}
+          options={activityEntityOptions}
+        />
+        <label className="flex items-center gap-2 text-sm text-muted-foreground pb-2">
+          <input
+            type="checkbox"
+            checked={filters.onlyMyCases}
+            onChange={(e) => setFilters({ ...filters, onlyMyCases: e.target.checked })}
+          />
+          Only my cases
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : isError ? (
+        <p className="text-destructive text-sm py-4">Failed to load activity.</p>
+      ) : items.length === 0 ? (
+        <p className="text-muted-foreground text-sm py-4">No activity yet</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto pr-1">
+          {items.map((item) => {
+            const Icon = entityIcons[item.entity_type as ActivityEntity] ?? History;
+            return (
+              <Link
+                key={item.id}
+                to={activityLink(item)}
+                className={cn(
+                  'flex items-start gap-3 py-3 border-b border-border last:border-0 hover:bg-muted/50 transition-colors duration-700',
+                  highlights[item.record_id] && 'bg-primary/10'
+                )}
+              >
+                <div className="p-2 bg-primary/10 rounded-md shrink-0">
+                  <Icon className="w-4 h-4 text-primary" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground">
+                    <span className="font-medium">{item.actor_name || 'System'}</span>{' '}
+                    <span className="text-muted-foreground">{describeActivity(item)}</span>{' '}
+                    <span className="font-medium">{item.label}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.case_number && `${item.case_number} - `}
+                    {formatDistanceToNow(new Date(item.occurred_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </Link>
+            );
+          })}
+          <div ref={sentinelRef} />
+          {isFetchingNextPage && <p className="text-xs text-muted-foreground text-center py-2">Loading more...</p>}
+        </div>
+      )}
+    </div>
+  );
+}
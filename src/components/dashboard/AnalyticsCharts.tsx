@@ -0,0 +1,159 @@
+import { ReactNode } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useAnalytics } from '@/hooks/useDashboard';
+import { DateRange, caseAgeBuckets, formatMonth, pivotCaseAging } from '@/lib/analytics';
+import { formatDays } from '@/lib/labQueue';
+
+const casesConfig = {
+  opened: { label: 'Opened', color: 'hsl(var(--primary))' },
+  closed: { label: 'Closed', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const evidenceConfig = {
+  total: { label: 'Items', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const turnaroundConfig = {
+  avg_days: { label: 'Average days', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+// Oldest buckets in the warning colors
+const agingColors = ['hsl(var(--success))', 'hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--destructive))'];
+
+// Labels only: "180+" is not a valid CSS variable name, so bucket bars take their colors directly
+const agingConfig: ChartConfig = Object.fromEntries(
+  caseAgeBuckets.map((bucket) => [bucket, { label: `${bucket} days` }])
+);
+
+const statusConfig: ChartConfig = {
+  active: { label: 'Active', color: 'hsl(var(--primary))' },
+  arrested: { label: 'Arrested', color: 'hsl(var(--warning))' },
+  charged: { label: 'Charged', color: 'hsl(var(--destructive))' },
+  cleared: { label: 'Cleared', color: 'hsl(var(--success))' },
+};
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function ChartCard({ title, empty, children }: { title: string; empty: boolean; children: ReactNode }) {
+  return (
+    <div className="card-forensic p-6">
+      <h2 className="text-lg font-semibold text-foreground mb-4">{title}</h2>
+      {empty ? (
+        <p className="text-muted-foreground text-sm py-12 text-center">No data in this period</p>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
+
+export function AnalyticsCharts({ range }: { range: DateRange }) {
+  const { data, isLoading, isError } = useAnalytics(range);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return <p className="text-destructive text-sm">Failed to load analytics.</p>;
+  }
+
+  const aging = pivotCaseAging(data.caseAging);
+  const statuses = data.involvementStatus.map((row) => ({ ...row, fill: `var(--color-${row.status})` }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ChartCard title="Cases Opened vs Closed" empty={data.casesByMonth.every((m) => !m.opened && !m.closed)}>
+        <ChartContainer config={casesConfig} className="h-64 w-full aspect-auto">
+          <LineChart data={data.casesByMonth}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickFormatter={formatMonth} tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatMonth(value as string)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line dataKey="opened" type="monotone" stroke="var(--color-opened)" strokeWidth={2} dot={false} />
+            <Line dataKey="closed" type="monotone" stroke="var(--color-closed)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Evidence by Type" empty={data.evidenceByType.length === 0}>
+        <ChartContainer config={evidenceConfig} className="h-64 w-full aspect-auto">
+          <BarChart data={data.evidenceByType} layout="vertical" margin={{ left: 16 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="evidence_type" tickFormatter={(value) => capitalize(humanize(value))} tickLine={false} axisLine={false} width={88} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Lab Turnaround by Analysis Type" empty={data.labTurnaround.length === 0}>
+        <ChartContainer config={turnaroundConfig} className="h-64 w-full aspect-auto">
+          <BarChart data={data.labTurnaround}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="analysis_type" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, _name, item) => `${formatDays(Number(value))} over ${item.payload.reports} reports`}
+                />
+              }
+            />
+            <Bar dataKey="avg_days" fill="var(--color-avg_days)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Open Case Aging by Priority" empty={aging.length === 0}>
+        <ChartContainer config={agingConfig} className="h-64 w-full aspect-auto">
+          <BarChart data={aging}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="priority" tickFormatter={capitalize} tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {caseAgeBuckets.map((bucket, i) => (
+              <Bar
+                key={bucket}
+                dataKey={bucket}
+                stackId="age"
+                fill={agingColors[i]}
+                radius={i === caseAgeBuckets.length - 1 ? [4, 4, 0, 0] : 0}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Suspect Status Distribution" empty={statuses.length === 0}>
+        <ChartContainer config={statusConfig} className="h-64 w-full aspect-auto">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+            <Pie data={statuses} dataKey="total" nameKey="status" innerRadius={50} strokeWidth={2}>
+              {statuses.map((row) => (
+                <Cell key={row.status} fill={row.fill} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+          </PieChart>
+        </ChartContainer>
+      </ChartCard>
+    </div>
+  );
+}
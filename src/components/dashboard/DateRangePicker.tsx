@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { DateRange as DayPickerRange } from 'react-day-picker';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DateRange, RangePreset, formatRange, presetRange, rangePresets } from '@/lib/analytics';
+import { cn } from '@/lib/utils';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  preset: RangePreset | null;
+  onChange: (range: DateRange, preset: RangePreset | null) => void;
+}
+
+export function DateRangePicker({ value, preset, onChange }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    // Start from a blank selection so the first click begins a new range
+    if (next) setDraft(undefined);
+  };
+
+  const handleSelect = (range: DayPickerRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ from: format(range.from, 'yyyy-MM-dd'), to: format(range.to, 'yyyy-MM-dd') }, null);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {rangePresets.map((p) => (
+        <button
+          key={p.value}
+          onClick={() => onChange(presetRange(p.value), p.value)}
+          className={cn(
+            'px-3 py-1.5 text-sm rounded-md border transition-colors',
+            preset === p.value
+              ? 'border-primary text-primary bg-primary/10'
+              : 'border-border text-muted-foreground hover:text-foreground hover:bg-muted'
+          )}
+        >
+          {p.label}
+        </button>
+      ))}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            className={cn(
+              'px-3 py-1.5 text-sm rounded-md border flex items-center gap-2 transition-colors',
+              preset === null ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <CalendarDays className="w-4 h-4" />
+            {formatRange(value)}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={draft}
+            onSelect={handleSelect}
+            numberOfMonths={2}
+            defaultMonth={parseISO(value.from)}
+            disabled={{ after: new Date() }}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
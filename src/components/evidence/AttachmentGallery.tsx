@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, File, FileText, Image as ImageIcon, ShieldAlert, ShieldCheck, Trash2, Upload } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  EvidenceAttachment,
+  useAttachmentFile,
+  useDeleteAttachment,
+  useEvidenceAttachments,
+  useUploadAttachment,
+  useVerifiedDownload,
+} from '@/hooks/useEvidence';
+import { MAX_ATTACHMENT_BYTES, formatBytes, isImageType } from '@/lib/fileIntegrity';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface AttachmentGalleryProps {
+  evidenceId: string;
+}
+
+interface AttachmentCardProps {
+  attachment: EvidenceAttachment;
+  onIntegrityResult: (id: string, verified: boolean) => void;
+}
+
+const reportMismatch = (attachment: EvidenceAttachment, actualSha256: string) =>
+  toast.error(`Integrity check failed for ${attachment.file_name}`, {
+    description: `Stored SHA-256 ${attachment.sha256.slice(0, 16)}… does not match downloaded ${actualSha256.slice(0, 16)}…`,
+    duration: Infinity,
+    id: `integrity-${attachment.id}`,
+  });
+
+function AttachmentCard({ attachment, onIntegrityResult }: AttachmentCardProps) {
+  const { can } = useAuth();
+  const isImage = isImageType(attachment.mime_type);
+  const { data: file, isError } = useAttachmentFile(attachment, isImage);
+  const verifiedDownload = useVerifiedDownload();
+  const deleteAttachment = useDeleteAttachment();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    onIntegrityResult(attachment.id, file.verified);
+    if (!file.verified) {
+      reportMismatch(attachment, file.actualSha256);
+      return;
+    }
+    if (!isImage) return;
+    const url = URL.createObjectURL(file.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, attachment, isImage, onIntegrityResult]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const result = await verifiedDownload(attachment);
+      onIntegrityResult(attachment.id, result.verified);
+      if (!result.verified) {
+        reportMismatch(attachment, result.actualSha256);
+        return;
+      }
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.file_name;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`${attachment.file_name} verified and downloaded`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to download attachment');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${attachment.file_name}? This cannot be undone.`)) return;
+    try {
+      await deleteAttachment.mutateAsync(attachment);
+      toast.success('Attachment deleted');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete attachment');
+    }
+  };
+
+  const mismatch = file && !file.verified;
+  const Icon = isImage ? ImageIcon : attachment.mime_type === 'application/pdf' ? FileText : File;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className={cn(
+        'border rounded-md overflow-hidden flex flex-col',
+        mismatch ? 'border-destructive ring-2 ring-destructive' : 'border-border'
+      )}
+    >
+      <div className="aspect-video bg-muted/30 flex items-center justify-center">
+        {mismatch ? (
+          <div className="p-3 text-center text-destructive">
+            <ShieldAlert className="w-8 h-8 mx-auto mb-1" />
+            <p className="text-xs font-bold uppercase">Integrity mismatch</p>
+            <p className="text-[10px] break-all">got {file.actualSha256}</p>
+          </div>
+        ) : previewUrl ? (
+          <img src={previewUrl} alt={attachment.file_name} className="w-full h-full object-cover" />
+        ) : (
+          <Icon className="w-8 h-8 text-muted-foreground" />
+        )}
+      </div>
+      <div className="p-3 space-y-1 flex-1">
+        <p className="text-sm font-medium text-foreground truncate" title={attachment.file_name}>{attachment.file_name}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatBytes(attachment.size_bytes)} · {format(new Date(attachment.created_at), 'MMM d, yyyy HH:mm')}
+        </p>
+        <p className="text-[10px] font-mono text-muted-foreground truncate" title={attachment.sha256}>
+          SHA-256 {attachment.sha256}
+        </p>
+        {file?.verified && (
+          <p className="text-xs text-green-400 flex items-center gap-1">
+            <ShieldCheck className="w-3 h-3" />
+            Verified
+          </p>
+        )}
+        {isError && <p className="text-xs text-destructive">Could not download file for verification</p>}
+      </div>
+      <div className="px-3 pb-3 flex items-center justify-end gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={downloading}
+          title="Verify and download"
+          className="p-2 hover:bg-muted rounded-md transition-colors text-muted-foreground hover:text-foreground disabled:opacity-30"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+        {can('delete', 'attachments', attachment.user_id) && (
+          <button
+            onClick={handleDelete}
+            title="Delete attachment"
+            className="p-2 hover:bg-destructive/10 rounded-md transition-colors text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export function AttachmentGallery({ evidenceId }: AttachmentGalleryProps) {
+  const { can } = useAuth();
+  const { data: attachments = [], isLoading, isError } = useEvidenceAttachments(evidenceId);
+  const uploadAttachment = useUploadAttachment();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [integrity, setIntegrity] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch attachments');
+  }, [isError]);
+
+  // Stable identity so cards don't re-run their verification effect on every render
+  const handleIntegrityResult = useRef((id: string, verified: boolean) =>
+    setIntegrity((prev) => (prev[id] === verified ? prev : { ...prev, [id]: verified }))
+  ).current;
+
+  const mismatchCount = Object.values(integrity).filter((verified) => !verified).length;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(`${file.name} exceeds the ${formatBytes(MAX_ATTACHMENT_BYTES)} limit`);
+        continue;
+      }
+      try {
+        await uploadAttachment.mutateAsync({ evidenceId, file });
+        toast.success(`${file.name} uploaded`);
+      } catch (error) {
+        toast.error((error as Error).message || `Failed to upload ${file.name}`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Attachments</h3>
+        {can('create', 'attachments') && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadAttachment.isPending}
+              className="btn-primary flex items-center gap-2 text-sm"
+            >
+              <Upload className="w-4 h-4" />
+              {uploadAttachment.isPending ? 'Hashing & uploading...' : 'Upload Files'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {mismatchCount > 0 && (
+        <div className="p-3 border-2 border-destructive rounded-md bg-destructive/10 text-destructive flex items-start gap-2">
+          <ShieldAlert className="w-5 h-5 shrink-0" />
+          <div>
+            <p className="text-sm font-bold uppercase">Evidence integrity compromised</p>
+            <p className="text-xs">
+              {mismatchCount} attachment{mismatchCount === 1 ? '' : 's'} no longer match the SHA-256 recorded at upload.
+              Do not rely on {mismatchCount === 1 ? 'this file' : 'these files'} and escalate to a supervisor.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-6 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No files attached yet.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {attachments.map((attachment) => (
+            <AttachmentCard key={attachment.id} attachment={attachment} onIntegrityResult={handleIntegrityResult} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
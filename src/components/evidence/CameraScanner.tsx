@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import { CameraOff } from 'lucide-react';
+
+interface CameraScannerProps {
+  onScan: (text: string) => void;
+}
+
+// The reader reports a code on every frame it stays in view
+const REPEAT_SCAN_MS = 2500;
+
+/** Live camera preview that reports each QR code or barcode it reads. */
+export function CameraScanner({ onScan }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stopped = false;
+    let stop: (() => void) | null = null;
+    let last = { text: '', at: 0 };
+
+    const start = async () => {
+      try {
+        // Loaded on demand so the decoder stays out of the main bundle
+        const { BrowserMultiFormatReader } = await import('@zxing/browser');
+        if (stopped || !videoRef.current) return;
+        const controls = await new BrowserMultiFormatReader().decodeFromVideoDevice(undefined, videoRef.current, (result) => {
+          if (!result) return;
+          const text = result.getText();
+          const now = Date.now();
+          if (text === last.text && now - last.at < REPEAT_SCAN_MS) return;
+          last = { text, at: now };
+          onScanRef.current(text);
+        });
+        if (stopped) controls.stop();
+        else stop = () => controls.stop();
+      } catch (err) {
+        const name = (err as Error).name;
+        setError(
+          name === 'NotAllowedError'
+            ? 'Camera access was blocked. Allow it in the browser to scan with the camera.'
+            : name === 'NotFoundError'
+              ? 'No camera found. Use a handheld scanner or type the evidence number.'
+              : (err as Error).message || 'Could not start the camera'
+        );
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      stop?.();
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="aspect-video rounded-md border border-border bg-muted/30 flex flex-col items-center justify-center gap-2 p-4 text-center">
+        <CameraOff className="w-6 h-6 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-video rounded-md overflow-hidden border border-border bg-black">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      {/* Aiming guide */}
+      <div className="absolute inset-[20%] border-2 border-primary/70 rounded-md pointer-events-none" />
+    </div>
+  );
+}
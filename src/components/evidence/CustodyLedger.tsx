@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRight, MapPin, PenLine, Plus } from 'lucide-react';
+import { InputField, TextareaField } from '@/components/ui/FormField';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustodyEvents, useRecordCustodyEvent } from '@/hooks/useEvidence';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { z } from 'zod';
+
+const custodyEventSchema = z.object({
+  released_by: z.string().min(1, 'Releasing party is required'),
+  received_by: z.string().min(1, 'Receiving party is required'),
+  transferred_at: z.string().min(1, 'Transfer time is required'),
+  location: z.string().min(1, 'Location is required'),
+  purpose: z.string().min(1, 'Purpose is required'),
+  signature: z.string().min(1, 'Signature is required'),
+  notes: z.string().optional(),
+}).refine(
+  (data) => data.signature.trim().toLowerCase() === data.received_by.trim().toLowerCase(),
+  { message: 'Signature must match the receiving party', path: ['signature'] },
+);
+
+type CustodyEventFormData = z.infer<typeof custodyEventSchema>;
+
+interface CustodyLedgerProps {
+  evidenceId: string;
+  legacyNotes?: string | null;
+}
+
+const currentDateTime = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+const initialFormData = (): CustodyEventFormData => ({
+  released_by: '',
+  received_by: '',
+  transferred_at: currentDateTime(),
+  location: '',
+  purpose: '',
+  signature: '',
+  notes: '',
+});
+
+export function CustodyLedger({ evidenceId, legacyNotes }: CustodyLedgerProps) {
+  const { can } = useAuth();
+  const { data: events = [], isLoading: loading, isError } = useCustodyEvents(evidenceId);
+  const recordCustodyEvent = useRecordCustodyEvent();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<CustodyEventFormData>(initialFormData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const submitting = recordCustodyEvent.isPending;
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch custody history');
+  }, [isError]);
+
+  const handleOpenForm = () => {
+    const lastEvent = events[events.length - 1];
+    setFormData({ ...initialFormData(), released_by: lastEvent?.received_by || '' });
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = custodyEventSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0] as string] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      await recordCustodyEvent.mutateAsync({
+        evidence_id: evidenceId,
+        released_by: formData.released_by,
+        received_by: formData.received_by,
+        transferred_at: new Date(formData.transferred_at).toISOString(),
+        location: formData.location,
+        purpose: formData.purpose,
+        signature: formData.signature,
+        notes: formData.notes || null,
+      });
+      toast.success('Custody transfer recorded');
+      setShowForm(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to record custody transfer');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Custody History</h3>
+        {!showForm && can('create', 'custody') && (
+          <button onClick={handleOpenForm} className="btn-primary flex items-center gap-2 text-sm">
+            <Plus className="w-4 h-4" />
+            Record Transfer
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-border rounded-md bg-muted/30">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <InputField
+              label="Released By"
+              value={formData.released_by}
+              onChange={(e) => setFormData({ ...formData, released_by: e.target.value })}
+              error={errors.released_by}
+              required
+              placeholder="Person handing over..."
+            />
+            <InputField
+              label="Received By"
+              value={formData.received_by}
+              onChange={(e) => setFormData({ ...formData, received_by: e.target.value })}
+              error={errors.received_by}
+              required
+              placeholder="Person taking custody..."
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <InputField
+              label="Date & Time"
+              type="datetime-local"
+              value={formData.transferred_at}
+              onChange={(e) => setFormData({ ...formData, transferred_at: e.target.value })}
+              error={errors.transferred_at}
+              required
+            />
+            <InputField
+              label="Location"
+              value={formData.location}
+              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+              error={errors.location}
+              required
+              placeholder="Where the handoff took place..."
+            />
+          </div>
+
+          <InputField
+            label="Purpose"
+            value={formData.purpose}
+            onChange={(e) => setFormData({ ...formData, purpose: e.target.value })}
+            error={errors.purpose}
+            required
+            placeholder="Lab analysis, court presentation, storage..."
+          />
+
+          <TextareaField
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            placeholder="Packaging condition, seal numbers..."
+          />
+
+          <InputField
+            label="Signature"
+            value={formData.signature}
+            onChange={(e) => setFormData({ ...formData, signature: e.target.value })}
+            error={errors.signature}
+            required
+            placeholder="Receiving party types their full name to sign"
+            className="font-serif italic"
+          />
+
+          <p className="text-xs text-muted-foreground">
+            Custody entries are permanent and cannot be edited or deleted once recorded.
+          </p>
+
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setShowForm(false)} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={submitting} className="btn-primary">
+              {submitting ? 'Recording...' : 'Record Transfer'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="py-6 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No custody transfers recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-6">
+          {events.map((event, index) => (
+            <motion.li
+              key={event.id}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="ml-4"
+            >
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary border-2 border-background" />
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(event.transferred_at), 'MMM d, yyyy HH:mm')}
+              </p>
+              <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                {event.released_by}
+                <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                {event.received_by}
+              </p>
+              <p className="text-sm text-foreground">{event.purpose}</p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                <MapPin className="w-3 h-3" />
+                {event.location}
+              </p>
+              {event.notes && <p className="text-xs text-muted-foreground mt-1">{event.notes}</p>}
+              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                <PenLine className="w-3 h-3" />
+                <span className="font-serif italic">{event.signature}</span>
+              </p>
+            </motion.li>
+          ))}
+        </ol>
+      )}
+
+      {legacyNotes && (
+        <div className="p-3 border border-border rounded-md">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Legacy custody notes</p>
+          <p className="text-sm text-foreground whitespace-pre-wrap">{legacyNotes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { FlaskConical, Plus, Unlink } from 'lucide-react';
+import { SelectField, TextareaField } from '@/components/ui/FormField';
+import { Badge } from '@/components/ui/StatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useEvidenceOptions } from '@/hooks/useEvidence';
+import { useSuspectOptions } from '@/hooks/useSuspects';
+import { useEvidenceLabReports } from '@/hooks/useLabReports';
+import {
+  EvidenceLink,
+  useCreateEvidenceLink,
+  useDeleteEvidenceLink,
+  useEvidenceSuspectLinks,
+  useSuspectEvidenceLinks,
+  useUpdateEvidenceLink,
+} from '@/hooks/useEvidenceLinks';
+import { evidenceLinkConfidenceOptions, evidenceLinkTypeLabel, evidenceLinkTypeOptions } from '@/lib/evidenceLinks';
+import { recordLink } from '@/lib/search';
+import { toast } from 'sonner';
+import { z } from 'zod';
+
+const evidenceLinkSchema = z.object({
+  target_id: z.string().min(1, 'Select the record to link'),
+  link_type: z.enum(['owned_by', 'found_on', 'matched_by_lab']),
+  confidence: z.enum(['low', 'medium', 'high', 'confirmed']),
+  lab_report_id: z.string().optional(),
+  notes: z.string().optional(),
+}).refine(
+  (data) => data.link_type !== 'matched_by_lab' || !!data.lab_report_id,
+  { message: 'Cite the lab report that made the match', path: ['lab_report_id'] },
+);
+
+type EvidenceLinkFormData = z.infer<typeof evidenceLinkSchema>;
+
+const initialFormData: EvidenceLinkFormData = {
+  target_id: '',
+  link_type: 'found_on',
+  confidence: 'medium',
+  lab_report_id: '',
+  notes: '',
+};
+
+const confidenceVariants: Record<string, 'success' | 'warning' | 'default'> = {
+  confirmed: 'success',
+  high: 'success',
+  medium: 'warning',
+  low: 'default',
+};
+
+/** Links seen from one side: a person's evidence, or an evidence item's people. */
+type EvidenceLinksProps = { suspectId: string; evidenceId?: never } | { evidenceId: string; suspectId?: never };
+
+export function EvidenceLinks({ suspectId, evidenceId }: EvidenceLinksProps) {
+  const forPerson = !!suspectId;
+  const { can } = useAuth();
+  const personLinks = useSuspectEvidenceLinks(forPerson ? suspectId : '');
+  const evidenceLinks = useEvidenceSuspectLinks(forPerson ? '' : evidenceId);
+  const { data: links = [], isLoading, isError } = forPerson ? personLinks : evidenceLinks;
+  const { data: evidenceOptions = [] } = useEvidenceOptions();
+  const { data: personOptions = [] } = useSuspectOptions();
+  const createLink = useCreateEvidenceLink();
+  const updateLink = useUpdateEvidenceLink();
+  const deleteLink = useDeleteEvidenceLink();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<EvidenceLinkFormData>(initialFormData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const linkedEvidenceId = forPerson ? formData.target_id : evidenceId;
+  const { data: labReports = [] } = useEvidenceLabReports(showForm ? linkedEvidenceId : '');
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch evidence links');
+  }, [isError]);
+
+  const targetOptions = forPerson
+    ? evidenceOptions.map((e) => ({ value: e.id, label: `${e.evidence_number} - ${e.description}` }))
+    : personOptions.map((p) => ({ value: p.id, label: p.age ? `${p.name} (${p.age})` : p.name }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = evidenceLinkSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0] as string] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      await createLink.mutateAsync({
+        suspect_id: forPerson ? suspectId : formData.target_id,
+        evidence_id: forPerson ? formData.target_id : evidenceId,
+        link_type: formData.link_type,
+        confidence: formData.confidence,
+        lab_report_id: formData.lab_report_id || null,
+        notes: formData.notes || null,
+      });
+      toast.success(forPerson ? 'Evidence linked' : 'Person linked');
+      setFormData(initialFormData);
+      setShowForm(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save link');
+    }
+  };
+
+  const handleConfidenceChange = async (link: EvidenceLink, confidence: string) => {
+    try {
+      await updateLink.mutateAsync({ id: link.id, values: { confidence } });
+      toast.success('Confidence updated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update link');
+    }
+  };
+
+  const handleUnlink = async (link: EvidenceLink) => {
+    const target = forPerson ? link.evidence?.evidence_number : link.suspects?.name;
+    if (!window.confirm(`Remove the link to ${target ?? 'this record'}?`)) return;
+    try {
+      await deleteLink.mutateAsync(link.id);
+      toast.success('Link removed');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove link');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">{forPerson ? 'Linked Evidence' : 'Linked People'}</h3>
+        {!showForm && can('create', 'evidence_links') && (
+          <button onClick={() => setShowForm(true)} className="btn-primary flex items-center gap-2 text-sm">
+            <Plus className="w-4 h-4" />
+            {forPerson ? 'Link Evidence' : 'Link Person'}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-border rounded-md bg-muted/30">
+          <SelectField
+            label={forPerson ? 'Evidence' : 'Person'}
+            value={formData.target_id}
+            onChange={(e) => setFormData({ ...formData, target_id: e.target.value, lab_report_id: forPerson ? '' : formData.lab_report_id })}
+            options={targetOptions}
+            error={errors.target_id}
+            required
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SelectField
+              label="Link Type"
+              value={formData.link_type}
+              onChange={(e) => setFormData({ ...formData, link_type: e.target.value as EvidenceLinkFormData['link_type'] })}
+              options={evidenceLinkTypeOptions}
+              required
+            />
+            <SelectField
+              label="Confidence"
+              value={formData.confidence}
+              onChange={(e) => setFormData({ ...formData, confidence: e.target.value as EvidenceLinkFormData['confidence'] })}
+              options={evidenceLinkConfidenceOptions}
+              required
+            />
+          </div>
+          <SelectField
+            label="Supporting Lab Report"
+            value={formData.lab_report_id}
+            onChange={(e) => setFormData({ ...formData, lab_report_id: e.target.value })}
+            options={labReports.map((r) => ({ value: r.id, label: `${r.report_number} - ${r.analysis_type} (${r.status.replace('_', ' ')})` }))}
+            error={errors.lab_report_id}
+            required={formData.link_type === 'matched_by_lab'}
+            disabled={!linkedEvidenceId}
+          />
+          <TextareaField
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            placeholder="Latent print on the handle, DNA profile match..."
+          />
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setShowForm(false)} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={createLink.isPending} className="btn-primary">
+              {createLink.isPending ? 'Linking...' : 'Save Link'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="py-6 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">
+          {forPerson ? 'No evidence linked to this person yet.' : 'No people linked to this item yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {links.map((link, index) => (
+            <motion.li
+              key={link.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="p-3 border border-border rounded-md space-y-2"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  {forPerson ? (
+                    <>
+                      <Link
+                        to={recordLink('evidence', link.evidence_id)}
+                        className="text-sm font-medium text-primary hover:underline"
+                      >
+                        {link.evidence?.evidence_number}
+                      </Link>
+                      <p className="text-sm text-foreground truncate">{link.evidence?.description}</p>
+                      {link.evidence?.cases && (
+                        <Link to={`/cases/${link.evidence.cases.id}`} className="text-xs text-muted-foreground hover:text-primary">
+                          {link.evidence.cases.case_number}
+                        </Link>
+                      )}
+                    </>
+                  ) : (
+                    <Link
+                      to={recordLink('suspects', link.suspect_id)}
+                      className="text-sm font-medium text-primary hover:underline"
+                    >
+                      {link.suspects?.name}
+                    </Link>
+                  )}
+                </div>
+                <Badge variant="default">{evidenceLinkTypeLabel(link.link_type)}</Badge>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {can('update', 'evidence_links', link.user_id) ? (
+                  <select
+                    value={link.confidence}
+                    onChange={(e) => handleConfidenceChange(link, e.target.value)}
+                    className="input-forensic py-1 text-sm"
+                  >
+                    {evidenceLinkConfidenceOptions.map((opt) => <option key={opt.value} value={opt.value}>{opt.label} confidence</option>)}
+                  </select>
+                ) : (
+                  <Badge variant={confidenceVariants[link.confidence] ?? 'default'}>{link.confidence} confidence</Badge>
+                )}
+                {link.lab_reports && (
+                  <span className="text-xs text-muted-foreground flex items-center gap-1">
+                    <FlaskConical className="w-3 h-3" />
+                    {link.lab_reports.report_number} · {link.lab_reports.analysis_type}
+                  </span>
+                )}
+                {can('delete', 'evidence_links', link.user_id) && (
+                  <button
+                    onClick={() => handleUnlink(link)}
+                    title="Remove link"
+                    className="ml-auto p-2 hover:bg-destructive/10 rounded-md transition-colors text-muted-foreground hover:text-destructive"
+                  >
+                    <Unlink className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {link.notes && <p className="text-xs text-muted-foreground">{link.notes}</p>}
+            </motion.li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SelectField } from '@/components/ui/FormField';
+import { EvidenceLabel, LabelLayout, LabelSymbology, labelLayoutOptions, labelSymbologyOptions, labelsFileName } from '@/lib/evidenceLabels';
+import { toast } from 'sonner';
+
+interface PrintLabelsButtonProps {
+  labels: EvidenceLabel[];
+  /** Used for the PDF's file name, e.g. the evidence or case number */
+  name: string;
+  buttonLabel?: string;
+}
+
+/** Label options in a popover (it portals out, so it also works inside a Modal) and a printable PDF download. */
+export function PrintLabelsButton({ labels, name, buttonLabel = 'Print Label' }: PrintLabelsButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [symbology, setSymbology] = useState<LabelSymbology>('qr');
+  const [layout, setLayout] = useState<LabelLayout>(labels.length > 1 ? 'sheet' : 'single');
+  const [generating, setGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      // Loaded on demand so the PDF and barcode libraries stay out of the main bundle
+      const { buildEvidenceLabels } = await import('@/lib/labelSheet');
+      const doc = await buildEvidenceLabels(labels, { symbology, layout, origin: window.location.origin });
+      doc.save(labelsFileName(name));
+      setIsOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to generate labels');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button disabled={labels.length === 0} className="btn-secondary text-sm flex items-center gap-1">
+          <Printer className="w-4 h-4" />
+          {buttonLabel}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <p className="text-sm font-medium text-foreground">
+          {labels.length > 1 ? `${labels.length} labels` : 'Evidence label'}
+        </p>
+        <SelectField
+          label="Code"
+          value={symbology}
+          onChange={(e) => setSymbology(e.target.value as LabelSymbology)}
+          options={labelSymbologyOptions}
+        />
+        <SelectField
+          label="Paper"
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as LabelLayout)}
+          options={labelLayoutOptions}
+        />
+        <p className="text-xs text-muted-foreground">
+          Scanning a label in the app opens the evidence record. Print at 100% scale.
+        </p>
+        <div className="flex justify-end">
+          <button onClick={handleGenerate} disabled={generating} className="btn-primary text-sm">
+            {generating ? 'Generating...' : 'Download PDF'}
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Simulation,
+  SimulationLinkDatum,
+  SimulationNodeDatum,
+  forceCenter,
+  forceCollide,
+  forceLink,
+  forceManyBody,
+  forceSimulation,
+} from 'd3-force';
+import { GraphNode, GraphNodeType, LinkGraph } from '@/lib/linkGraph';
+import { cn } from '@/lib/utils';
+
+interface SimNode extends SimulationNodeDatum {
+  key: string;
+}
+
+type SimLink = SimulationLinkDatum<SimNode>;
+
+const nodeTypeClasses: Record<GraphNodeType, string> = {
+  cases: 'fill-primary',
+  suspects: 'fill-red-500',
+  evidence: 'fill-yellow-500',
+  officers: 'fill-sky-500',
+  lab_reports: 'fill-emerald-500',
+};
+
+const NODE_RADIUS = 14;
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 3;
+// Pointer travel below this is a click rather than a drag
+const DRAG_THRESHOLD = 4;
+
+interface LinkGraphCanvasProps {
+  graph: LinkGraph;
+  bridges: Map<string, string[]>;
+  selectedKey: string | null;
+  onNodeClick: (node: GraphNode) => void;
+}
+
+/** Force-directed view of the graph with pan, zoom and draggable nodes. */
+export function LinkGraphCanvas({ graph, bridges, selectedKey, onNodeClick }: LinkGraphCanvasProps) {
+  const positions = useRef(new Map<string, SimNode>());
+  const simulation = useRef<Simulation<SimNode, SimLink> | null>(null);
+  const [, setTick] = useState(0);
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointer = useRef<{ nodeKey: string | null; startX: number; startY: number; moved: boolean; view: typeof view } | null>(null);
+
+  useEffect(() => {
+    // Keep settled nodes where they are; new nodes start beside the node that brought them in
+    const previous = positions.current;
+    const next = new Map<string, SimNode>();
+    for (const node of graph.nodes) {
+      const existing = previous.get(node.key);
+      if (existing) {
+        next.set(node.key, existing);
+        continue;
+      }
+      const anchorEdge = graph.edges.find((edge) => edge.target === node.key && previous.has(edge.source));
+      const anchor = anchorEdge ? previous.get(anchorEdge.source) : undefined;
+      next.set(node.key, {
+        key: node.key,
+        x: (anchor?.x ?? 0) + (Math.random() - 0.5) * 60,
+        y: (anchor?.y ?? 0) + (Math.random() - 0.5) * 60,
+      });
+    }
+    positions.current = next;
+
+    const links: SimLink[] = graph.edges.map((edge) => ({ source: edge.source, target: edge.target }));
+    simulation.current?.stop();
+    simulation.current = forceSimulation<SimNode>([...next.values()])
+      .force('link', forceLink<SimNode, SimLink>(links).id((node) => node.key).distance(90))
+      .force('charge', forceManyBody().strength(-260))
+      .force('center', forceCenter(0, 0))
+      .force('collide', forceCollide(NODE_RADIUS * 2))
+      .on('tick', () => setTick((tick) => tick + 1));
+    return () => {
+      simulation.current?.stop();
+    };
+  }, [graph]);
+
+  const toGraphPoint = (clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    const cx = clientX - (rect?.left ?? 0) - (rect?.width ?? 0) / 2;
+    const cy = clientY - (rect?.top ?? 0) - (rect?.height ?? 0) / 2;
+    return { x: (cx - view.x) / view.k, y: (cy - view.y) / view.k };
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    setView({ ...view, k });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, nodeKey: string | null) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    pointer.current = { nodeKey, startX: e.clientX, startY: e.clientY, moved: false, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const state = pointer.current;
+    if (!state) return;
+    const dx = e.clientX - state.startX;
+    const dy = e.clientY - state.startY;
+    if (!state.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    state.moved = true;
+
+    if (state.nodeKey) {
+      const node = positions.current.get(state.nodeKey);
+      if (!node) return;
+      const point = toGraphPoint(e.clientX, e.clientY);
+      node.fx = point.x;
+      node.fy = point.y;
+      simulation.current?.alphaTarget(0.3).restart();
+    } else {
+      setView({ ...state.view, x: state.view.x + dx, y: state.view.y + dy });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const state = pointer.current;
+    pointer.current = null;
+    if (!state?.nodeKey) return;
+    const node = positions.current.get(state.nodeKey);
+    if (state.moved) {
+      if (node) {
+        node.fx = null;
+        node.fy = null;
+      }
+      simulation.current?.alphaTarget(0);
+      return;
+    }
+    const clicked = graph.nodes.find((n) => n.key === state.nodeKey);
+    if (clicked) onNodeClick(clicked);
+  };
+
+  const position = (key: string) => positions.current.get(key) ?? { x: 0, y: 0 };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing"
+      onWheel={handleWheel}
+      onPointerDown={(e) => handlePointerDown(e, null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {/* Nested svg puts the origin at the center of the canvas */}
+      <svg x="50%" y="50%" overflow="visible">
+        <g transform={`translate(${view.x}, ${view.y}) scale(${view.k})`}>
+          {graph.edges.map((edge) => {
+            const source = position(edge.source);
+            const target = position(edge.target);
+            return (
+              <g key={edge.key}>
+                <line x1={source.x} y1={source.y} x2={target.x} y2={target.y} className="stroke-border" strokeWidth={1.5} />
+                <text
+                  x={(source.x + target.x) / 2}
+                  y={(source.y + target.y) / 2}
+                  textAnchor="middle"
+                  className="fill-muted-foreground text-[9px] pointer-events-none"
+                >
+                  {edge.relation}
+                </text>
+              </g>
+            );
+          })}
+          {graph.nodes.map((node) => {
+            const { x, y } = position(node.key);
+            const isBridge = bridges.has(node.key);
+            return (
+              <g
+                key={node.key}
+                transform={`translate(${x}, ${y})`}
+                onPointerDown={(e) => handlePointerDown(e, node.key)}
+                className="cursor-pointer"
+              >
+                {isBridge && <circle r={NODE_RADIUS + 6} className="fill-none stroke-red-400" strokeWidth={2} strokeDasharray="4 3" />}
+                <circle
+                  r={NODE_RADIUS}
+                  className={cn(
+                    nodeTypeClasses[node.type],
+                    node.key === selectedKey ? 'stroke-foreground' : 'stroke-background',
+                    !node.expanded && 'opacity-70'
+                  )}
+                  strokeWidth={node.key === selectedKey ? 3 : 2}
+                />
+                {!node.expanded && (
+                  <text textAnchor="middle" dy="0.35em" className="fill-background text-xs font-bold pointer-events-none">+</text>
+                )}
+                <text y={NODE_RADIUS + 12} textAnchor="middle" className="fill-foreground text-[11px] pointer-events-none">
+                  {node.label}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+    </svg>
+  );
+}
+
+/** Colour key for the node types. */
+export function LinkGraphLegend({ types }: { types: { value: GraphNodeType; label: string }[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+      {types.map((type) => (
+        <span key={type.value} className="flex items-center gap-1.5">
+          <svg width="10" height="10"><circle cx="5" cy="5" r="5" className={nodeTypeClasses[type.value]} /></svg>
+          {type.label}
+        </span>
+      ))}
+      <span className="flex items-center gap-1.5">
+        <svg width="12" height="12"><circle cx="6" cy="6" r="5" className="fill-none stroke-red-400" strokeWidth={1.5} strokeDasharray="3 2" /></svg>
+        Connects cases
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Clock, FlaskConical, Play } from 'lucide-react';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useLabQueue, useUpdateLabReport } from '@/hooks/useLabReports';
+import { LAB_TURNAROUND_TARGET_DAYS, LAB_TURNAROUND_WINDOW_DAYS, formatDays, turnaroundDays } from '@/lib/labQueue';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+
+interface LabQueueProps {
+  onSelect: (reportNumber: string) => void;
+}
+
+export function LabQueue({ onSelect }: LabQueueProps) {
+  const { can } = useAuth();
+  const { data, isLoading, isError } = useLabQueue();
+  const updateLabReport = useUpdateLabReport();
+  const items = data?.items ?? [];
+  const overdueCount = items.filter((item) => turnaroundDays(item.date_submitted, null) > LAB_TURNAROUND_TARGET_DAYS).length;
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch lab queue');
+  }, [isError]);
+
+  const handleStart = async (id: string) => {
+    try {
+      await updateLabReport.mutateAsync({ id, values: { status: 'in_progress' } });
+      toast.success('Analysis started');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to start analysis');
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="card-forensic p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Lab Queue</h2>
+          <span className="text-sm text-muted-foreground">({items.length} open)</span>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          {overdueCount > 0 && (
+            <span className="text-destructive">{overdueCount} over {LAB_TURNAROUND_TARGET_DAYS}-day target</span>
+          )}
+          <span className="flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            Avg. turnaround ({LAB_TURNAROUND_WINDOW_DAYS} days):{' '}
+            {data?.averageTurnaroundDays != null ? formatDays(data.averageTurnaroundDays) : '-'}
+          </span>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="py-6 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">Nothing waiting on the lab.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80">
+          <table className="table-forensic">
+            <thead>
+              <tr>
+                <th>Report #</th>
+                <th>Evidence</th>
+                <th>Case</th>
+                <th>Analysis</th>
+                <th>Status</th>
+                <th>Submitted</th>
+                <th>In Lab</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const days = turnaroundDays(item.date_submitted, null);
+                return (
+                  <tr key={item.id}>
+                    <td>
+                      <button onClick={() => onSelect(item.report_number)} className="text-primary hover:underline">
+                        {item.report_number}
+                      </button>
+                    </td>
+                    <td>{item.evidence?.evidence_number || '-'}</td>
+                    <td>
+                      {item.evidence?.cases ? (
+                        <Link to={`/cases/${item.evidence.cases.id}`} className="text-primary hover:underline">
+                          {item.evidence.cases.case_number}
+                        </Link>
+                      ) : '-'}
+                    </td>
+                    <td>{item.analysis_type}</td>
+                    <td><Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge></td>
+                    <td>{format(parseISO(item.date_submitted), 'MMM d, yyyy')}</td>
+                    <td className={cn(days > LAB_TURNAROUND_TARGET_DAYS && 'text-destructive font-medium')}>{formatDays(days)}</td>
+                    <td>
+                      {item.status === 'pending' && can('update', 'lab_reports') && (
+                        <button
+                          onClick={() => handleStart(item.id)}
+                          disabled={updateLabReport.isPending}
+                          title="Start analysis"
+                          className="p-2 hover:bg-muted rounded-md transition-colors text-muted-foreground hover:text-foreground disabled:opacity-30"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
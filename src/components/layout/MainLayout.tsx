@@ -1,6 +1,7 @@
-import { ReactNode } from 'react';
+import { ReactNode, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { CommandPalette } from '@/components/search/CommandPalette';
 import { Sidebar } from './Sidebar';
 
 interface MainLayoutProps {
@@ -9,6 +10,7 @@ interface MainLayoutProps {
 
 export function MainLayout({ children }: MainLayoutProps) {
   const { user, loading } = useAuth();
+  const [searchOpen, setSearchOpen] = useState(false);
 
   if (loading) {
     return (
@@ -27,7 +29,8 @@ export function MainLayout({ children }: MainLayoutProps) {
 
   return (
     <div className="min-h-screen bg-background flex">
-      <Sidebar />
+      <Sidebar onSearch={() => setSearchOpen(true)} />
+      <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
       <main className="flex-1 ml-16 md:ml-64 transition-all duration-300 min-h-screen">
         <div className="p-6 md:p-8">
           {children}
@@ -10,22 +10,34 @@ import {
   LogOut,
   ChevronLeft,
   Menu,
+  UserCog,
+  ScrollText,
+  Search,
+  Upload,
+  Network,
+  ScanBarcode,
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { Action, Resource, roleLabels } from '@/lib/permissions';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
 
-const navItems = [
+const navItems: { icon: typeof LayoutDashboard; label: string; path: string; requires?: [Action, Resource] }[] = [
   { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
   { icon: FileText, label: 'Cases', path: '/cases' },
   { icon: Package, label: 'Evidence', path: '/evidence' },
-  { icon: Users, label: 'Suspects', path: '/suspects' },
+  { icon: Users, label: 'People', path: '/suspects' },
   { icon: Shield, label: 'Officers', path: '/officers' },
   { icon: FlaskConical, label: 'Lab Reports', path: '/lab-reports' },
+  { icon: Network, label: 'Link Analysis', path: '/link-analysis' },
+  { icon: ScanBarcode, label: 'Property Room', path: '/property-room', requires: ['create', 'custody'] },
+  { icon: Upload, label: 'Import', path: '/import', requires: ['create', 'imports'] },
+  { icon: ScrollText, label: 'Audit Log', path: '/audit', requires: ['view', 'audit'] },
+  { icon: UserCog, label: 'Users', path: '/users', requires: ['update', 'users'] },
 ];
 
-export function Sidebar() {
-  const { signOut, user } = useAuth();
+export function Sidebar({ onSearch }: { onSearch: () => void }) {
+  const { signOut, user, role, can } = useAuth();
   const location = useLocation();
   const [collapsed, setCollapsed] = useState(false);
 
@@ -71,8 +83,23 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 p-3 space-y-1">
-        {navItems.map((item) => {
-          const isActive = location.pathname === item.path;
+        <button
+          onClick={onSearch}
+          className={cn(
+            "flex items-center gap-3 px-3 py-2.5 rounded-md w-full text-muted-foreground hover:bg-sidebar-accent hover:text-foreground transition-all",
+            collapsed && "justify-center"
+          )}
+        >
+          <Search className="w-5 h-5 flex-shrink-0" />
+          {!collapsed && (
+            <>
+              <span className="text-sm font-medium">Search</span>
+              <kbd className="ml-auto text-[10px] px-1.5 py-0.5 border border-border rounded">Ctrl K</kbd>
+            </>
+          )}
+        </button>
+        {navItems.filter((item) => !item.requires || can(...item.requires)).map((item) => {
+          const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
           return (
             <NavLink
               key={item.path}
@@ -110,6 +137,7 @@ export function Sidebar() {
           <div className="mb-3 px-3 py-2 bg-sidebar-accent rounded-md">
             <p className="text-xs text-muted-foreground">Signed in as</p>
             <p className="text-sm text-foreground truncate">{user.email}</p>
+            {role && <p className="text-[10px] text-primary mt-0.5">{roleLabels[role]}</p>}
           </div>
         )}
         <button
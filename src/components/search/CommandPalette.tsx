@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileText, FlaskConical, Package, Shield, Users } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Highlighted } from '@/components/search/Highlighted';
+import { MIN_SEARCH_LENGTH, useGlobalSearch } from '@/hooks/useSearch';
+import { SearchEntity, groupSearchResults, highlightMatches, recordLink } from '@/lib/search';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const entityIcons: Record<SearchEntity, typeof FileText> = {
+  cases: FileText,
+  evidence: Package,
+  suspects: Users,
+  officers: Shield,
+  lab_reports: FlaskConical,
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Ctrl/Cmd+K search across every record type, jumping straight to the chosen record. */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [term, setTerm] = useState('');
+  const { data: results = [], isFetching, isError } = useGlobalSearch(term);
+  const groups = groupSearchResults(results);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setTerm(input), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const handleSelect = (entity: string, id: string) => {
+    onOpenChange(false);
+    setInput('');
+    navigate(recordLink(entity, id));
+  };
+
+  const tooShort = term.trim().length < MIN_SEARCH_LENGTH;
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        placeholder="Search case, evidence and report numbers, people, officers..."
+      />
+      <CommandList className="max-h-[400px]">
+        {tooShort ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Type at least {MIN_SEARCH_LENGTH} characters to search.</p>
+        ) : isError ? (
+          <p className="py-6 text-center text-sm text-destructive">Search failed. Try again.</p>
+        ) : (
+          <CommandEmpty>{isFetching ? 'Searching...' : 'No matching records.'}</CommandEmpty>
+        )}
+        {!tooShort && groups.map((group) => {
+          const Icon = entityIcons[group.entity];
+          return (
+            <CommandGroup key={group.entity} heading={group.label}>
+              {group.results.map((result) => (
+                <CommandItem
+                  key={result.id}
+                  value={`${result.entity_type}:${result.id}`}
+                  onSelect={() => handleSelect(result.entity_type, result.id)}
+                  className="gap-3"
+                >
+                  <Icon className="text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate"><Highlighted segments={highlightMatches(result.title, term)} /></p>
+                    {result.subtitle && (
+                      <p className="text-xs text-muted-foreground truncate"><Highlighted segments={highlightMatches(result.subtitle, term)} /></p>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
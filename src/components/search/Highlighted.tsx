@@ -0,0 +1,18 @@
+interface HighlightedProps {
+  segments: { text: string; match: boolean }[];
+}
+
+/** Renders search segments with the matched parts marked. */
+export function Highlighted({ segments }: HighlightedProps) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-primary/20 text-primary rounded-sm">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Hash } from 'lucide-react';
+import { useRecordNumberSettings, useUpdateRecordNumberPrefix } from '@/hooks/useRecordNumbers';
+import {
+  NumberedEntity,
+  PREFIX_PATTERN,
+  exampleRecordNumbers,
+  normalizePrefix,
+  numberedEntityLabels,
+} from '@/lib/recordNumbers';
+import { toast } from 'sonner';
+
+const entities = Object.keys(numberedEntityLabels) as NumberedEntity[];
+
+/** Admin card for the prefixes the database uses when numbering new records. */
+export function RecordNumbering() {
+  const { data: settings = [], isLoading, isError } = useRecordNumberSettings();
+  const updatePrefix = useUpdateRecordNumberPrefix();
+  const [drafts, setDrafts] = useState<Record<NumberedEntity, string>>({ cases: '', evidence: '', lab_reports: '' });
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch numbering settings');
+  }, [isError]);
+
+  useEffect(() => {
+    if (settings.length === 0) return;
+    setDrafts(Object.fromEntries(settings.map((s) => [s.entity, s.prefix])) as Record<NumberedEntity, string>);
+  }, [settings]);
+
+  const saved = Object.fromEntries(settings.map((s) => [s.entity, s.prefix])) as Record<NumberedEntity, string>;
+  const changed = entities.filter((entity) => drafts[entity] !== saved[entity]);
+  const invalid = entities.some((entity) => !PREFIX_PATTERN.test(drafts[entity]));
+  const examples = exampleRecordNumbers(drafts, new Date().getFullYear());
+
+  const handleSave = async () => {
+    try {
+      for (const entity of changed) {
+        await updatePrefix.mutateAsync({ entity, prefix: drafts[entity] });
+      }
+      toast.success('Numbering prefixes updated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update numbering');
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="card-forensic">
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <Hash className="w-5 h-5 text-primary" />
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Record Numbering</h2>
+          <p className="text-sm text-muted-foreground">
+            Prefixes for new numbers. Sequences restart each year; existing numbers never change.
+          </p>
+        </div>
+      </div>
+      {isLoading ? (
+        <div className="p-8 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {entities.map((entity) => (
+              <div key={entity} className="space-y-1.5">
+                <label className="text-sm font-medium text-foreground">{numberedEntityLabels[entity]}</label>
+                <input
+                  value={drafts[entity]}
+                  onChange={(e) => setDrafts({ ...drafts, [entity]: normalizePrefix(e.target.value) })}
+                  className="input-forensic w-full font-mono"
+                />
+                <p className="text-xs text-muted-foreground font-mono">e.g. {examples[entity]}</p>
+              </div>
+            ))}
+          </div>
+          {invalid && <p className="text-xs text-destructive">Each prefix needs 1 to 12 letters or digits.</p>}
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={changed.length === 0 || invalid || updatePrefix.isPending}
+              className="btn-primary text-sm"
+            >
+              {updatePrefix.isPending ? 'Saving...' : 'Save Prefixes'}
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Plus, Unlink } from 'lucide-react';
+import { SelectField, TextareaField } from '@/components/ui/FormField';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { useCaseOptions } from '@/hooks/useCases';
+import { CaseInvolvement, useLinkCase, usePersonInvolvements, useUnlinkCase, useUpdateInvolvement } from '@/hooks/useSuspects';
+import { involvementRoleOptions, involvementStatusOptions } from '@/lib/people';
+import { toast } from 'sonner';
+import { z } from 'zod';
+
+const involvementSchema = z.object({
+  case_id: z.string().min(1, 'Case is required'),
+  role: z.enum(['suspect', 'person_of_interest', 'witness', 'associate']),
+  status: z.enum(['active', 'arrested', 'charged', 'cleared']),
+  notes: z.string().optional(),
+});
+
+type InvolvementFormData = z.infer<typeof involvementSchema>;
+
+interface LinkedCasesProps {
+  suspectId: string;
+}
+
+const initialFormData: InvolvementFormData = {
+  case_id: '',
+  role: 'suspect',
+  status: 'active',
+  notes: '',
+};
+
+export function LinkedCases({ suspectId }: LinkedCasesProps) {
+  const { can } = useAuth();
+  const { data: involvements = [], isLoading, isError } = usePersonInvolvements(suspectId);
+  const { data: cases = [] } = useCaseOptions();
+  const linkCase = useLinkCase();
+  const updateInvolvement = useUpdateInvolvement();
+  const unlinkCase = useUnlinkCase();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<InvolvementFormData>(initialFormData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch linked cases');
+  }, [isError]);
+
+  const linkedCaseIds = new Set(involvements.map((i) => i.case_id));
+  const availableCases = cases.filter((c) => !linkedCaseIds.has(c.id));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = involvementSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0]) fieldErrors[err.path[0] as string] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      await linkCase.mutateAsync({
+        suspect_id: suspectId,
+        case_id: formData.case_id,
+        role: formData.role,
+        status: formData.status,
+        notes: formData.notes || null,
+      });
+      toast.success('Case linked');
+      setFormData(initialFormData);
+      setShowForm(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to link case');
+    }
+  };
+
+  const handleChange = async (involvement: CaseInvolvement, values: { role?: string; status?: string }) => {
+    try {
+      await updateInvolvement.mutateAsync({ id: involvement.id, values });
+      toast.success('Involvement updated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update involvement');
+    }
+  };
+
+  const handleUnlink = async (involvement: CaseInvolvement) => {
+    if (!window.confirm(`Remove the link to ${involvement.cases?.case_number ?? 'this case'}?`)) return;
+    try {
+      await unlinkCase.mutateAsync(involvement.id);
+      toast.success('Case unlinked');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to unlink case');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Linked Cases</h3>
+        {!showForm && can('create', 'suspects') && (
+          <button onClick={() => setShowForm(true)} className="btn-primary flex items-center gap-2 text-sm">
+            <Plus className="w-4 h-4" />
+            Link to Case
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-border rounded-md bg-muted/30">
+          <SelectField
+            label="Case"
+            value={formData.case_id}
+            onChange={(e) => setFormData({ ...formData, case_id: e.target.value })}
+            options={availableCases.map(c => ({ value: c.id, label: `${c.case_number} - ${c.title}` }))}
+            error={errors.case_id}
+            required
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SelectField
+              label="Role"
+              value={formData.role}
+              onChange={(e) => setFormData({ ...formData, role: e.target.value as InvolvementFormData['role'] })}
+              options={involvementRoleOptions}
+              required
+            />
+            <SelectField
+              label="Status"
+              value={formData.status}
+              onChange={(e) => setFormData({ ...formData, status: e.target.value as InvolvementFormData['status'] })}
+              options={involvementStatusOptions}
+              required
+            />
+          </div>
+          <TextareaField
+            label="Notes"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            placeholder="How this person relates to the case..."
+          />
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={() => setShowForm(false)} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={linkCase.isPending} className="btn-primary">
+              {linkCase.isPending ? 'Linking...' : 'Link Case'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="py-6 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : involvements.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">Not linked to any case yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {involvements.map((involvement, index) => {
+            const editable = can('update', 'suspects', involvement.user_id);
+            return (
+              <motion.li
+                key={involvement.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="p-3 border border-border rounded-md space-y-2"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <Link to={`/cases/${involvement.case_id}`} className="text-sm font-medium text-primary hover:underline">
+                      {involvement.cases?.case_number}
+                    </Link>
+                    <p className="text-sm text-foreground">{involvement.cases?.title}</p>
+                  </div>
+                  {involvement.cases && (
+                    <Badge variant={getStatusVariant(involvement.cases.status)}>{involvement.cases.status.replace('_', ' ')}</Badge>
+                  )}
+                </div>
+                {editable ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={involvement.role}
+                      onChange={(e) => handleChange(involvement, { role: e.target.value })}
+                      className="input-forensic py-1 text-sm"
+                    >
+                      {involvementRoleOptions.map((opt) => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                    <select
+                      value={involvement.status}
+                      onChange={(e) => handleChange(involvement, { status: e.target.value })}
+                      className="input-forensic py-1 text-sm"
+                    >
+                      {involvementStatusOptions.map((opt) => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+                    {can('delete', 'suspects', involvement.user_id) && (
+                      <button
+                        onClick={() => handleUnlink(involvement)}
+                        title="Unlink case"
+                        className="ml-auto p-2 hover:bg-destructive/10 rounded-md transition-colors text-muted-foreground hover:text-destructive"
+                      >
+                        <Unlink className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Badge variant={getStatusVariant(involvement.role)}>{involvement.role.replace(/_/g, ' ')}</Badge>
+                    <Badge variant={getStatusVariant(involvement.status)}>{involvement.status}</Badge>
+                  </div>
+                )}
+                {involvement.notes && <p className="text-xs text-muted-foreground">{involvement.notes}</p>}
+              </motion.li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
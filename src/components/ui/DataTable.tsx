@@ -1,13 +1,49 @@
-import { ReactNode } from 'react';
+import { ReactNode, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Search, Plus, Trash2, Edit, Eye } from 'lucide-react';
+import { Search, Plus, Trash2, Edit, Eye, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, Download, FileSearch } from 'lucide-react';
+import { Highlighted } from '@/components/search/Highlighted';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import { SortState } from '@/lib/tableQuery';
+import { RankedRow, parseSnippet } from '@/lib/search';
+import { RowChange } from '@/lib/realtime';
+import { ExportFormat, downloadRows, exportFileName, toExportRows } from '@/lib/tableExport';
+import { toast } from 'sonner';
+
+interface ColumnFilter {
+  /** Query column to filter on; defaults to the column key */
+  key?: string;
+  options?: { value: string; label: string }[];
+  placeholder?: string;
+}
 
 interface Column<T> {
   key: keyof T | string;
   header: string;
   render?: (item: T) => ReactNode;
   className?: string;
+  sortable?: boolean;
+  /** Query column to order by; defaults to the column key */
+  sortKey?: string;
+  filter?: ColumnFilter;
+  /** Value written to exports; defaults to the rendered cell's text */
+  exportValue?: (item: T) => string | number | null;
+}
+
+interface Pagination {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+}
+
+interface FullTextSearch<T> {
+  active: boolean;
+  onToggle: (active: boolean) => void;
+  /** Ranked matches for the current search; replaces the paginated rows while active */
+  results?: RankedRow<T>[];
+  loading?: boolean;
+  placeholder?: string;
 }
 
 interface DataTableProps<T> {
@@ -21,8 +57,23 @@ interface DataTableProps<T> {
   onEdit?: (item: T) => void;
   onDelete?: (item: T) => void;
   onView?: (item: T) => void;
+  canEdit?: (item: T) => boolean;
+  canDelete?: (item: T) => boolean;
+  sort?: SortState;
+  onSortChange?: (column: string) => void;
+  filters?: Record<string, string>;
+  onFilterChange?: (column: string, value: string) => void;
+  pagination?: Pagination;
+  /** Rows recently changed by other users, keyed by id */
+  highlights?: Record<string, RowChange>;
   loading?: boolean;
   emptyMessage?: string;
+  /** Enables CSV/XLSX export under this file and sheet name */
+  exportName?: string;
+  /** Loads every row matching the current search, filters and sort; defaults to the rows shown */
+  loadExportRows?: () => Promise<T[]>;
+  /** Offers an "Advanced" toggle that searches narrative fields by relevance instead */
+  fullTextSearch?: FullTextSearch<T>;
 }
 
 export function DataTable<T extends { id: string }>({
@@ -36,10 +87,75 @@ export function DataTable<T extends { id: string }>({
   onEdit,
   onDelete,
   onView,
+  canEdit,
+  canDelete,
+  sort,
+  onSortChange,
+  filters = {},
+  onFilterChange,
+  pagination,
+  highlights = {},
   loading = false,
   emptyMessage = "No records found",
+  exportName,
+  loadExportRows,
+  fullTextSearch,
 }: DataTableProps<T>) {
+  const [exporting, setExporting] = useState(false);
   const hasActions = onEdit || onDelete || onView;
+  // Full-text results are a ranked, unpaginated list, so sorting, filters and paging step aside
+  const fullText = fullTextSearch?.active ?? false;
+  const rows: T[] = fullText ? fullTextSearch.results ?? [] : data;
+  const tableColumns: Column<T>[] = fullText
+    ? [
+        ...columns,
+        {
+          key: 'search_snippet',
+          header: 'Match',
+          className: 'max-w-md',
+          render: (item) => (
+            <span className="text-sm text-muted-foreground">
+              <Highlighted segments={parseSnippet((item as RankedRow<T>).search_snippet)} />
+            </span>
+          ),
+          exportValue: (item) => parseSnippet((item as RankedRow<T>).search_snippet).map((s) => s.text).join(''),
+        },
+      ]
+    : columns;
+  const filterColumns = onFilterChange && !fullText ? columns.filter((col) => col.filter) : [];
+  const pageCount = pagination ? Math.max(1, Math.ceil(pagination.totalCount / pagination.pageSize)) : 1;
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(true);
+    try {
+      const exportRows = loadExportRows && !fullText ? await loadExportRows() : rows;
+      await downloadRows(toExportRows(tableColumns, exportRows), exportFileName(exportName, exportFormat), exportFormat, exportName);
+      toast.success(`Exported ${exportRows.length} row${exportRows.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to export rows');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderHeader = (col: Column<T>) => {
+    const sortKey = col.sortKey ?? String(col.key);
+    if (!col.sortable || !onSortChange || fullText) return col.header;
+    const isSorted = sort?.column === sortKey;
+    const SortIcon = !isSorted ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+    return (
+      <button
+        onClick={() => onSortChange(sortKey)}
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-foreground transition-colors",
+          isSorted && "text-primary"
+        )}
+      >
+        {col.header}
+        <SortIcon className="w-3 h-3" />
+      </button>
+    );
+  };
 
   return (
     <div className="card-forensic">
@@ -51,53 +167,119 @@ export function DataTable<T extends { id: string }>({
             type="text"
             value={searchValue}
             onChange={(e) => onSearchChange(e.target.value)}
-            placeholder={searchPlaceholder}
+            placeholder={fullText ? fullTextSearch.placeholder ?? 'Search descriptions and notes...' : searchPlaceholder}
             className="input-forensic w-full pl-10"
           />
         </div>
-        {onAdd && (
-          <button onClick={onAdd} className="btn-primary flex items-center gap-2">
-            <Plus className="w-4 h-4" />
-            {addButtonLabel}
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {fullTextSearch && (
+            <button
+              onClick={() => fullTextSearch.onToggle(!fullText)}
+              aria-pressed={fullText}
+              title='Search descriptions and notes by relevance. Supports "quoted phrases", OR and -excluded words.'
+              className={cn(fullText ? 'btn-primary' : 'btn-secondary', 'flex items-center gap-2')}
+            >
+              <FileSearch className="w-4 h-4" />
+              Advanced
+            </button>
+          )}
+          {exportName && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button disabled={exporting} className="btn-secondary flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  {exporting ? 'Exporting...' : 'Export'}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {onAdd && (
+            <button onClick={onAdd} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              {addButtonLabel}
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Column Filters */}
+      {filterColumns.length > 0 && (
+        <div className="px-4 py-3 border-b border-border flex flex-wrap items-center gap-3">
+          {filterColumns.map((col) => {
+            const filterKey = col.filter.key ?? String(col.key);
+            return col.filter.options ? (
+              <select
+                key={filterKey}
+                value={filters[filterKey] ?? ''}
+                onChange={(e) => onFilterChange(filterKey, e.target.value)}
+                className="input-forensic py-1.5 text-sm"
+              >
+                <option value="">All {col.header.toLowerCase()}</option>
+                {col.filter.options.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                key={filterKey}
+                type="text"
+                value={filters[filterKey] ?? ''}
+                onChange={(e) => onFilterChange(filterKey, e.target.value)}
+                placeholder={col.filter.placeholder ?? `Filter ${col.header.toLowerCase()}...`}
+                className="input-forensic py-1.5 text-sm"
+              />
+            );
+          })}
+        </div>
+      )}
+
       {/* Table */}
       <div className="overflow-x-auto">
-        {loading ? (
+        {(fullText ? fullTextSearch.loading : loading) ? (
           <div className="p-8 flex items-center justify-center">
             <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
           </div>
-        ) : data.length === 0 ? (
+        ) : rows.length === 0 ? (
           <div className="p-8 text-center text-muted-foreground">
-            {emptyMessage}
+            {fullText
+              ? searchValue.trim() ? 'No descriptions or notes match this search' : 'Type words or "quoted phrases" to search descriptions and notes'
+              : emptyMessage}
           </div>
         ) : (
           <table className="table-forensic">
             <thead>
               <tr>
-                {columns.map((col) => (
+                {tableColumns.map((col) => (
                   <th key={String(col.key)} className={col.className}>
-                    {col.header}
+                    {renderHeader(col)}
                   </th>
                 ))}
                 {hasActions && <th className="text-right">Actions</th>}
               </tr>
             </thead>
             <tbody>
-              {data.map((item, index) => (
+              {rows.map((item, index) => (
                 <motion.tr
                   key={item.id}
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: index * 0.05 }}
+                  className={cn("transition-colors duration-700", highlights[item.id] && "bg-primary/10")}
                 >
-                  {columns.map((col) => (
+                  {tableColumns.map((col, colIndex) => (
                     <td key={String(col.key)} className={col.className}>
                       {col.render
                         ? col.render(item)
                         : String((item as any)[col.key] ?? '')}
+                      {colIndex === 0 && highlights[item.id] && (
+                        <span className="block text-xs text-primary">
+                          {highlights[item.id].event === 'INSERT' ? 'Added' : 'Updated'} by {highlights[item.id].actor}
+                        </span>
+                      )}
                     </td>
                   ))}
                   {hasActions && (
@@ -114,7 +296,9 @@ export function DataTable<T extends { id: string }>({
                         {onEdit && (
                           <button
                             onClick={() => onEdit(item)}
-                            className="p-2 hover:bg-muted rounded-md transition-colors text-muted-foreground hover:text-primary"
+                            disabled={canEdit && !canEdit(item)}
+                            title={canEdit && !canEdit(item) ? 'You do not have permission to edit this record' : undefined}
+                            className="p-2 hover:bg-muted rounded-md transition-colors text-muted-foreground hover:text-primary disabled:opacity-30 disabled:pointer-events-none"
                           >
                             <Edit className="w-4 h-4" />
                           </button>
@@ -122,7 +306,9 @@ export function DataTable<T extends { id: string }>({
                         {onDelete && (
                           <button
                             onClick={() => onDelete(item)}
-                            className="p-2 hover:bg-destructive/10 rounded-md transition-colors text-muted-foreground hover:text-destructive"
+                            disabled={canDelete && !canDelete(item)}
+                            title={canDelete && !canDelete(item) ? 'You do not have permission to delete this record' : undefined}
+                            className="p-2 hover:bg-destructive/10 rounded-md transition-colors text-muted-foreground hover:text-destructive disabled:opacity-30 disabled:pointer-events-none"
                           >
                             <Trash2 className="w-4 h-4" />
                           </button>
@@ -136,6 +322,33 @@ export function DataTable<T extends { id: string }>({
           </table>
         )}
       </div>
+
+      {/* Pagination */}
+      {pagination && !fullText && pagination.totalCount > 0 && (
+        <div className="p-4 border-t border-border flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Showing {(pagination.page - 1) * pagination.pageSize + 1}-
+            {Math.min(pagination.page * pagination.pageSize, pagination.totalCount)} of {pagination.totalCount}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => pagination.onPageChange(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+              className="p-2 hover:bg-muted rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>Page {pagination.page} of {pageCount}</span>
+            <button
+              onClick={() => pagination.onPageChange(pagination.page + 1)}
+              disabled={pagination.page >= pageCount}
+              className="p-2 hover:bg-muted rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -8,7 +8,7 @@ interface BaseFieldProps {
 }
 
 interface InputFieldProps extends BaseFieldProps, InputHTMLAttributes<HTMLInputElement> {
-  type?: 'text' | 'email' | 'password' | 'number' | 'date' | 'tel';
+  type?: 'text' | 'email' | 'password' | 'number' | 'date' | 'datetime-local' | 'tel';
 }
 
 interface SelectFieldProps extends BaseFieldProps, SelectHTMLAttributes<HTMLSelectElement> {
@@ -0,0 +1,33 @@
+import { InputField } from '@/components/ui/FormField';
+import { useNextRecordNumber } from '@/hooks/useRecordNumbers';
+import { NumberedEntity } from '@/lib/recordNumbers';
+
+interface RecordNumberFieldProps {
+  label: string;
+  entity: NumberedEntity;
+  /** The stored number when editing; numbers never change once assigned */
+  value?: string;
+  scope: { caseId?: string; date?: string };
+  /** Shown while the scope isn't known yet, e.g. before a case is picked */
+  emptyHint?: string;
+}
+
+/** Read-only number field: the stored number, or a preview of the one the database will assign. */
+export function RecordNumberField({ label, entity, value, scope, emptyHint }: RecordNumberFieldProps) {
+  const { data: next, isLoading } = useNextRecordNumber(entity, scope, !value);
+
+  return (
+    <div className="space-y-1.5">
+      <InputField
+        label={label}
+        value={value ?? next ?? ''}
+        readOnly
+        placeholder={isLoading ? 'Loading...' : emptyHint ?? 'Assigned when saved'}
+        className="font-mono bg-muted/40 cursor-default"
+      />
+      {!value && next && (
+        <p className="text-xs text-muted-foreground">Assigned on save; moves on if someone else saves first</p>
+      )}
+    </div>
+  );
+}
@@ -43,6 +43,10 @@ export function getStatusVariant(status: string): BadgeProps['variant'] {
     cleared: 'success',
     suspect: 'warning',
     person_of_interest: 'pending',
+    witness: 'default',
+    associate: 'default',
+    active: 'warning',
+    charged: 'critical',
     in_storage: 'default',
     in_lab: 'pending',
     released: 'success',
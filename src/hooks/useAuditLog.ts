@@ -0,0 +1,64 @@
+import { useCallback } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { auditKeys } from '@/lib/queryKeys';
+import { AuditFilters } from '@/lib/audit';
+import { Page } from '@/lib/queryCache';
+
+const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: string;
+  actor_id: string | null;
+  occurred_at: string;
+  old_data: Json | null;
+  new_data: Json | null;
+}
+
+async function fetchAuditEntries(filters: AuditFilters, offset: number): Promise<Page<AuditEntry>> {
+  let query = supabase
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('occurred_at', { ascending: false })
+    .range(offset, offset + AUDIT_PAGE_SIZE - 1);
+
+  if (filters.tableName) query = query.eq('table_name', filters.tableName);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.recordId) query = query.eq('record_id', filters.recordId);
+  if (filters.dateFrom) query = query.gte('occurred_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+  if (filters.dateTo) query = query.lte('occurred_at', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+
+  const { data, count, error } = await query;
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+/** Audit entries matching the filters, newest first, a page at a time. */
+export function useAuditLog(filters: AuditFilters, enabled: boolean) {
+  return useInfiniteQuery({
+    queryKey: auditKeys.list(filters),
+    enabled,
+    queryFn: ({ pageParam }) => fetchAuditEntries(filters, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((total, page) => total + page.rows.length, 0);
+      return lastPage.rows.length < AUDIT_PAGE_SIZE || loaded >= lastPage.count ? undefined : loaded;
+    },
+  });
+}
+
+/** Every audit entry matching the filters, ignoring what has been loaded so far. */
+export function useAuditLogExport(filters: AuditFilters) {
+  return useCallback(async () => {
+    const rows: AuditEntry[] = [];
+    for (;;) {
+      const { rows: page, count } = await fetchAuditEntries(filters, rows.length);
+      rows.push(...page);
+      if (page.length < AUDIT_PAGE_SIZE || rows.length >= count) return rows;
+    }
+  }, [filters]);
+}
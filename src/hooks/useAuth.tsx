@@ -1,11 +1,15 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { AppRole, Action, Resource, can as canRole, isAppRole } from '@/lib/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  role: AppRole | null;
   loading: boolean;
+  can: (action: Action, resource: Resource, ownerId?: string | null) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -16,26 +20,62 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [roleLoading, setRoleLoading] = useState(false);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setSessionLoading(false);
       }
     );
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setRoleLoading(false);
+      return;
+    }
+
+    let stale = false;
+    setRoleLoading(true);
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (stale) return;
+        // Without a role every action is hidden, so say why rather than showing a bare UI
+        if (error) toast.error('Failed to load your role; reload the page to see the actions you can take');
+        setRole(isAppRole(data?.role) ? data.role : null);
+        setRoleLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [userId]);
+
+  const can = useCallback(
+    (action: Action, resource: Resource, ownerId?: string | null) =>
+      canRole(role, action, resource, ownerId === undefined ? undefined : { ownerId, userId }),
+    [role, userId]
+  );
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     return { error };
@@ -59,7 +99,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, role, loading: sessionLoading || roleLoading, can, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,275 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useFullTextSearch } from '@/hooks/useSearch';
+import { allRowsQuery, applyTableQuery, fetchAllRows, TableQueryConfig, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, caseKeys } from '@/lib/queryKeys';
+import { CacheSnapshot, Page, invalidateAll, patchListRow, removeListRow, restoreSnapshot } from '@/lib/queryCache';
+
+export interface Case {
+  id: string;
+  user_id: string;
+  case_number: string;
+  title: string;
+  description: string | null;
+  date_opened: string;
+  date_closed: string | null;
+  closure_reason: string | null;
+  status: string;
+  location: string | null;
+  priority: string;
+  lead_officer_id: string | null;
+  created_at: string;
+  officers?: { name: string; rank: string } | null;
+}
+
+export interface CaseOption {
+  id: string;
+  case_number: string;
+  title: string;
+}
+
+export interface CaseDetail {
+  caseRecord: Omit<Case, 'officers'> & { officers: { name: string; rank: string; badge_number: string | null } | null };
+  evidence: { id: string; evidence_number: string; description: string; type: string; status: string; date_collected: string; collected_by: string | null }[];
+  involvements: {
+    id: string;
+    role: string;
+    status: string;
+    suspects: { id: string; name: string; age: number | null; phone: string | null };
+  }[];
+  labReports: {
+    id: string;
+    report_number: string;
+    analysis_type: string;
+    lab_tech_name: string;
+    status: string;
+    date_submitted: string;
+    evidence: { evidence_number: string };
+  }[];
+}
+
+export interface CaseDossier {
+  caseRecord: Tables<'cases'> & {
+    officers: { name: string; rank: string; badge_number: string | null; contact: string | null } | null;
+  };
+  evidence: (Tables<'evidence'> & { custody: Tables<'evidence_custody_events'>[] })[];
+  involvements: (Tables<'case_involvements'> & { suspects: Tables<'suspects'> })[];
+  labReports: (Tables<'lab_reports'> & { evidence: { evidence_number: string } })[];
+}
+
+const caseTableConfig: TableQueryConfig = {
+  searchColumns: ['case_number', 'title', 'location'],
+  exactFilters: ['status', 'priority', 'lead_officer_id'],
+};
+
+const caseListSelect = '*, officers(name, rank)';
+
+async function fetchCases(query: TableQueryState): Promise<Page<Case>> {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('cases').select(caseListSelect, { count: 'exact' }),
+    query,
+    caseTableConfig
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+export function useCases(query: TableQueryState) {
+  return useQuery({
+    queryKey: caseKeys.list(query),
+    queryFn: () => fetchCases(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every case matching the table's search, filters and sort, ignoring pagination. */
+export function useCasesExport(query: TableQueryState) {
+  return useCallback(() => fetchAllRows(fetchCases, query), [query]);
+}
+
+/** Cases whose title or description match a full-text query, best match first. */
+export function useCasesFullTextSearch(term: string) {
+  return useFullTextSearch(caseKeys, term, async (ids) => {
+    const { data, error } = await supabase.from('cases').select(caseListSelect).in('id', ids);
+    if (error) throw error;
+    return (data || []) as Case[];
+  });
+}
+
+export function useCaseOptions() {
+  return useQuery({
+    queryKey: caseKeys.options(),
+    queryFn: async (): Promise<CaseOption[]> => {
+      const { data, error } = await supabase.from('cases').select('id, case_number, title').order('case_number');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCaseDetail(id: string | undefined) {
+  return useQuery({
+    queryKey: caseKeys.detail(id ?? ''),
+    enabled: !!id,
+    queryFn: async (): Promise<CaseDetail | null> => {
+      const [caseRes, evidenceRes, involvementsRes, labReportsRes] = await Promise.all([
+        supabase.from('cases').select('*, officers(name, rank, badge_number)').eq('id', id).maybeSingle(),
+        supabase.from('evidence').select('id, evidence_number, description, type, status, date_collected, collected_by').eq('case_id', id).order('date_collected'),
+        supabase.from('case_involvements').select('id, role, status, suspects(id, name, age, phone)').eq('case_id', id),
+        supabase
+          .from('lab_reports')
+          .select('id, report_number, analysis_type, lab_tech_name, status, date_submitted, evidence!inner(evidence_number, case_id)')
+          .eq('evidence.case_id', id)
+          .order('date_submitted'),
+      ]);
+
+      if (caseRes.error) throw caseRes.error;
+      if (evidenceRes.error) throw evidenceRes.error;
+      if (involvementsRes.error) throw involvementsRes.error;
+      if (labReportsRes.error) throw labReportsRes.error;
+      if (!caseRes.data) return null;
+
+      return {
+        caseRecord: caseRes.data,
+        evidence: evidenceRes.data || [],
+        involvements: (involvementsRes.data || []).sort((a, b) => a.suspects.name.localeCompare(b.suspects.name)),
+        labReports: labReportsRes.data || [],
+      };
+    },
+  });
+}
+
+/** Lab reports on the case's evidence that are not finished yet; a case cannot close while any remain. */
+export function useCasePendingLabReports(caseId: string | undefined) {
+  return useQuery({
+    queryKey: caseKeys.pendingLabReports(caseId ?? ''),
+    enabled: !!caseId,
+    queryFn: async (): Promise<number> => {
+      const { count, error } = await supabase
+        .from('lab_reports')
+        .select('id, evidence!inner(case_id)', { count: 'exact', head: true })
+        .eq('evidence.case_id', caseId)
+        .in('status', ['pending', 'in_progress']);
+      if (error) throw error;
+      return count || 0;
+    },
+  });
+}
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; count: number | null; error: PostgrestError | null }>;
+
+const unfiltered: TableQueryConfig = { searchColumns: [] };
+
+// PostgREST caps rows per request; a dossier that silently stopped at the cap would misstate the record
+function allPages<T>(query: (state: TableQueryState) => PageResult<T>, sortColumn: string) {
+  return fetchAllRows(async (state) => {
+    const { data, count, error } = await query(state);
+    if (error) throw error;
+    return { rows: data || [], count: count || 0 };
+  }, allRowsQuery(sortColumn));
+}
+
+async function fetchCaseDossier(id: string): Promise<CaseDossier> {
+  const [caseRes, evidence, involvements, labReports, custody] = await Promise.all([
+    supabase.from('cases').select('*, officers(name, rank, badge_number, contact)').eq('id', id).single(),
+    allPages((state) => applyTableQuery(
+      supabase.from('evidence').select('*', { count: 'exact' }).eq('case_id', id), state, unfiltered
+    ), 'evidence_number'),
+    allPages((state) => applyTableQuery(
+      supabase.from('case_involvements').select('*, suspects(*)', { count: 'exact' }).eq('case_id', id), state, unfiltered
+    ), 'id'),
+    allPages((state) => applyTableQuery(
+      supabase
+        .from('lab_reports')
+        .select('*, evidence!inner(evidence_number, case_id)', { count: 'exact' })
+        .eq('evidence.case_id', id),
+      state,
+      unfiltered
+    ), 'id'),
+    allPages((state) => applyTableQuery(
+      supabase
+        .from('evidence_custody_events')
+        .select('*, evidence!inner(case_id)', { count: 'exact' })
+        .eq('evidence.case_id', id),
+      state,
+      unfiltered
+    ), 'id'),
+  ]);
+  if (caseRes.error) throw caseRes.error;
+
+  // Pages walk by id so none are skipped; the dossier's own order is applied here
+  const byTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+  custody.sort((a, b) => byTime(a.transferred_at, b.transferred_at));
+  return {
+    caseRecord: caseRes.data,
+    evidence: evidence.map((item) => ({ ...item, custody: custody.filter((event) => event.evidence_id === item.id) })),
+    involvements: involvements.sort((a, b) => a.suspects.name.localeCompare(b.suspects.name)),
+    labReports: labReports.sort((a, b) => byTime(a.date_submitted, b.date_submitted)),
+  };
+}
+
+/** Loads everything a dossier prints, always fresh from the server. */
+export function useCaseDossierLoader() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (id: string) =>
+      queryClient.fetchQuery({
+        queryKey: caseKeys.dossier(id),
+        queryFn: () => fetchCaseDossier(id),
+        staleTime: 0,
+      }),
+    [queryClient]
+  );
+}
+
+export function useCreateCase() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'cases'>, 'user_id'>) => {
+      // The database assigns the number, so hand it back for the confirmation
+      const { data, error } = await supabase.from('cases').insert([{ ...values, user_id: user?.id as string }]).select('case_number').single();
+      if (error) throw error;
+      return data.case_number;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.cases),
+  });
+}
+
+export function useUpdateCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'cases'> }) => {
+      const { error } = await supabase.from('cases').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, values }) => patchListRow<Case>(queryClient, caseKeys.lists(), id, values as Partial<Case>),
+    onError: (_error, _variables, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.cases),
+  });
+}
+
+export function useDeleteCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('cases').delete().eq('id', id).select();
+      if (error) {
+        if (error.code === '23503') {
+          if (error.message.includes('evidence_attachments')) throw new Error('This case has evidence with attached files; delete them before deleting the case');
+          throw new Error('This case has evidence with chain-of-custody entries and cannot be deleted');
+        }
+        throw error;
+      }
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onMutate: (id) => removeListRow<Case>(queryClient, caseKeys.lists(), id),
+    onError: (_error, _id, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.cases),
+  });
+}
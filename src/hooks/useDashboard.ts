@@ -0,0 +1,100 @@
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { dashboardKeys } from '@/lib/queryKeys';
+import { DateRange } from '@/lib/analytics';
+import { ActivityEntity, ActivityItem } from '@/lib/activity';
+
+export interface DashboardStats {
+  totalCases: number;
+  activeCases: number;
+  totalEvidence: number;
+  totalSuspects: number;
+  pendingLabReports: number;
+}
+
+export interface Analytics {
+  casesByMonth: { month: string; opened: number; closed: number }[];
+  evidenceByType: { evidence_type: string; total: number }[];
+  labTurnaround: { analysis_type: string; reports: number; avg_days: number }[];
+  caseAging: { priority: string; age_bucket: string; total: number }[];
+  involvementStatus: { status: string; total: number }[];
+}
+
+export function useDashboardStats() {
+  return useQuery({
+    queryKey: dashboardKeys.stats(),
+    queryFn: async (): Promise<DashboardStats> => {
+      const [casesRes, activeCasesRes, evidenceRes, suspectsRes, labReportsRes] = await Promise.all([
+        supabase.from('cases').select('id', { count: 'exact', head: true }),
+        supabase.from('cases').select('id', { count: 'exact', head: true }).neq('status', 'closed'),
+        supabase.from('evidence').select('id', { count: 'exact', head: true }),
+        supabase.from('suspects').select('id', { count: 'exact', head: true }),
+        supabase.from('lab_reports').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+      ]);
+
+      return {
+        totalCases: casesRes.count || 0,
+        activeCases: activeCasesRes.count || 0,
+        totalEvidence: evidenceRes.count || 0,
+        totalSuspects: suspectsRes.count || 0,
+        pendingLabReports: labReportsRes.count || 0,
+      };
+    },
+  });
+}
+
+/** Chart aggregates for the range, computed by the analytics_* database functions. */
+export function useAnalytics(range: DateRange) {
+  return useQuery({
+    queryKey: dashboardKeys.analytics(range),
+    queryFn: async (): Promise<Analytics> => {
+      const args = { from_date: range.from, to_date: range.to };
+      const [casesByMonth, evidenceByType, labTurnaround, caseAging, involvementStatus] = await Promise.all([
+        supabase.rpc('analytics_cases_by_month', args),
+        supabase.rpc('analytics_evidence_by_type', args),
+        supabase.rpc('analytics_lab_turnaround', args),
+        supabase.rpc('analytics_case_aging', args),
+        supabase.rpc('analytics_involvement_status', args),
+      ]);
+      const failed = [casesByMonth, evidenceByType, labTurnaround, caseAging, involvementStatus].find((res) => res.error);
+      if (failed) throw failed.error;
+
+      return {
+        casesByMonth: casesByMonth.data || [],
+        evidenceByType: evidenceByType.data || [],
+        labTurnaround: labTurnaround.data || [],
+        caseAging: caseAging.data || [],
+        involvementStatus: involvementStatus.data || [],
+      };
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+const ACTIVITY_PAGE_SIZE = 20;
+
+export interface ActivityFilters {
+  entity: ActivityEntity | '';
+  onlyMyCases: boolean;
+}
+
+/** Creations and updates across cases, evidence, people and lab reports, newest first. */
+export function useActivityFeed(filters: ActivityFilters) {
+  return useInfiniteQuery({
+    queryKey: dashboardKeys.activity(filters),
+    queryFn: async ({ pageParam }): Promise<ActivityItem[]> => {
+      const { data, error } = await supabase.rpc('activity_feed', {
+        entity_types: filters.entity ? [filters.entity] : undefined,
+        only_my_cases: filters.onlyMyCases,
+        before_at: pageParam?.occurred_at,
+        before_id: pageParam?.id,
+        page_size: ACTIVITY_PAGE_SIZE,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+    initialPageParam: null as Pick<ActivityItem, 'occurred_at' | 'id'> | null,
+    getNextPageParam: (lastPage) =>
+      lastPage.length < ACTIVITY_PAGE_SIZE ? undefined : lastPage[lastPage.length - 1],
+  });
+}
@@ -0,0 +1,342 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useFullTextSearch } from '@/hooks/useSearch';
+import { applyTableQuery, escapeLikePattern, fetchAllRows, TableQueryConfig, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, caseKeys, evidenceKeys } from '@/lib/queryKeys';
+import { attachmentPath, sha256Hex } from '@/lib/fileIntegrity';
+import { EvidenceScan } from '@/lib/evidenceLabels';
+import { CacheSnapshot, Page, invalidateAll, patchListRow, removeListRow, restoreSnapshot } from '@/lib/queryCache';
+
+export interface Evidence {
+  id: string;
+  user_id: string;
+  evidence_number: string;
+  case_id: string;
+  description: string;
+  type: string;
+  location_found: string | null;
+  date_collected: string;
+  collected_by: string | null;
+  storage_location: string | null;
+  chain_of_custody: string | null;
+  status: string;
+  created_at: string;
+  cases?: { case_number: string; title: string };
+}
+
+export interface EvidenceOption {
+  id: string;
+  evidence_number: string;
+  description: string;
+}
+
+export interface CustodyEvent {
+  id: string;
+  evidence_id: string;
+  released_by: string;
+  received_by: string;
+  transferred_at: string;
+  location: string;
+  purpose: string;
+  signature: string;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface EvidenceAttachment {
+  id: string;
+  user_id: string;
+  evidence_id: string;
+  file_name: string;
+  storage_path: string;
+  mime_type: string | null;
+  size_bytes: number;
+  sha256: string;
+  created_at: string;
+}
+
+export interface VerifiedFile {
+  blob: Blob;
+  actualSha256: string;
+  verified: boolean;
+}
+
+const ATTACHMENT_BUCKET = 'evidence-files';
+
+const evidenceTableConfig: TableQueryConfig = {
+  searchColumns: ['evidence_number', 'description', 'storage_location'],
+  exactFilters: ['type', 'case_id', 'status'],
+};
+
+const evidenceListSelect = '*, cases(case_number, title)';
+
+async function fetchEvidence(query: TableQueryState): Promise<Page<Evidence>> {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('evidence').select(evidenceListSelect, { count: 'exact' }),
+    query,
+    evidenceTableConfig
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+export function useEvidence(query: TableQueryState) {
+  return useQuery({
+    queryKey: evidenceKeys.list(query),
+    queryFn: () => fetchEvidence(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every evidence matching the table's search, filters and sort, ignoring pagination. */
+export function useEvidenceExport(query: TableQueryState) {
+  return useCallback(() => fetchAllRows(fetchEvidence, query), [query]);
+}
+
+/** Evidence whose description, location found or custody notes match a full-text query, best match first. */
+export function useEvidenceFullTextSearch(term: string) {
+  return useFullTextSearch(evidenceKeys, term, async (ids) => {
+    const { data, error } = await supabase.from('evidence').select(evidenceListSelect).in('id', ids);
+    if (error) throw error;
+    return (data || []) as Evidence[];
+  });
+}
+
+/** One evidence item by id, for links and label scans that open its record directly. */
+export function useEvidenceRecord(id: string | null) {
+  return useQuery({
+    queryKey: evidenceKeys.detail(id ?? ''),
+    enabled: !!id,
+    queryFn: async (): Promise<Evidence | null> => {
+      const { data, error } = await supabase.from('evidence').select(evidenceListSelect).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Resolves a scanned label or typed evidence number to its record, caching it under the
+ * item's detail key so useEvidenceRecord picks it up. Resolves to null when nothing matches.
+ */
+export function useEvidenceScanLoader() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    async (scan: EvidenceScan): Promise<Evidence | null> => {
+      if (scan.id) {
+        return queryClient.fetchQuery({
+          queryKey: evidenceKeys.detail(scan.id),
+          staleTime: 0,
+          queryFn: async () => {
+            const { data, error } = await supabase.from('evidence').select(evidenceListSelect).eq('id', scan.id).maybeSingle();
+            if (error) throw error;
+            return data as Evidence | null;
+          },
+        });
+      }
+      if (!scan.evidenceNumber) return null;
+      const { data, error } = await supabase
+        .from('evidence')
+        .select(evidenceListSelect)
+        .ilike('evidence_number', escapeLikePattern(scan.evidenceNumber))
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (data) queryClient.setQueryData(evidenceKeys.detail(data.id), data);
+      return data;
+    },
+    [queryClient]
+  );
+}
+
+export function useEvidenceOptions() {
+  return useQuery({
+    queryKey: evidenceKeys.options(),
+    queryFn: async (): Promise<EvidenceOption[]> => {
+      const { data, error } = await supabase.from('evidence').select('id, evidence_number, description').order('evidence_number');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateEvidence() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'evidence'>, 'user_id'>) => {
+      const { data, error } = await supabase.from('evidence').insert([{ ...values, user_id: user?.id as string }]).select('evidence_number').single();
+      if (error) throw error;
+      return data.evidence_number;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence),
+  });
+}
+
+export function useUpdateEvidence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'evidence'> }) => {
+      const { error } = await supabase.from('evidence').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, values }) => patchListRow<Evidence>(queryClient, evidenceKeys.lists(), id, values as Partial<Evidence>),
+    onError: (_error, _variables, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence),
+  });
+}
+
+export function useDeleteEvidence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('evidence').delete().eq('id', id).select();
+      if (error) {
+        if (error.code === '23503') {
+          if (error.message.includes('evidence_attachments')) throw new Error('This evidence has attached files; delete them before deleting the evidence');
+          // The custody ledger is append-only, so logged items stay on record
+          throw new Error('This evidence has chain-of-custody entries and cannot be deleted');
+        }
+        throw error;
+      }
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onMutate: (id) => removeListRow<Evidence>(queryClient, evidenceKeys.lists(), id),
+    onError: (_error, _id, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence),
+  });
+}
+
+export function useCustodyEvents(evidenceId: string) {
+  return useQuery({
+    queryKey: evidenceKeys.custody(evidenceId),
+    enabled: !!evidenceId,
+    queryFn: async (): Promise<CustodyEvent[]> => {
+      const { data, error } = await supabase
+        .from('evidence_custody_events')
+        .select('*')
+        .eq('evidence_id', evidenceId)
+        .order('transferred_at', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useRecordCustodyEvent() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'evidence_custody_events'>, 'user_id'>) => {
+      const { error } = await supabase.from('evidence_custody_events').insert([{ ...values, user_id: user?.id as string }]);
+      if (error) throw error;
+    },
+    // Case timelines list custody transfers too
+    onSettled: (_data, _error, values) => invalidateAll(queryClient, [evidenceKeys.custody(values.evidence_id), caseKeys.details()]),
+  });
+}
+
+export function useEvidenceAttachments(evidenceId: string) {
+  return useQuery({
+    queryKey: evidenceKeys.attachments(evidenceId),
+    enabled: !!evidenceId,
+    queryFn: async (): Promise<EvidenceAttachment[]> => {
+      const { data, error } = await supabase
+        .from('evidence_attachments')
+        .select('*')
+        .eq('evidence_id', evidenceId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Storage reports a delete the policies refused as an empty result rather than an error
+async function removeStoredFile(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+  if (error) return error.message;
+  return data && data.length > 0 ? null : 'permission denied';
+}
+
+export function useUploadAttachment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ evidenceId, file }: { evidenceId: string; file: File }) => {
+      // Hash the exact bytes being uploaded, before they leave the browser
+      const sha256 = await sha256Hex(await file.arrayBuffer());
+      const storagePath = attachmentPath(evidenceId, file.name);
+
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined, upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.from('evidence_attachments').insert([{
+        evidence_id: evidenceId,
+        file_name: file.name,
+        storage_path: storagePath,
+        mime_type: file.type || null,
+        size_bytes: file.size,
+        sha256,
+        user_id: user?.id as string,
+      }]);
+      if (error) {
+        const rollback = await removeStoredFile(storagePath);
+        throw rollback ? new Error(`${error.message}. The uploaded file could not be removed: ${rollback}`) : error;
+      }
+    },
+    onSettled: (_data, _error, { evidenceId }) => queryClient.invalidateQueries({ queryKey: evidenceKeys.attachments(evidenceId) }),
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (attachment: EvidenceAttachment) => {
+      const { data, error } = await supabase.from('evidence_attachments').delete().eq('id', attachment.id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+      const failure = await removeStoredFile(attachment.storage_path);
+      if (failure) throw new Error(`Attachment removed, but its file is still in storage: ${failure}`);
+    },
+    onSettled: (_data, _error, attachment) =>
+      queryClient.invalidateQueries({ queryKey: evidenceKeys.attachments(attachment.evidence_id) }),
+  });
+}
+
+async function fetchVerifiedFile(attachment: EvidenceAttachment): Promise<VerifiedFile> {
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(attachment.storage_path);
+  if (error) throw error;
+  const actualSha256 = await sha256Hex(await data.arrayBuffer());
+  return { blob: data, actualSha256, verified: actualSha256 === attachment.sha256 };
+}
+
+/** Downloads and hashes a file for preview; the result is cached for the session. */
+export function useAttachmentFile(attachment: EvidenceAttachment, enabled: boolean) {
+  return useQuery({
+    queryKey: evidenceKeys.attachmentFile(attachment.id),
+    queryFn: () => fetchVerifiedFile(attachment),
+    enabled,
+    staleTime: Infinity,
+  });
+}
+
+/** Always re-downloads and re-hashes, so a saved copy is checked against storage as it is now. */
+export function useVerifiedDownload() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (attachment: EvidenceAttachment) =>
+      queryClient.fetchQuery({
+        queryKey: evidenceKeys.attachmentFile(attachment.id),
+        queryFn: () => fetchVerifiedFile(attachment),
+        staleTime: 0,
+      }),
+    [queryClient]
+  );
+}
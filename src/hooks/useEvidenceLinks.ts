@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { affectedKeys, evidenceLinkKeys } from '@/lib/queryKeys';
+import { invalidateAll } from '@/lib/queryCache';
+import { sortEvidenceLinks } from '@/lib/evidenceLinks';
+
+export interface EvidenceLink {
+  id: string;
+  user_id: string;
+  suspect_id: string;
+  evidence_id: string;
+  link_type: string;
+  confidence: string;
+  lab_report_id: string | null;
+  notes: string | null;
+  created_at: string;
+  suspects: { name: string } | null;
+  evidence: { evidence_number: string; description: string; cases: { id: string; case_number: string } | null } | null;
+  lab_reports: { report_number: string; analysis_type: string; status: string } | null;
+}
+
+const evidenceLinkSelect =
+  '*, suspects(name), evidence(evidence_number, description, cases(id, case_number)), lab_reports(report_number, analysis_type, status)';
+
+async function fetchEvidenceLinks(column: 'suspect_id' | 'evidence_id', id: string): Promise<EvidenceLink[]> {
+  const { data, error } = await supabase.from('evidence_links').select(evidenceLinkSelect).eq(column, id);
+  if (error) throw error;
+  return sortEvidenceLinks(data || []);
+}
+
+/** Evidence tied to a person, strongest links first. */
+export function useSuspectEvidenceLinks(suspectId: string) {
+  return useQuery({
+    queryKey: evidenceLinkKeys.bySuspect(suspectId),
+    enabled: !!suspectId,
+    queryFn: () => fetchEvidenceLinks('suspect_id', suspectId),
+  });
+}
+
+/** People tied to an evidence item, strongest links first. */
+export function useEvidenceSuspectLinks(evidenceId: string) {
+  return useQuery({
+    queryKey: evidenceLinkKeys.byEvidence(evidenceId),
+    enabled: !!evidenceId,
+    queryFn: () => fetchEvidenceLinks('evidence_id', evidenceId),
+  });
+}
+
+export function useCreateEvidenceLink() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'evidence_links'>, 'user_id'>) => {
+      const { error } = await supabase.from('evidence_links').insert([{ ...values, user_id: user?.id as string }]);
+      if (error) {
+        if (error.code === '23505') throw new Error('This person is already linked to that item in the same way');
+        throw error;
+      }
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence_links),
+  });
+}
+
+export function useUpdateEvidenceLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'evidence_links'> }) => {
+      const { error } = await supabase.from('evidence_links').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence_links),
+  });
+}
+
+export function useDeleteEvidenceLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('evidence_links').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.evidence_links),
+  });
+}
@@ -0,0 +1,156 @@
+import { useCallback } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { allRowsQuery, applyTableQuery, fetchAllRows, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, importKeys } from '@/lib/queryKeys';
+import { invalidateAll } from '@/lib/queryCache';
+import { ImportEntity, ImportLookups, ImportRow, chunk, lookupKey } from '@/lib/csvImport';
+
+export interface ImportFailure {
+  rowNumber: number;
+  message: string;
+}
+
+export interface ImportSummary {
+  inserted: number;
+  failed: ImportFailure[];
+}
+
+const IMPORT_BATCH_SIZE = 100;
+
+async function fetchCaseNumbers(query: TableQueryState) {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('cases').select('id, case_number', { count: 'exact' }),
+    query,
+    { searchColumns: [] }
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+async function fetchOfficerBadges(query: TableQueryState) {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('officers').select('id, badge_number', { count: 'exact' }).not('badge_number', 'is', null),
+    query,
+    { searchColumns: [] }
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+async function fetchImportLookups(): Promise<ImportLookups> {
+  const [cases, officers] = await Promise.all([
+    fetchAllRows(fetchCaseNumbers, allRowsQuery('case_number')),
+    fetchAllRows(fetchOfficerBadges, allRowsQuery('badge_number')),
+  ]);
+  return {
+    caseIds: new Map(cases.map((c) => [lookupKey(c.case_number), c.id])),
+    officerIds: new Map(officers.map((o) => [lookupKey(o.badge_number as string), o.id])),
+  };
+}
+
+/** Loads every case number and badge number, fresh each time a file is validated. */
+export function useImportLookupsLoader() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    () =>
+      queryClient.fetchQuery({
+        queryKey: importKeys.lookups(),
+        queryFn: fetchImportLookups,
+        staleTime: 0,
+      }),
+    [queryClient]
+  );
+}
+
+async function insertPeople(rows: ImportRow[], userId: string): Promise<ImportFailure[]> {
+  const people = rows.map(({ record }) => {
+    const { case_id: _caseId, role: _role, ...person } = record as Record<string, unknown>;
+    return { ...person, user_id: userId };
+  });
+  const { data, error } = await supabase
+    .from('suspects')
+    .insert(people as TablesInsert<'suspects'>[])
+    .select('id');
+  if (error) throw error;
+
+  const involvements = (data || [])
+    .map((person, i) => ({ person, row: rows[i] }))
+    .filter(({ row }) => row.record?.case_id);
+  if (involvements.length === 0) return [];
+
+  const { error: linkError } = await supabase.from('case_involvements').insert(
+    involvements.map(({ person, row }) => ({
+      suspect_id: person.id,
+      case_id: row.record?.case_id as string,
+      role: row.record?.role as string,
+      user_id: userId,
+    }))
+  );
+  if (!linkError) return [];
+  return involvements.map(({ row }) => ({
+    rowNumber: row.rowNumber,
+    message: `Person added but not linked to the case: ${linkError.message}`,
+  }));
+}
+
+export async function insertBatch(entity: ImportEntity, rows: ImportRow[], userId: string): Promise<ImportFailure[]> {
+  if (entity === 'suspects') return insertPeople(rows, userId);
+  // Records carry exactly the columns importTargets lists for the table
+  if (entity === 'cases') {
+    // Imported cases may arrive mid-workflow, which only the import function allows
+    const { error } = await supabase.rpc('import_cases', { records: rows.map((row) => row.record) as Json });
+    if (error) throw error;
+    return [];
+  }
+  const records = rows.map((row) => ({ ...row.record, user_id: userId }));
+  const { error } = await supabase.from(entity as 'officers').insert(records as TablesInsert<'officers'>[]);
+  if (error) throw error;
+  return [];
+}
+
+/**
+ * Inserts valid rows in batches. A failed batch is retried row by row so the summary
+ * can name the rows the database rejected while the rest still go in.
+ */
+export function useBulkImport() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async ({ entity, rows, onProgress }: {
+      entity: ImportEntity;
+      rows: ImportRow[];
+      onProgress?: (processed: number) => void;
+    }): Promise<ImportSummary> => {
+      const summary: ImportSummary = { inserted: 0, failed: [] };
+      let processed = 0;
+
+      for (const batch of chunk(rows, IMPORT_BATCH_SIZE)) {
+        try {
+          summary.failed.push(...(await insertBatch(entity, batch, user?.id as string)));
+          summary.inserted += batch.length;
+        } catch {
+          for (const row of batch) {
+            try {
+              summary.failed.push(...(await insertBatch(entity, [row], user?.id as string)));
+              summary.inserted += 1;
+            } catch (error) {
+              summary.failed.push({ rowNumber: row.rowNumber, message: (error as Error).message });
+            }
+          }
+        }
+        processed += batch.length;
+        onProgress?.(processed);
+      }
+
+      return summary;
+    },
+    onSettled: (_data, _error, { entity }) => {
+      invalidateAll(queryClient, entity === 'suspects'
+        ? [...affectedKeys.suspects, ...affectedKeys.case_involvements]
+        : affectedKeys[entity]);
+    },
+  });
+}
@@ -0,0 +1,184 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useFullTextSearch } from '@/hooks/useSearch';
+import { applyTableQuery, fetchAllRows, TableQueryConfig, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, labReportKeys } from '@/lib/queryKeys';
+import { LAB_TURNAROUND_WINDOW_DAYS, averageTurnaround, openLabStatuses } from '@/lib/labQueue';
+import { CacheSnapshot, Page, invalidateAll, patchListRow, removeListRow, restoreSnapshot } from '@/lib/queryCache';
+
+export interface LabReport {
+  id: string;
+  user_id: string;
+  evidence_id: string;
+  report_number: string;
+  analysis_type: string;
+  analysis_result: string;
+  lab_tech_name: string;
+  lab_name: string | null;
+  date_submitted: string;
+  date_completed: string | null;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  evidence?: { evidence_number: string; description: string };
+}
+
+export interface EvidenceLabReport {
+  id: string;
+  report_number: string;
+  analysis_type: string;
+  status: string;
+}
+
+export interface LabQueueItem {
+  id: string;
+  report_number: string;
+  analysis_type: string;
+  lab_tech_name: string;
+  status: string;
+  date_submitted: string;
+  evidence: { evidence_number: string; description: string; cases: { id: string; case_number: string } | null };
+}
+
+export interface LabQueue {
+  items: LabQueueItem[];
+  averageTurnaroundDays: number | null;
+}
+
+const labReportTableConfig: TableQueryConfig = {
+  searchColumns: ['report_number', 'analysis_type', 'lab_tech_name'],
+  exactFilters: ['analysis_type', 'status'],
+};
+
+const labReportListSelect = '*, evidence(evidence_number, description)';
+
+async function fetchLabReports(query: TableQueryState): Promise<Page<LabReport>> {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('lab_reports').select(labReportListSelect, { count: 'exact' }),
+    query,
+    labReportTableConfig
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+export function useLabReports(query: TableQueryState) {
+  return useQuery({
+    queryKey: labReportKeys.list(query),
+    queryFn: () => fetchLabReports(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every lab report matching the table's search, filters and sort, ignoring pagination. */
+export function useLabReportsExport(query: TableQueryState) {
+  return useCallback(() => fetchAllRows(fetchLabReports, query), [query]);
+}
+
+/** One lab report by id, for links that open it directly. */
+export function useLabReportRecord(id: string | null) {
+  return useQuery({
+    queryKey: labReportKeys.detail(id ?? ''),
+    enabled: !!id,
+    queryFn: async (): Promise<LabReport | null> => {
+      const { data, error } = await supabase.from('lab_reports').select(labReportListSelect).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/** Lab reports whose findings or notes match a full-text query, best match first. */
+export function useLabReportsFullTextSearch(term: string) {
+  return useFullTextSearch(labReportKeys, term, async (ids) => {
+    const { data, error } = await supabase.from('lab_reports').select(labReportListSelect).in('id', ids);
+    if (error) throw error;
+    return (data || []) as LabReport[];
+  });
+}
+
+/** Reports on one evidence item, for citing the analysis behind a finding. */
+export function useEvidenceLabReports(evidenceId: string) {
+  return useQuery({
+    queryKey: labReportKeys.forEvidence(evidenceId),
+    enabled: !!evidenceId,
+    queryFn: async (): Promise<EvidenceLabReport[]> => {
+      const { data, error } = await supabase
+        .from('lab_reports')
+        .select('id, report_number, analysis_type, status')
+        .eq('evidence_id', evidenceId)
+        .order('date_submitted', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useCreateLabReport() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'lab_reports'>, 'user_id'>) => {
+      const { data, error } = await supabase.from('lab_reports').insert([{ ...values, user_id: user?.id as string }]).select('report_number').single();
+      if (error) throw error;
+      return data.report_number;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.lab_reports),
+  });
+}
+
+export function useUpdateLabReport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'lab_reports'> }) => {
+      const { error } = await supabase.from('lab_reports').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, values }) => patchListRow<LabReport>(queryClient, labReportKeys.lists(), id, values as Partial<LabReport>),
+    onError: (_error, _variables, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.lab_reports),
+  });
+}
+
+export function useDeleteLabReport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('lab_reports').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onMutate: (id) => removeListRow<LabReport>(queryClient, labReportKeys.lists(), id),
+    onError: (_error, _id, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.lab_reports),
+  });
+}
+
+/** Open reports, oldest submission first, with the recent average turnaround for comparison. */
+export function useLabQueue() {
+  return useQuery({
+    queryKey: labReportKeys.queue(),
+    queryFn: async (): Promise<LabQueue> => {
+      const since = format(subDays(new Date(), LAB_TURNAROUND_WINDOW_DAYS), 'yyyy-MM-dd');
+      const [queueRes, finishedRes] = await Promise.all([
+        supabase
+          .from('lab_reports')
+          .select('id, report_number, analysis_type, lab_tech_name, status, date_submitted, evidence(evidence_number, description, cases(id, case_number))')
+          .in('status', [...openLabStatuses])
+          .order('date_submitted', { ascending: true }),
+        supabase
+          .from('lab_reports')
+          .select('date_submitted, date_completed')
+          .in('status', ['completed', 'inconclusive'])
+          .gte('date_completed', since),
+      ]);
+      if (queueRes.error) throw queueRes.error;
+      if (finishedRes.error) throw finishedRes.error;
+      return { items: queueRes.data || [], averageTurnaroundDays: averageTurnaround(finishedRes.data || []) };
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { graphKeys } from '@/lib/queryKeys';
+import { GraphNeighbor } from '@/lib/linkGraph';
+
+async function fetchGraphNeighbors(type: string, id: string): Promise<GraphNeighbor[]> {
+  const { data, error } = await supabase.rpc('graph_neighbors', { node_type: type, node_id: id });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Loads one hop around a graph node, fresh each time it is expanded. */
+export function useGraphNeighborsLoader() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (type: string, id: string) =>
+      queryClient.fetchQuery({
+        queryKey: graphKeys.neighbors(type, id),
+        queryFn: () => fetchGraphNeighbors(type, id),
+        staleTime: 0,
+      }),
+    [queryClient]
+  );
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+/**
+ * Opens the record another page linked to with `?record=<id>` (see recordLink). `useRecord`
+ * loads it by id and `open` shows it, once per link. The returned close handler drops the
+ * link from the URL so the page falls back to its plain list.
+ */
+export function useLinkedRecord<T>(
+  useRecord: (id: string | null) => UseQueryResult<T | null>,
+  open: (record: T) => void,
+  notFoundMessage: string
+) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedRecordId = searchParams.get('record');
+  const { data, isError } = useRecord(linkedRecordId);
+  const handled = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!linkedRecordId) {
+      handled.current = null;
+      return;
+    }
+    if (handled.current === linkedRecordId) return;
+    if (data) {
+      handled.current = linkedRecordId;
+      open(data);
+    } else if (data === null || isError) {
+      handled.current = linkedRecordId;
+      toast.error(notFoundMessage);
+    }
+  }, [linkedRecordId, data, isError, open, notFoundMessage]);
+
+  return useCallback(() => {
+    if (!searchParams.has('record')) return;
+    setSearchParams((params) => {
+      params.delete('record');
+      // Evidence label QR links also carry the readable evidence number
+      params.delete('n');
+      return params;
+    }, { replace: true });
+  }, [searchParams, setSearchParams]);
+}
@@ -0,0 +1,127 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { applyTableQuery, fetchAllRows, TableQueryConfig, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, officerKeys } from '@/lib/queryKeys';
+import { CacheSnapshot, Page, invalidateAll, patchListRow, removeListRow, restoreSnapshot } from '@/lib/queryCache';
+
+export interface AssignedCase {
+  id: string;
+  case_number: string;
+  title: string;
+  status: string;
+  priority: string;
+}
+
+export interface Officer {
+  id: string;
+  user_id: string;
+  name: string;
+  rank: string;
+  badge_number: string | null;
+  contact: string | null;
+  created_at: string;
+  cases: AssignedCase[];
+}
+
+export interface OfficerOption {
+  id: string;
+  name: string;
+  rank: string;
+}
+
+const officerTableConfig: TableQueryConfig = {
+  searchColumns: ['name', 'rank', 'badge_number'],
+  exactFilters: ['rank'],
+};
+
+const officerListSelect = '*, cases(id, case_number, title, status, priority)';
+
+async function fetchOfficers(query: TableQueryState): Promise<Page<Officer>> {
+  const { data, count, error } = await applyTableQuery(
+    supabase.from('officers').select(officerListSelect, { count: 'exact' }),
+    query,
+    officerTableConfig
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+export function useOfficers(query: TableQueryState) {
+  return useQuery({
+    queryKey: officerKeys.list(query),
+    queryFn: () => fetchOfficers(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every officer matching the table's search, filters and sort, ignoring pagination. */
+export function useOfficersExport(query: TableQueryState) {
+  return useCallback(() => fetchAllRows(fetchOfficers, query), [query]);
+}
+
+/** One officer by id, for links that open their caseload directly. */
+export function useOfficerRecord(id: string | null) {
+  return useQuery({
+    queryKey: officerKeys.detail(id ?? ''),
+    enabled: !!id,
+    queryFn: async (): Promise<Officer | null> => {
+      const { data, error } = await supabase.from('officers').select(officerListSelect).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useOfficerOptions() {
+  return useQuery({
+    queryKey: officerKeys.options(),
+    queryFn: async (): Promise<OfficerOption[]> => {
+      const { data, error } = await supabase.from('officers').select('id, name, rank').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateOfficer() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'officers'>, 'user_id'>) => {
+      const { error } = await supabase.from('officers').insert([{ ...values, user_id: user?.id as string }]);
+      if (error) throw error;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.officers),
+  });
+}
+
+export function useUpdateOfficer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'officers'> }) => {
+      const { error } = await supabase.from('officers').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, values }) => patchListRow<Officer>(queryClient, officerKeys.lists(), id, values as Partial<Officer>),
+    onError: (_error, _variables, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.officers),
+  });
+}
+
+export function useDeleteOfficer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('officers').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onMutate: (id) => removeListRow<Officer>(queryClient, officerKeys.lists(), id),
+    onError: (_error, _id, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.officers),
+  });
+}
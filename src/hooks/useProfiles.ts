@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { profileKeys } from '@/lib/queryKeys';
+import { AppRole } from '@/lib/permissions';
+import { invalidateAll } from '@/lib/queryCache';
+
+export interface Profile {
+  id: string;
+  user_id: string;
+  full_name: string | null;
+  role: string;
+  created_at: string;
+}
+
+export interface ProfileName {
+  user_id: string;
+  full_name: string | null;
+}
+
+export function useProfileNames() {
+  return useQuery({
+    queryKey: profileKeys.names(),
+    queryFn: async (): Promise<ProfileName[]> => {
+      const { data, error } = await supabase.from('profiles').select('user_id, full_name').order('full_name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+    select: (profiles) => new Map(profiles.map((p) => [p.user_id, p.full_name || 'Unnamed user'])),
+  });
+}
+
+/** Every account with its role, for administering who can do what. */
+export function useProfiles() {
+  return useQuery({
+    queryKey: profileKeys.list(),
+    queryFn: async (): Promise<Profile[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, user_id, full_name, role, created_at')
+        .order('full_name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useUpdateProfileRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: AppRole }) => {
+      const { data, error } = await supabase.from('profiles').update({ role }).eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: only administrators can change roles');
+    },
+    onSettled: () => invalidateAll(queryClient, [profileKeys.all]),
+  });
+}
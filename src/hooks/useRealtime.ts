@@ -0,0 +1,66 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfileNames } from '@/hooks/useProfiles';
+import { affectedKeys } from '@/lib/queryKeys';
+import { invalidateAll } from '@/lib/queryCache';
+import { RealtimeTable, RowChange, toRowChange } from '@/lib/realtime';
+
+const HIGHLIGHT_MS = 5000;
+
+/**
+ * Subscribes to inserts, updates and deletes on the given tables, refreshing
+ * every cache that embeds them. Returns rows recently changed by other users,
+ * keyed by id, so tables can highlight them.
+ */
+export function useRealtimeChanges(tables: readonly RealtimeTable[]) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: actorNames } = useProfileNames();
+  const channelId = useId();
+  const [changes, setChanges] = useState<Record<string, RowChange>>({});
+
+  // Read through refs so a late profile load doesn't tear down the subscription
+  const userIdRef = useRef(user?.id);
+  const actorNamesRef = useRef(actorNames);
+  userIdRef.current = user?.id;
+  actorNamesRef.current = actorNames;
+
+  const tableList = tables.join(',');
+
+  useEffect(() => {
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const channel = supabase.channel(`realtime:${tableList}:${channelId}`);
+
+    (tableList.split(',') as RealtimeTable[]).forEach((table) => {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+        invalidateAll(queryClient, affectedKeys[table]);
+
+        const highlight = toRowChange(payload, userIdRef.current, actorNamesRef.current);
+        if (!highlight) return;
+
+        const { id, change } = highlight;
+        setChanges((prev) => ({ ...prev, [id]: change }));
+        clearTimeout(timers.get(id));
+        timers.set(id, setTimeout(() => {
+          timers.delete(id);
+          setChanges((prev) => {
+            const next = { ...prev };
+            delete next[id];
+            return next;
+          });
+        }, HIGHLIGHT_MS));
+      });
+    });
+
+    channel.subscribe();
+
+    return () => {
+      timers.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, [tableList, channelId, queryClient]);
+
+  return changes;
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { affectedKeys, recordNumberKeys } from '@/lib/queryKeys';
+import { invalidateAll } from '@/lib/queryCache';
+import { NumberedEntity, RecordNumberSetting } from '@/lib/recordNumbers';
+
+/**
+ * The number the database would assign to a new record right now. Evidence numbers come from
+ * the parent case and cases and lab reports from the year of their date, so pass whichever applies.
+ */
+export function useNextRecordNumber(entity: NumberedEntity, { caseId, date }: { caseId?: string; date?: string }, enabled = true) {
+  // Only the year of the date matters, so changing the day doesn't refetch
+  const scope = { caseId: caseId || undefined, date: date ? `${date.slice(0, 4)}-01-01` : undefined };
+  return useQuery({
+    queryKey: recordNumberKeys.next(entity, scope),
+    enabled: enabled && (entity !== 'evidence' || !!scope.caseId),
+    staleTime: 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('preview_record_number', {
+        target_entity: entity,
+        parent_case: scope.caseId,
+        for_date: scope.date,
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useRecordNumberSettings() {
+  return useQuery({
+    queryKey: recordNumberKeys.settings(),
+    queryFn: async (): Promise<RecordNumberSetting[]> => {
+      const { data, error } = await supabase.from('record_number_settings').select('entity, prefix, updated_at');
+      if (error) throw error;
+      return (data || []) as RecordNumberSetting[];
+    },
+  });
+}
+
+export function useUpdateRecordNumberPrefix() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ entity, prefix }: { entity: NumberedEntity; prefix: string }) => {
+      const { data, error } = await supabase.from('record_number_settings').update({ prefix }).eq('entity', entity).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: only administrators can change numbering');
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.record_number_settings),
+  });
+}
@@ -0,0 +1,45 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { searchKeys } from '@/lib/queryKeys';
+import { NarrativeEntity, RankedRow, SearchResult, rankRows } from '@/lib/search';
+
+// Single characters match most of the database as a prefix; wait for something selective
+export const MIN_SEARCH_LENGTH = 2;
+
+/** Best identifier matches across every entity, via the global_search full-text RPC. */
+export function useGlobalSearch(term: string) {
+  const trimmed = term.trim();
+  return useQuery({
+    queryKey: searchKeys.global(trimmed),
+    queryFn: async (): Promise<SearchResult[]> => {
+      const { data, error } = await supabase.rpc('global_search', { term: trimmed });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: trimmed.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Ranked full-text matches over one entity's narrative fields, via the search_records RPC.
+ * `loadRows` fetches the matched ids with the same columns the entity's table shows.
+ */
+export function useFullTextSearch<T extends { id: string }>(
+  keys: { all: readonly [NarrativeEntity]; search: (term: string) => readonly unknown[] },
+  term: string,
+  loadRows: (ids: string[]) => Promise<T[]>
+) {
+  const trimmed = term.trim();
+  return useQuery({
+    queryKey: keys.search(trimmed),
+    queryFn: async (): Promise<RankedRow<T>[]> => {
+      const { data, error } = await supabase.rpc('search_records', { entity: keys.all[0], term: trimmed });
+      if (error) throw error;
+      if (!data?.length) return [];
+      return rankRows(data, await loadRows(data.map((hit) => hit.id)));
+    },
+    enabled: trimmed.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { SortState, TableQueryState } from '@/lib/tableQuery';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Table state for a server-paginated list. A `?q=` in the URL seeds the search, so other pages can link to a filtered list. */
+export function useServerTable(defaultSort: SortState, pageSize = 25) {
+  const [searchParams] = useSearchParams();
+  const linkedSearch = searchParams.get('q');
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortState>(defaultSort);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [searchValue, setSearchValue] = useState(linkedSearch ?? '');
+  const [search, setSearch] = useState(linkedSearch ?? '');
+  // Whether the search box runs ranked full-text search over narrative fields instead
+  const [fullText, setFullText] = useState(false);
+
+  useEffect(() => {
+    if (linkedSearch !== null) setSearchValue(linkedSearch);
+  }, [linkedSearch]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchValue);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchValue]);
+
+  const handleSortChange = useCallback((column: string) => {
+    setSort((prev) => (prev.column === column ? { column, ascending: !prev.ascending } : { column, ascending: true }));
+    setPage(1);
+  }, []);
+
+  const handleFilterChange = useCallback((column: string, value: string) => {
+    setFilters((prev) => ({ ...prev, [column]: value }));
+    setPage(1);
+  }, []);
+
+  const query = useMemo<TableQueryState>(
+    () => ({ page, pageSize, sort, filters, search }),
+    [page, pageSize, sort, filters, search]
+  );
+
+  return {
+    query,
+    searchValue,
+    setSearchValue,
+    fullText,
+    setFullText,
+    setPage,
+    handleSortChange,
+    handleFilterChange,
+  };
+}
@@ -0,0 +1,216 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useFullTextSearch } from '@/hooks/useSearch';
+import { applyTableQuery, escapeLikePattern, fetchAllRows, TableQueryConfig, TableQueryState } from '@/lib/tableQuery';
+import { affectedKeys, suspectKeys } from '@/lib/queryKeys';
+import { findDuplicatePeople } from '@/lib/people';
+import { CacheSnapshot, Page, invalidateAll, patchListRow, removeListRow, restoreSnapshot } from '@/lib/queryCache';
+
+export interface CaseInvolvement {
+  id: string;
+  user_id: string;
+  case_id: string;
+  suspect_id: string;
+  role: string;
+  status: string;
+  notes: string | null;
+  cases: { case_number: string; title: string; status: string } | null;
+}
+
+export interface Suspect {
+  id: string;
+  user_id: string;
+  name: string;
+  age: number | null;
+  gender: string | null;
+  address: string | null;
+  phone: string | null;
+  description: string | null;
+  created_at: string;
+  case_involvements: CaseInvolvement[];
+}
+
+export interface SuspectOption {
+  id: string;
+  name: string;
+  age: number | null;
+}
+
+const suspectTableConfig: TableQueryConfig = {
+  searchColumns: ['name', 'address', 'phone'],
+  exactFilters: ['gender'],
+};
+
+const suspectListSelect = '*, case_involvements(*, cases(case_number, title, status))';
+
+async function fetchSuspects(query: TableQueryState): Promise<Page<Suspect>> {
+  const { data, count, error } = await applyTableQuery(
+    supabase
+      .from('suspects')
+      .select(suspectListSelect, { count: 'exact' }),
+    query,
+    suspectTableConfig
+  );
+  if (error) throw error;
+  return { rows: data || [], count: count || 0 };
+}
+
+export function useSuspects(query: TableQueryState) {
+  return useQuery({
+    queryKey: suspectKeys.list(query),
+    queryFn: () => fetchSuspects(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every person matching the table's search, filters and sort, ignoring pagination. */
+export function useSuspectsExport(query: TableQueryState) {
+  return useCallback(() => fetchAllRows(fetchSuspects, query), [query]);
+}
+
+/** One person by id, for links that open their record directly. */
+export function useSuspectRecord(id: string | null) {
+  return useQuery({
+    queryKey: suspectKeys.detail(id ?? ''),
+    enabled: !!id,
+    queryFn: async (): Promise<Suspect | null> => {
+      const { data, error } = await supabase.from('suspects').select(suspectListSelect).eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/** People whose description matches a full-text query, best match first. */
+export function useSuspectsFullTextSearch(term: string) {
+  return useFullTextSearch(suspectKeys, term, async (ids) => {
+    const { data, error } = await supabase.from('suspects').select(suspectListSelect).in('id', ids);
+    if (error) throw error;
+    return (data || []) as Suspect[];
+  });
+}
+
+export function useSuspectOptions() {
+  return useQuery({
+    queryKey: suspectKeys.options(),
+    queryFn: async (): Promise<SuspectOption[]> => {
+      const { data, error } = await supabase.from('suspects').select('id, name, age').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function usePersonInvolvements(suspectId: string) {
+  return useQuery({
+    queryKey: suspectKeys.involvements(suspectId),
+    queryFn: async (): Promise<CaseInvolvement[]> => {
+      const { data, error } = await supabase
+        .from('case_involvements')
+        .select('*, cases(case_number, title, status)')
+        .eq('suspect_id', suspectId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+/** Looks up people already on file with the same name and phone. */
+export function useDuplicatePeopleCheck() {
+  return useCallback(async (name: string, phone: string) => {
+    const { data, error } = await supabase
+      .from('suspects')
+      .select(suspectListSelect)
+      .ilike('name', name.trim().split(/\s+/).map(escapeLikePattern).join('%'));
+    if (error) throw error;
+    return findDuplicatePeople<Suspect>(data || [], name, phone);
+  }, []);
+}
+
+export function useCreateSuspect() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'suspects'>, 'user_id'>) => {
+      const { data, error } = await supabase
+        .from('suspects')
+        .insert([{ ...values, user_id: user?.id as string }])
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.suspects),
+  });
+}
+
+export function useUpdateSuspect() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'suspects'> }) => {
+      const { error } = await supabase.from('suspects').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, values }) => patchListRow<Suspect>(queryClient, suspectKeys.lists(), id, values as Partial<Suspect>),
+    onError: (_error, _variables, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.suspects),
+  });
+}
+
+export function useDeleteSuspect() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('suspects').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onMutate: (id) => removeListRow<Suspect>(queryClient, suspectKeys.lists(), id),
+    onError: (_error, _id, snapshot?: CacheSnapshot) => restoreSnapshot(queryClient, snapshot),
+    onSettled: () => invalidateAll(queryClient, affectedKeys.suspects),
+  });
+}
+
+export function useLinkCase() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'case_involvements'>, 'user_id'>) => {
+      const { error } = await supabase.from('case_involvements').insert([{ ...values, user_id: user?.id as string }]);
+      if (error) {
+        if (error.code === '23505') throw new Error('This person is already linked to that case');
+        throw error;
+      }
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_involvements),
+  });
+}
+
+export function useUpdateInvolvement() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'case_involvements'> }) => {
+      const { data, error } = await supabase.from('case_involvements').update(values).eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to update this record');
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_involvements),
+  });
+}
+
+export function useUnlinkCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('case_involvements').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_involvements),
+  });
+}
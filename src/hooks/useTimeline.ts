@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { affectedKeys, caseKeys } from '@/lib/queryKeys';
+import { invalidateAll } from '@/lib/queryCache';
+import { TimelineEvent } from '@/lib/timeline';
+
+/** Every dated event on a case merged with its manual entries, via the case_timeline RPC. */
+export function useCaseTimeline(caseId: string | undefined) {
+  return useQuery({
+    queryKey: caseKeys.timeline(caseId ?? ''),
+    enabled: !!caseId,
+    queryFn: async (): Promise<TimelineEvent[]> => {
+      const { data, error } = await supabase.rpc('case_timeline', { target_case: caseId });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+export function useCreateTimelineEntry() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  return useMutation({
+    mutationFn: async (values: Omit<TablesInsert<'case_timeline_entries'>, 'user_id'>) => {
+      const { error } = await supabase.from('case_timeline_entries').insert([{ ...values, user_id: user?.id as string }]);
+      if (error) throw error;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_timeline_entries),
+  });
+}
+
+export function useUpdateTimelineEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'case_timeline_entries'> }) => {
+      const { error } = await supabase.from('case_timeline_entries').update(values).eq('id', id);
+      if (error) throw error;
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_timeline_entries),
+  });
+}
+
+export function useDeleteTimelineEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.from('case_timeline_entries').delete().eq('id', id).select();
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Permission denied: you are not allowed to delete this record');
+    },
+    onSettled: () => invalidateAll(queryClient, affectedKeys.case_timeline_entries),
+  });
+}
@@ -14,9 +14,144 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          id: string
+          new_data: Json | null
+          occurred_at: string
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          id?: string
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          id?: string
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      case_involvements: {
+        Row: {
+          case_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          role: string
+          status: string
+          suspect_id: string
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          role?: string
+          status?: string
+          suspect_id: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          role?: string
+          status?: string
+          suspect_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_involvements_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_involvements_suspect_id_fkey"
+            columns: ["suspect_id"]
+            isOneToOne: false
+            referencedRelation: "suspects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_timeline_entries: {
+        Row: {
+          case_id: string
+          created_at: string
+          details: string | null
+          entry_type: string
+          id: string
+          occurred_at: string
+          title: string
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          details?: string | null
+          entry_type?: string
+          id?: string
+          occurred_at: string
+          title: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          details?: string | null
+          entry_type?: string
+          id?: string
+          occurred_at?: string
+          title?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_timeline_entries_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cases: {
         Row: {
           case_number: string
+          closure_reason: string | null
           created_at: string
           date_closed: string | null
           date_opened: string
@@ -24,14 +159,18 @@ export type Database = {
           id: string
           lead_officer_id: string | null
           location: string | null
+          narrative_vector: unknown | null
           priority: string | null
+          search_vector: unknown | null
           status: string
           title: string
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
-          case_number: string
+          case_number?: string
+          closure_reason?: string | null
           created_at?: string
           date_closed?: string | null
           date_opened?: string
@@ -39,14 +178,18 @@ export type Database = {
           id?: string
           lead_officer_id?: string | null
           location?: string | null
+          narrative_vector?: never
           priority?: string | null
+          search_vector?: never
           status?: string
           title: string
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
           case_number?: string
+          closure_reason?: string | null
           created_at?: string
           date_closed?: string | null
           date_opened?: string
@@ -54,10 +197,13 @@ export type Database = {
           id?: string
           lead_officer_id?: string | null
           location?: string | null
+          narrative_vector?: never
           priority?: string | null
+          search_vector?: never
           status?: string
           title?: string
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
         Relationships: [
@@ -81,10 +227,13 @@ export type Database = {
           evidence_number: string
           id: string
           location_found: string | null
+          narrative_vector: unknown | null
+          search_vector: unknown | null
           status: string | null
           storage_location: string | null
           type: string
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
@@ -94,13 +243,16 @@ export type Database = {
           created_at?: string
           date_collected?: string
           description: string
-          evidence_number: string
+          evidence_number?: string
           id?: string
           location_found?: string | null
+          narrative_vector?: never
+          search_vector?: never
           status?: string | null
           storage_location?: string | null
           type: string
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
@@ -113,10 +265,13 @@ export type Database = {
           evidence_number?: string
           id?: string
           location_found?: string | null
+          narrative_vector?: never
+          search_vector?: never
           status?: string | null
           storage_location?: string | null
           type?: string
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
         Relationships: [
@@ -129,6 +284,164 @@ export type Database = {
           },
         ]
       }
+      evidence_attachments: {
+        Row: {
+          created_at: string
+          evidence_id: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          evidence_id: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          evidence_id?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_attachments_evidence_id_fkey"
+            columns: ["evidence_id"]
+            isOneToOne: false
+            referencedRelation: "evidence"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evidence_custody_events: {
+        Row: {
+          created_at: string
+          evidence_id: string
+          id: string
+          location: string
+          notes: string | null
+          purpose: string
+          received_by: string
+          released_by: string
+          signature: string
+          transferred_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          evidence_id: string
+          id?: string
+          location: string
+          notes?: string | null
+          purpose: string
+          received_by: string
+          released_by: string
+          signature: string
+          transferred_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          evidence_id?: string
+          id?: string
+          location?: string
+          notes?: string | null
+          purpose?: string
+          received_by?: string
+          released_by?: string
+          signature?: string
+          transferred_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_custody_events_evidence_id_fkey"
+            columns: ["evidence_id"]
+            isOneToOne: false
+            referencedRelation: "evidence"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evidence_links: {
+        Row: {
+          confidence: string
+          created_at: string
+          evidence_id: string
+          id: string
+          lab_report_id: string | null
+          link_type: string
+          notes: string | null
+          suspect_id: string
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          confidence?: string
+          created_at?: string
+          evidence_id: string
+          id?: string
+          lab_report_id?: string | null
+          link_type: string
+          notes?: string | null
+          suspect_id: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          confidence?: string
+          created_at?: string
+          evidence_id?: string
+          id?: string
+          lab_report_id?: string | null
+          link_type?: string
+          notes?: string | null
+          suspect_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_links_evidence_id_fkey"
+            columns: ["evidence_id"]
+            isOneToOne: false
+            referencedRelation: "evidence"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_links_lab_report_id_fkey"
+            columns: ["lab_report_id"]
+            isOneToOne: false
+            referencedRelation: "lab_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_links_suspect_id_fkey"
+            columns: ["suspect_id"]
+            isOneToOne: false
+            referencedRelation: "suspects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lab_reports: {
         Row: {
           analysis_result: string
@@ -140,10 +453,13 @@ export type Database = {
           id: string
           lab_name: string | null
           lab_tech_name: string
+          narrative_vector: unknown | null
           notes: string | null
           report_number: string
+          search_vector: unknown | null
           status: string | null
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
@@ -156,10 +472,13 @@ export type Database = {
           id?: string
           lab_name?: string | null
           lab_tech_name: string
+          narrative_vector?: never
           notes?: string | null
-          report_number: string
+          report_number?: string
+          search_vector?: never
           status?: string | null
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
@@ -172,10 +491,13 @@ export type Database = {
           id?: string
           lab_name?: string | null
           lab_tech_name?: string
+          narrative_vector?: never
           notes?: string | null
           report_number?: string
+          search_vector?: never
           status?: string | null
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
         Relationships: [
@@ -196,6 +518,7 @@ export type Database = {
           id: string
           name: string
           rank: string
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
@@ -206,6 +529,7 @@ export type Database = {
           id?: string
           name: string
           rank: string
+          search_vector?: never
           updated_at?: string
           user_id: string
         }
@@ -216,6 +540,7 @@ export type Database = {
           id?: string
           name?: string
           rank?: string
+          search_vector?: never
           updated_at?: string
           user_id?: string
         }
@@ -226,7 +551,7 @@ export type Database = {
           created_at: string
           full_name: string | null
           id: string
-          role: string | null
+          role: string
           updated_at: string
           user_id: string
         }
@@ -234,7 +559,7 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
-          role?: string | null
+          role?: string
           updated_at?: string
           user_id: string
         }
@@ -242,71 +567,212 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
-          role?: string | null
+          role?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      record_number_counters: {
+        Row: {
+          last_value: number
+          scope: string
+        }
+        Insert: {
+          last_value: number
+          scope: string
+        }
+        Update: {
+          last_value?: number
+          scope?: string
+        }
+        Relationships: []
+      }
+      record_number_settings: {
+        Row: {
+          created_at: string
+          entity: string
+          id: string
+          prefix: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          entity: string
+          id?: string
+          prefix: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          entity?: string
+          id?: string
+          prefix?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       suspects: {
         Row: {
           address: string | null
           age: number | null
-          case_id: string
           created_at: string
           description: string | null
           gender: string | null
           id: string
           name: string
+          narrative_vector: unknown | null
           phone: string | null
-          status: string | null
+          search_vector: unknown | null
           updated_at: string
+          updated_by: string | null
           user_id: string
         }
         Insert: {
           address?: string | null
           age?: number | null
-          case_id: string
           created_at?: string
           description?: string | null
           gender?: string | null
           id?: string
           name: string
+          narrative_vector?: never
           phone?: string | null
-          status?: string | null
+          search_vector?: never
           updated_at?: string
+          updated_by?: string | null
           user_id: string
         }
         Update: {
           address?: string | null
           age?: number | null
-          case_id?: string
           created_at?: string
           description?: string | null
           gender?: string | null
           id?: string
           name?: string
+          narrative_vector?: never
           phone?: string | null
-          status?: string | null
+          search_vector?: never
           updated_at?: string
+          updated_by?: string | null
           user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "suspects_case_id_fkey"
-            columns: ["case_id"]
-            isOneToOne: false
-            referencedRelation: "cases"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activity_feed: {
+        Args: {
+          before_at?: string
+          before_id?: string
+          entity_types?: string[]
+          only_my_cases?: boolean
+          page_size?: number
+        }
+        Returns: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          case_id: string | null
+          case_number: string | null
+          changed_fields: string[] | null
+          entity_type: string
+          id: string
+          label: string
+          occurred_at: string
+          record_id: string
+        }[]
+      }
+      analytics_case_aging: {
+        Args: { from_date: string; to_date: string }
+        Returns: { age_bucket: string; priority: string; total: number }[]
+      }
+      analytics_cases_by_month: {
+        Args: { from_date: string; to_date: string }
+        Returns: { closed: number; month: string; opened: number }[]
+      }
+      analytics_evidence_by_type: {
+        Args: { from_date: string; to_date: string }
+        Returns: { evidence_type: string; total: number }[]
+      }
+      analytics_involvement_status: {
+        Args: { from_date: string; to_date: string }
+        Returns: { status: string; total: number }[]
+      }
+      analytics_lab_turnaround: {
+        Args: { from_date: string; to_date: string }
+        Returns: { analysis_type: string; avg_days: number; reports: number }[]
+      }
+      case_status_allowed: {
+        Args: { from_status: string; to_status: string }
+        Returns: boolean
+      }
+      case_timeline: {
+        Args: { target_case: string }
+        Returns: {
+          actor_name: string | null
+          detail: string | null
+          event_date: string
+          event_id: string
+          event_time: string | null
+          kind: string
+          owner_id: string | null
+          record_id: string
+          tag: string | null
+          title: string
+        }[]
+      }
+      current_user_role: { Args: never; Returns: string }
+      global_search: {
+        Args: { per_type?: number; term: string }
+        Returns: {
+          entity_type: string
+          id: string
+          rank: number
+          subtitle: string
+          title: string
+        }[]
+      }
+      graph_neighbors: {
+        Args: { node_id: string; node_type: string }
+        Returns: {
+          detail: string | null
+          label: string
+          neighbor_id: string
+          neighbor_type: string
+          relation: string
+        }[]
+      }
+      has_role: { Args: { _roles: string[] }; Returns: boolean }
+      import_cases: { Args: { records: Json }; Returns: number }
+      prefix_tsquery: { Args: { term: string }; Returns: unknown }
+      preview_record_number: {
+        Args: { for_date?: string; parent_case?: string; target_entity: string }
+        Returns: string
+      }
+      record_number_candidate: {
+        Args: { for_date: string; parent_case: string; seq: number; target_entity: string }
+        Returns: string
+      }
+      record_number_scope: {
+        Args: { for_date: string; parent_case: string; target_entity: string }
+        Returns: string
+      }
+      record_number_taken: {
+        Args: { candidate: string; target_entity: string }
+        Returns: boolean
+      }
+      search_records: {
+        Args: { entity: string; max_results?: number; term: string }
+        Returns: { id: string; rank: number; snippet: string }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,47 @@
+import { recordLink } from '@/lib/search';
+
+export type ActivityEntity = 'cases' | 'evidence' | 'suspects' | 'lab_reports';
+
+export interface ActivityItem {
+  id: string;
+  entity_type: string;
+  record_id: string;
+  action: string;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  label: string;
+  case_id: string | null;
+  case_number: string | null;
+  changed_fields: string[] | null;
+}
+
+export const activityEntityOptions: { value: ActivityEntity; label: string }[] = [
+  { value: 'cases', label: 'Cases' },
+  { value: 'evidence', label: 'Evidence' },
+  { value: 'suspects', label: 'People' },
+  { value: 'lab_reports', label: 'Lab Reports' },
+];
+
+const entityNouns: Record<ActivityEntity, string> = {
+  cases: 'case',
+  evidence: 'evidence',
+  suspects: 'person',
+  lab_reports: 'lab report',
+};
+
+// Listing every changed column gets unreadable; past this many the summary just says "updated"
+const MAX_LISTED_FIELDS = 3;
+
+/** "created evidence", "updated case status, priority", ... */
+export function describeActivity(item: Pick<ActivityItem, 'entity_type' | 'action' | 'changed_fields'>) {
+  const noun = entityNouns[item.entity_type as ActivityEntity] ?? item.entity_type;
+  if (item.action === 'INSERT') return `created ${noun}`;
+  const fields = (item.changed_fields ?? []).map((field) => field.replace(/_id$/, '').replace(/_/g, ' '));
+  if (fields.length === 0 || fields.length > MAX_LISTED_FIELDS) return `updated ${noun}`;
+  return `updated ${noun} ${fields.join(', ')}`;
+}
+
+/** Link to the record the activity touched. */
+export const activityLink = (item: Pick<ActivityItem, 'entity_type' | 'record_id'>) =>
+  recordLink(item.entity_type, item.record_id);
@@ -0,0 +1,55 @@
+import { format, parseISO, startOfYear, subDays, subMonths } from 'date-fns';
+
+/** Inclusive range of calendar dates, as YYYY-MM-DD strings. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type RangePreset = '30d' | '90d' | '12m' | 'ytd';
+
+export const rangePresets: { value: RangePreset; label: string }[] = [
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '12m', label: 'Last 12 months' },
+  { value: 'ytd', label: 'Year to date' },
+];
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function presetRange(preset: RangePreset, today: Date = new Date()): DateRange {
+  const start = {
+    '30d': () => subDays(today, 29),
+    '90d': () => subDays(today, 89),
+    '12m': () => subMonths(today, 12),
+    ytd: () => startOfYear(today),
+  }[preset]();
+  return { from: toDateString(start), to: toDateString(today) };
+}
+
+export function formatRange(range: DateRange) {
+  return `${format(parseISO(range.from), 'MMM d, yyyy')} - ${format(parseISO(range.to), 'MMM d, yyyy')}`;
+}
+
+export const formatMonth = (month: string) => format(parseISO(month), 'MMM yy');
+
+// Must match the buckets produced by analytics_case_aging
+export const caseAgeBuckets = ['0-30', '31-90', '91-180', '180+'] as const;
+
+const priorityOrder = ['critical', 'high', 'medium', 'low'];
+
+/** One row per priority with a count per age bucket, the shape a stacked bar chart expects. */
+export function pivotCaseAging(rows: { priority: string; age_bucket: string; total: number }[]) {
+  const priorities = [...new Set(rows.map((r) => r.priority))].sort(
+    (a, b) => priorityOrder.indexOf(a) - priorityOrder.indexOf(b)
+  );
+  return priorities.map((priority) => ({
+    priority,
+    ...Object.fromEntries(
+      caseAgeBuckets.map((bucket) => [
+        bucket,
+        rows.find((r) => r.priority === priority && r.age_bucket === bucket)?.total ?? 0,
+      ])
+    ),
+  }));
+}
@@ -0,0 +1,50 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/** Audit log filters; dates are yyyy-MM-dd days in local time and blank values match everything. */
+export interface AuditFilters {
+  tableName: string;
+  actorId: string;
+  recordId: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface AuditChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+export const auditedTables = [
+  { value: 'cases', label: 'Cases' },
+  { value: 'evidence', label: 'Evidence' },
+  { value: 'suspects', label: 'Suspects' },
+  { value: 'case_involvements', label: 'Case Involvements' },
+  { value: 'officers', label: 'Officers' },
+  { value: 'lab_reports', label: 'Lab Reports' },
+];
+
+// Bookkeeping columns that change on every write and only add noise to a diff
+const ignoredFields = new Set(['updated_at']);
+
+const asObject = (value: Json | null | undefined): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+export function diffAuditRecords(oldData: Json | null, newData: Json | null): AuditChange[] {
+  const before = asObject(oldData);
+  const after = asObject(newData);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields
+    .filter((field) => !ignoredFields.has(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+export function describeRecord(data: Json | null): string {
+  const record = asObject(data);
+  const label = record.case_number ?? record.evidence_number ?? record.report_number ?? record.name ?? record.title;
+  return typeof label === 'string' ? label : '';
+}
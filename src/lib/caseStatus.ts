@@ -0,0 +1,28 @@
+export type CaseStatus = 'open' | 'under_investigation' | 'pending' | 'closed';
+
+// Mirrors public.case_status_allowed(); the database trigger is the source of truth
+const transitions: Record<CaseStatus, CaseStatus[]> = {
+  open: ['under_investigation'],
+  under_investigation: ['pending'],
+  pending: ['under_investigation', 'closed'],
+  closed: ['open'],
+};
+
+const labels: Record<CaseStatus, string> = {
+  open: 'Open',
+  under_investigation: 'Under Investigation',
+  pending: 'Pending',
+  closed: 'Closed',
+};
+
+export const caseStatusOptions = (Object.keys(labels) as CaseStatus[]).map((value) => ({ value, label: labels[value] }));
+
+export const canTransition = (from: CaseStatus, to: CaseStatus) => from === to || transitions[from].includes(to);
+
+/** The statuses a case can be saved with from where it is now, current status first. */
+export function nextStatusOptions(current: CaseStatus) {
+  return [current, ...transitions[current]].map((value) => ({
+    value,
+    label: current === 'closed' && value === 'open' ? 'Reopen' : labels[value],
+  }));
+}
@@ -0,0 +1,278 @@
+import { ZodTypeAny } from 'zod';
+import { format, isValid, parse } from 'date-fns';
+import { caseSchema, evidenceSchema, officerSchema, personSchema } from '@/lib/schemas';
+
+export type ImportEntity = 'cases' | 'evidence' | 'suspects' | 'officers';
+
+type FieldKind = 'text' | 'number' | 'date' | 'enum';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  kind?: FieldKind;
+  /** Other header spellings recognised when mapping columns automatically */
+  aliases?: string[];
+}
+
+export interface ImportLookups {
+  /** Existing case ids by case number */
+  caseIds: Map<string, string>;
+  /** Existing officer ids by badge number */
+  officerIds: Map<string, string>;
+}
+
+export interface ImportRow {
+  /** Row number as a spreadsheet would show it, counting the header as row 1 */
+  rowNumber: number;
+  /** Values ready to insert, or null when the row has errors */
+  record: Record<string, unknown> | null;
+  errors: string[];
+}
+
+interface ImportTarget {
+  label: string;
+  fields: ImportField[];
+  /** Columns written to the table; lookup-only fields such as case numbers are left out */
+  columns: string[];
+  defaults?: Record<string, string>;
+  schema: ZodTypeAny;
+  /** Must be unique within the file and, where a lookup exists, against records already stored */
+  uniqueKey?: string;
+  /** Swaps human keys (case numbers, badge numbers) for foreign keys, returning any lookup errors */
+  resolve?: (values: Record<string, unknown>, lookups: ImportLookups) => string[];
+  exists?: (value: string, lookups: ImportLookups) => boolean;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const lookupKey = (value: string) => value.trim().toLowerCase();
+
+const resolveCase = (values: Record<string, unknown>, lookups: ImportLookups) => {
+  const caseNumber = values.case_number as string | undefined;
+  if (!caseNumber) return [];
+  const caseId = lookups.caseIds.get(lookupKey(caseNumber));
+  if (!caseId) return [`Case Number: no case "${caseNumber}" exists`];
+  values.case_id = caseId;
+  return [];
+};
+
+export const importTargets: Record<ImportEntity, ImportTarget> = {
+  cases: {
+    label: 'Cases',
+    fields: [
+      { key: 'case_number', label: 'Case Number', aliases: ['case #', 'case no'] },
+      { key: 'title', label: 'Title', required: true },
+      { key: 'description', label: 'Description' },
+      { key: 'date_opened', label: 'Date Opened', required: true, kind: 'date', aliases: ['opened'] },
+      { key: 'status', label: 'Status', kind: 'enum' },
+      { key: 'priority', label: 'Priority', kind: 'enum' },
+      { key: 'location', label: 'Location' },
+      { key: 'lead_officer_badge', label: 'Lead Officer Badge', aliases: ['lead officer', 'badge number'] },
+      { key: 'closure_reason', label: 'Closure Reason' },
+      { key: 'date_closed', label: 'Date Closed', kind: 'date', aliases: ['closed'] },
+    ],
+    columns: ['case_number', 'title', 'description', 'date_opened', 'status', 'priority', 'location', 'lead_officer_id', 'closure_reason', 'date_closed'],
+    defaults: { status: 'open', priority: 'medium' },
+    schema: caseSchema,
+    uniqueKey: 'case_number',
+    exists: (value, lookups) => lookups.caseIds.has(lookupKey(value)),
+    resolve: (values, lookups) => {
+      const badge = values.lead_officer_badge as string | undefined;
+      if (!badge) return [];
+      const officerId = lookups.officerIds.get(lookupKey(badge));
+      if (!officerId) return [`Lead Officer Badge: no officer with badge "${badge}"`];
+      values.lead_officer_id = officerId;
+      return [];
+    },
+  },
+  evidence: {
+    label: 'Evidence',
+    fields: [
+      { key: 'evidence_number', label: 'Evidence Number', aliases: ['evidence #', 'evidence no'] },
+      { key: 'case_number', label: 'Case Number', required: true, aliases: ['case #', 'case no', 'case'] },
+      { key: 'description', label: 'Description', required: true },
+      { key: 'type', label: 'Type', required: true, kind: 'enum' },
+      { key: 'location_found', label: 'Location Found' },
+      { key: 'date_collected', label: 'Date Collected', required: true, kind: 'date', aliases: ['collected'] },
+      { key: 'collected_by', label: 'Collected By' },
+      { key: 'storage_location', label: 'Storage Location', aliases: ['storage'] },
+      { key: 'status', label: 'Status', kind: 'enum' },
+    ],
+    columns: ['evidence_number', 'case_id', 'description', 'type', 'location_found', 'date_collected', 'collected_by', 'storage_location', 'status'],
+    defaults: { status: 'in_storage' },
+    schema: evidenceSchema,
+    uniqueKey: 'evidence_number',
+    resolve: resolveCase,
+  },
+  suspects: {
+    label: 'People',
+    fields: [
+      { key: 'name', label: 'Name', required: true, aliases: ['full name'] },
+      { key: 'age', label: 'Age', kind: 'number' },
+      { key: 'gender', label: 'Gender', kind: 'enum' },
+      { key: 'address', label: 'Address' },
+      { key: 'phone', label: 'Phone', aliases: ['contact', 'phone number'] },
+      { key: 'description', label: 'Description' },
+      { key: 'case_number', label: 'Case Number', aliases: ['case #', 'case no', 'case'] },
+      { key: 'role', label: 'Role in Case', kind: 'enum', aliases: ['role', 'status'] },
+    ],
+    // case_id and role become a case involvement rather than columns on the person
+    columns: ['name', 'age', 'gender', 'address', 'phone', 'description', 'case_id', 'role'],
+    defaults: { role: 'suspect' },
+    schema: personSchema,
+    resolve: resolveCase,
+  },
+  officers: {
+    label: 'Officers',
+    fields: [
+      { key: 'name', label: 'Name', required: true, aliases: ['full name'] },
+      { key: 'rank', label: 'Rank', required: true },
+      { key: 'badge_number', label: 'Badge Number', aliases: ['badge', 'badge #', 'badge no'] },
+      { key: 'contact', label: 'Contact', aliases: ['phone', 'email'] },
+    ],
+    columns: ['name', 'rank', 'badge_number', 'contact'],
+    schema: officerSchema,
+    uniqueKey: 'badge_number',
+    exists: (value, lookups) => lookups.officerIds.has(lookupKey(value)),
+  },
+};
+
+/** Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Matches CSV headers to fields by key, label or alias; unmatched fields map to ''. */
+export function autoMapColumns(headers: string[], fields: ImportField[]): Record<string, string> {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const names = [field.key, field.label, ...(field.aliases ?? [])].map(normalizeHeader);
+      return [field.key, headers.find((header) => names.includes(normalizeHeader(header))) ?? ''];
+    })
+  );
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yyyy', 'M/d/yy'];
+
+/** Normalises ISO or US-style dates to YYYY-MM-DD, or returns null if unparseable. */
+export function parseImportDate(value: string): string | null {
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+function normalizeValue(field: ImportField, raw: string): { value?: unknown; error?: string } {
+  const value = raw.trim();
+  if (!value) return {};
+  switch (field.kind) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? { value: number } : { error: `${field.label}: "${value}" is not a number` };
+    }
+    case 'date': {
+      const date = parseImportDate(value);
+      return date ? { value: date } : { error: `${field.label}: "${value}" is not a date (use YYYY-MM-DD or MM/DD/YYYY)` };
+    }
+    case 'enum':
+      return { value: value.toLowerCase().replace(/[\s-]+/g, '_') };
+    default:
+      return { value };
+  }
+}
+
+/** Validates mapped CSV rows against the entity's form schema and resolves lookups, one result per row. */
+export function validateImportRows(
+  entity: ImportEntity,
+  rows: string[][],
+  headers: string[],
+  mapping: Record<string, string>,
+  lookups: ImportLookups,
+): ImportRow[] {
+  const target = importTargets[entity];
+  const labels = new Map(target.fields.map((field) => [field.key, field.label]));
+  labels.set('case_id', 'Case Number');
+  labels.set('lead_officer_id', 'Lead Officer Badge');
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const values: Record<string, unknown> = { ...target.defaults };
+
+    target.fields.forEach((field) => {
+      const column = mapping[field.key] ? headers.indexOf(mapping[field.key]) : -1;
+      const { value, error } = normalizeValue(field, column >= 0 ? cells[column] ?? '' : '');
+      if (error) errors.push(error);
+      else if (value !== undefined) values[field.key] = value;
+      else if (field.required) errors.push(`${field.label}: required`);
+    });
+
+    errors.push(...(target.resolve?.(values, lookups) ?? []));
+
+    if (target.uniqueKey && values[target.uniqueKey]) {
+      const key = lookupKey(String(values[target.uniqueKey]));
+      const label = labels.get(target.uniqueKey);
+      if (seen.has(key)) errors.push(`${label}: duplicates row ${seen.get(key)}`);
+      else seen.set(key, rowNumber);
+      if (target.exists?.(key, lookups)) errors.push(`${label}: "${values[target.uniqueKey]}" already exists`);
+    }
+
+    // Fields that already failed above would only repeat as "Required" from the schema
+    const failed = new Set(errors.map((error) => error.split(':')[0]));
+    const result = target.schema.safeParse(values);
+    if (!result.success) {
+      result.error.errors.forEach((issue) => {
+        const label = labels.get(String(issue.path[0])) ?? String(issue.path[0] ?? 'Row');
+        if (!failed.has(label)) errors.push(`${label}: ${issue.message}`);
+      });
+    }
+
+    if (errors.length > 0) return { rowNumber, record: null, errors };
+    const merged = { ...values, ...(result.success ? result.data : {}) };
+    const record = Object.fromEntries(target.columns.map((column) => [column, merged[column] ?? null]));
+    return { rowNumber, record, errors };
+  });
+}
+
+export const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
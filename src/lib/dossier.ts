@@ -0,0 +1,186 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import type { CaseDossier } from '@/hooks/useCases';
+
+interface DossierMeta {
+  generatedBy: string;
+  generatedAt?: Date;
+}
+
+const MARGIN = 15;
+const FOOTER_SPACE = 15;
+const LINE_HEIGHT = 5;
+const ACCENT: [number, number, number] = [30, 41, 59];
+
+const humanize = (value: string | null | undefined) => (value ? value.replace(/_/g, ' ') : '-');
+// Date-only columns are calendar days; new Date() would read them as UTC midnight and print the day before
+const formatDate = (value: string | null | undefined) => (value ? format(parseISO(value), 'MMM d, yyyy') : '-');
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm');
+
+export const dossierFileName = (caseNumber: string, generatedAt: Date) =>
+  `dossier-${caseNumber.replace(/[^\w-]+/g, '_')}-${format(generatedAt, 'yyyyMMdd-HHmm')}.pdf`;
+
+/** Renders the case, its evidence with custody history, the people involved and lab findings into one paginated PDF. */
+export function buildCaseDossier(dossier: CaseDossier, { generatedBy, generatedAt = new Date() }: DossierMeta) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const { caseRecord, evidence, involvements, labReports } = dossier;
+  let y = MARGIN;
+
+  const lastTableY = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - FOOTER_SPACE) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string, size: number) => {
+    ensureSpace(size / 2 + LINE_HEIGHT * 2);
+    doc.setFont('helvetica', 'bold').setFontSize(size).setTextColor(...ACCENT);
+    doc.text(text, MARGIN, y + size / 3);
+    y += size / 2 + 2;
+    doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(0);
+  };
+
+  const paragraph = (text: string) => {
+    doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(0);
+    (doc.splitTextToSize(text, contentWidth) as string[]).forEach((line) => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, MARGIN, y + 3.5);
+      y += LINE_HEIGHT;
+    });
+    y += 2;
+  };
+
+  const fields = (rows: [string, string][]) => {
+    autoTable(doc, {
+      startY: y,
+      body: rows,
+      theme: 'plain',
+      styles: { fontSize: 9, cellPadding: 1 },
+      columnStyles: { 0: { fontStyle: 'bold', cellWidth: 40 } },
+      margin: { left: MARGIN, right: MARGIN, bottom: FOOTER_SPACE },
+    });
+    y = lastTableY() + 3;
+  };
+
+  const table = (head: string[], body: RowInput[]) => {
+    autoTable(doc, {
+      startY: y,
+      head: [head],
+      body,
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: ACCENT },
+      margin: { left: MARGIN, right: MARGIN, bottom: FOOTER_SPACE },
+    });
+    y = lastTableY() + 5;
+  };
+
+  // Case summary
+  doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(120);
+  doc.text('CASE DOSSIER', MARGIN, y + 3);
+  y += 6;
+  heading(`${caseRecord.case_number} - ${caseRecord.title}`, 16);
+
+  const officer = caseRecord.officers;
+  fields([
+    ['Status', humanize(caseRecord.status)],
+    ['Priority', humanize(caseRecord.priority)],
+    ['Date opened', formatDate(caseRecord.date_opened)],
+    ['Date closed', formatDate(caseRecord.date_closed)],
+    ...(caseRecord.closure_reason ? [['Closure reason', caseRecord.closure_reason] as [string, string]] : []),
+    ['Location', caseRecord.location || '-'],
+    [
+      'Lead officer',
+      officer
+        ? `${officer.rank} ${officer.name}${officer.badge_number ? ` (#${officer.badge_number})` : ''}${officer.contact ? ` · ${officer.contact}` : ''}`
+        : 'Unassigned',
+    ],
+  ]);
+  heading('Description', 11);
+  paragraph(caseRecord.description || 'No description provided.');
+
+  // Evidence with custody history
+  heading(`Evidence (${evidence.length})`, 13);
+  if (evidence.length === 0) paragraph('No evidence linked to this case.');
+  evidence.forEach((item) => {
+    heading(`${item.evidence_number} - ${item.type}`, 11);
+    fields([
+      ['Description', item.description],
+      ['Collected', `${formatDate(item.date_collected)}${item.collected_by ? ` by ${item.collected_by}` : ''}`],
+      ['Location found', item.location_found || '-'],
+      ['Storage location', item.storage_location || '-'],
+      ['Status', humanize(item.status)],
+    ]);
+    if (item.custody.length > 0) {
+      table(
+        ['Transferred', 'Released by', 'Received by', 'Location', 'Purpose', 'Signature'],
+        item.custody.map((event) => [
+          formatDateTime(event.transferred_at),
+          event.released_by,
+          event.received_by,
+          event.location,
+          event.purpose,
+          event.signature,
+        ])
+      );
+    } else {
+      paragraph('No custody transfers recorded.');
+    }
+    if (item.chain_of_custody) paragraph(`Legacy custody notes: ${item.chain_of_custody}`);
+  });
+
+  // People
+  heading(`People Involved (${involvements.length})`, 13);
+  if (involvements.length > 0) {
+    table(
+      ['Name', 'Role', 'Status', 'Age', 'Gender', 'Phone', 'Address'],
+      involvements.map((involvement) => [
+        involvement.suspects.name,
+        humanize(involvement.role),
+        humanize(involvement.status),
+        involvement.suspects.age?.toString() || '-',
+        involvement.suspects.gender || '-',
+        involvement.suspects.phone || '-',
+        involvement.suspects.address || '-',
+      ])
+    );
+  } else {
+    paragraph('No people linked to this case.');
+  }
+
+  // Lab findings
+  heading(`Lab Reports (${labReports.length})`, 13);
+  if (labReports.length === 0) paragraph('No lab reports filed for this case.');
+  labReports.forEach((report) => {
+    heading(`${report.report_number} - ${report.analysis_type}`, 11);
+    fields([
+      ['Evidence', report.evidence.evidence_number],
+      ['Laboratory', `${report.lab_name || '-'} · ${report.lab_tech_name}`],
+      ['Submitted', formatDate(report.date_submitted)],
+      ['Completed', formatDate(report.date_completed)],
+      ['Status', humanize(report.status)],
+    ]);
+    paragraph(`Findings: ${report.analysis_result}`);
+    if (report.notes) paragraph(`Notes: ${report.notes}`);
+  });
+
+  // Footer on every page once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  const stamp = `Generated ${format(generatedAt, 'MMM d, yyyy HH:mm:ss')} by ${generatedBy}`;
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(200).line(MARGIN, pageHeight - 10, pageWidth - MARGIN, pageHeight - 10);
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(120);
+    doc.text(`${caseRecord.case_number} · ${stamp}`, MARGIN, pageHeight - 6);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 6, { align: 'right' });
+  }
+
+  return doc;
+}
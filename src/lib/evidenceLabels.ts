@@ -0,0 +1,89 @@
+export type LabelSymbology = 'qr' | 'code128';
+
+export type LabelLayout = 'single' | 'sheet';
+
+/** What gets printed on an evidence tag. */
+export interface EvidenceLabel {
+  id: string;
+  evidence_number: string;
+  case_number: string | null;
+  type: string;
+  date_collected: string;
+  collected_by: string | null;
+}
+
+export interface EvidenceScan {
+  id: string | null;
+  evidenceNumber: string | null;
+}
+
+export const labelSymbologyOptions: { value: LabelSymbology; label: string }[] = [
+  { value: 'qr', label: 'QR code' },
+  { value: 'code128', label: 'Code 128 barcode' },
+];
+
+export const labelLayoutOptions: { value: LabelLayout; label: string }[] = [
+  { value: 'single', label: 'Label printer (one 4 × 2 in label per page)' },
+  { value: 'sheet', label: 'Letter sheet (10 labels, Avery 5163)' },
+];
+
+// Avery 5163: 2 columns of five 4 × 2 in labels on US letter, measured in inches
+export const LABEL_WIDTH = 4;
+export const LABEL_HEIGHT = 2;
+const SHEET_COLUMNS = 2;
+const SHEET_ROWS = 5;
+const SHEET_TOP = 0.5;
+const SHEET_LEFT = 0.15625;
+const SHEET_COLUMN_GAP = 0.1875;
+export const LABELS_PER_SHEET = SHEET_COLUMNS * SHEET_ROWS;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** QR content: a link to the record, so a phone camera can open it as well as the in-app scanner. */
+export const evidenceQrPayload = (origin: string, label: Pick<EvidenceLabel, 'id' | 'evidence_number'>) =>
+  `${origin}/evidence?record=${label.id}&n=${encodeURIComponent(label.evidence_number)}`;
+
+/** Code 128 content: the number and id, which a keyboard-wedge scanner types back verbatim. */
+export const evidenceBarcodePayload = (label: Pick<EvidenceLabel, 'id' | 'evidence_number'>) =>
+  `${label.evidence_number}|${label.id}`;
+
+/**
+ * Reads what a scanner returned: a label's QR link, a Code 128 "number|id" pair, a bare record id
+ * or a typed evidence number. Returns null for blank input and links that aren't evidence labels.
+ */
+export function parseEvidenceScan(text: string): EvidenceScan | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      const url = new URL(value);
+      const id = url.searchParams.get('record');
+      return id && UUID_PATTERN.test(id) ? { id, evidenceNumber: url.searchParams.get('n') } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  const separator = value.lastIndexOf('|');
+  if (separator >= 0) {
+    const id = value.slice(separator + 1).trim();
+    const evidenceNumber = value.slice(0, separator).trim() || null;
+    if (!UUID_PATTERN.test(id)) return evidenceNumber ? { id: null, evidenceNumber } : null;
+    return { id, evidenceNumber };
+  }
+
+  return UUID_PATTERN.test(value) ? { id: value, evidenceNumber: null } : { id: null, evidenceNumber: value };
+}
+
+/** Top-left corner, in inches, of the nth label on a letter sheet, and which page it falls on. */
+export function sheetLabelPosition(index: number) {
+  const slot = index % LABELS_PER_SHEET;
+  return {
+    page: Math.floor(index / LABELS_PER_SHEET),
+    x: SHEET_LEFT + (slot % SHEET_COLUMNS) * (LABEL_WIDTH + SHEET_COLUMN_GAP),
+    y: SHEET_TOP + Math.floor(slot / SHEET_COLUMNS) * LABEL_HEIGHT,
+  };
+}
+
+export const labelsFileName = (name: string) => `labels-${name.replace(/[^\w-]+/g, '_')}.pdf`;
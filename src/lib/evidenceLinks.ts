@@ -0,0 +1,26 @@
+export const evidenceLinkTypeOptions = [
+  { value: 'owned_by', label: 'Owned by' },
+  { value: 'found_on', label: 'Found on' },
+  { value: 'matched_by_lab', label: 'Matched by lab report' },
+];
+
+export const evidenceLinkConfidenceOptions = [
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const confidenceRank = Object.fromEntries(evidenceLinkConfidenceOptions.map((option, i) => [option.value, i]));
+
+export const evidenceLinkTypeLabel = (linkType: string) =>
+  evidenceLinkTypeOptions.find((option) => option.value === linkType)?.label ?? linkType.replace(/_/g, ' ');
+
+/** Strongest links first; equally confident links newest first. */
+export function sortEvidenceLinks<T extends { confidence: string; created_at: string }>(links: T[]): T[] {
+  return [...links].sort(
+    (a, b) =>
+      (confidenceRank[a.confidence] ?? Infinity) - (confidenceRank[b.confidence] ?? Infinity) ||
+      b.created_at.localeCompare(a.created_at)
+  );
+}
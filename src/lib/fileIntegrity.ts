@@ -0,0 +1,26 @@
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Object keys are `<evidence id>/<random id>-<name>` so re-uploading the same file never overwrites
+export function attachmentPath(evidenceId: string, fileName: string, uniqueId: string = crypto.randomUUID()) {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'file';
+  return `${evidenceId}/${uniqueId}-${safeName}`;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+export const isImageType = (mimeType: string | null) => !!mimeType && mimeType.startsWith('image/');
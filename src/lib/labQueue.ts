@@ -0,0 +1,29 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+// Reports still in the lab after this many days are flagged in the queue
+export const LAB_TURNAROUND_TARGET_DAYS = 14;
+
+// Average turnaround is measured over reports finished in this window
+export const LAB_TURNAROUND_WINDOW_DAYS = 90;
+
+export const openLabStatuses = ['pending', 'in_progress'] as const;
+
+export const isOpenLabStatus = (status: string) => (openLabStatuses as readonly string[]).includes(status);
+
+/** Days from submission to completion, or to today while the report is still open. */
+export function turnaroundDays(dateSubmitted: string, dateCompleted: string | null, today: Date = new Date()) {
+  const end = dateCompleted ? parseISO(dateCompleted) : today;
+  return Math.max(0, differenceInCalendarDays(end, parseISO(dateSubmitted)));
+}
+
+export function averageTurnaround(reports: { date_submitted: string; date_completed: string | null }[]) {
+  const finished = reports.filter((r) => r.date_completed);
+  if (finished.length === 0) return null;
+  const total = finished.reduce((sum, r) => sum + turnaroundDays(r.date_submitted, r.date_completed), 0);
+  return total / finished.length;
+}
+
+export const formatDays = (days: number) => {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+};
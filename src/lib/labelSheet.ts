@@ -0,0 +1,101 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+import { format, parseISO } from 'date-fns';
+import {
+  EvidenceLabel,
+  LABEL_HEIGHT,
+  LABEL_WIDTH,
+  LABELS_PER_SHEET,
+  LabelLayout,
+  LabelSymbology,
+  evidenceBarcodePayload,
+  evidenceQrPayload,
+  sheetLabelPosition,
+} from '@/lib/evidenceLabels';
+
+interface LabelOptions {
+  symbology: LabelSymbology;
+  layout: LabelLayout;
+  /** Base URL the QR links point at */
+  origin: string;
+}
+
+// Measurements in inches
+const PADDING = 0.12;
+const BARCODE_HEIGHT = 0.6;
+const LINE_HEIGHT = 0.17;
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+async function symbolImage(label: EvidenceLabel, { symbology, origin }: LabelOptions): Promise<string> {
+  if (symbology === 'qr') {
+    return QRCode.toDataURL(evidenceQrPayload(origin, label), { margin: 0, width: 480, errorCorrectionLevel: 'M' });
+  }
+  const canvas = document.createElement('canvas');
+  JsBarcode(canvas, evidenceBarcodePayload(label), { format: 'CODE128', displayValue: false, margin: 0, width: 2, height: 100 });
+  return canvas.toDataURL('image/png');
+}
+
+function drawLabel(doc: jsPDF, label: EvidenceLabel, image: string, symbology: LabelSymbology, x: number, y: number) {
+  let textX = x + PADDING;
+  let textWidth = LABEL_WIDTH - PADDING * 2;
+
+  if (symbology === 'qr') {
+    const size = LABEL_HEIGHT - PADDING * 2;
+    doc.addImage(image, 'PNG', x + PADDING, y + PADDING, size, size);
+    textX += size + PADDING;
+    textWidth -= size + PADDING;
+  } else {
+    doc.addImage(image, 'PNG', x + PADDING, y + LABEL_HEIGHT - PADDING - BARCODE_HEIGHT, LABEL_WIDTH - PADDING * 2, BARCODE_HEIGHT);
+  }
+
+  let lineY = y + PADDING + 0.2;
+  doc.setFont('helvetica', 'bold').setFontSize(13).setTextColor(0);
+  (doc.splitTextToSize(label.evidence_number, textWidth) as string[]).slice(0, 2).forEach((line) => {
+    doc.text(line, textX, lineY);
+    lineY += 0.22;
+  });
+
+  doc.setFontSize(9);
+  const details: [string, string][] = [
+    ['Case', label.case_number ?? '-'],
+    ['Type', humanize(label.type)],
+    ['Collected', format(parseISO(label.date_collected), 'MMM d, yyyy')],
+    ['By', label.collected_by || '-'],
+  ];
+  details.forEach(([name, value]) => {
+    doc.setFont('helvetica', 'bold').text(`${name}:`, textX, lineY);
+    const offset = doc.getTextWidth(`${name}: `);
+    doc.setFont('helvetica', 'normal').text(doc.splitTextToSize(value, textWidth - offset)[0] ?? '', textX + offset, lineY);
+    lineY += LINE_HEIGHT;
+  });
+
+  if (symbology === 'qr') {
+    doc.setFontSize(5).setTextColor(100).text(label.id, textX, y + LABEL_HEIGHT - PADDING);
+  }
+}
+
+/**
+ * Renders evidence tags to a PDF: one label per page for a label printer, or ten to a letter
+ * sheet. Each carries a scannable QR code or Code 128 barcode plus the item's key details.
+ */
+export async function buildEvidenceLabels(labels: EvidenceLabel[], options: LabelOptions) {
+  const images = await Promise.all(labels.map((label) => symbolImage(label, options)));
+  const doc = options.layout === 'single'
+    ? new jsPDF({ unit: 'in', format: [LABEL_WIDTH, LABEL_HEIGHT], orientation: 'landscape' })
+    : new jsPDF({ unit: 'in', format: 'letter' });
+
+  labels.forEach((label, index) => {
+    if (options.layout === 'single') {
+      if (index > 0) doc.addPage([LABEL_WIDTH, LABEL_HEIGHT], 'landscape');
+      drawLabel(doc, label, images[index], options.symbology, 0, 0);
+      return;
+    }
+    const { x, y } = sheetLabelPosition(index);
+    if (index > 0 && index % LABELS_PER_SHEET === 0) doc.addPage('letter', 'portrait');
+    drawLabel(doc, label, images[index], options.symbology, x, y);
+  });
+
+  return doc;
+}
@@ -0,0 +1,122 @@
+import { SearchEntity } from '@/lib/search';
+
+export type GraphNodeType = SearchEntity;
+
+export interface GraphNode {
+  key: string;
+  type: GraphNodeType;
+  id: string;
+  label: string;
+  detail: string | null;
+  /** Whether this node's neighbors have been loaded */
+  expanded: boolean;
+}
+
+export interface GraphEdge {
+  key: string;
+  source: string;
+  target: string;
+  relation: string;
+}
+
+export interface LinkGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphNeighbor {
+  neighbor_type: string;
+  neighbor_id: string;
+  label: string;
+  detail: string | null;
+  relation: string;
+}
+
+export const graphNodeTypeOptions: { value: GraphNodeType; label: string }[] = [
+  { value: 'cases', label: 'Cases' },
+  { value: 'suspects', label: 'People' },
+  { value: 'evidence', label: 'Evidence' },
+  { value: 'officers', label: 'Officers' },
+  { value: 'lab_reports', label: 'Lab Reports' },
+];
+
+export const emptyGraph: LinkGraph = { nodes: [], edges: [] };
+
+export const nodeKey = (type: string, id: string) => `${type}:${id}`;
+
+// Edges are undirected, so both directions share one key
+const edgeKey = (a: string, b: string, relation: string) => [a, b].sort().join('|') + `|${relation}`;
+
+/** A graph holding only the seed record, ready to be expanded. */
+export function seedGraph(node: Omit<GraphNode, 'key' | 'expanded'>): LinkGraph {
+  return { nodes: [{ ...node, key: nodeKey(node.type, node.id), expanded: false }], edges: [] };
+}
+
+/** Adds a node's neighbors and the edges to them, skipping anything already on the graph. */
+export function mergeNeighbors(graph: LinkGraph, originKey: string, neighbors: GraphNeighbor[]): LinkGraph {
+  const nodes = graph.nodes.map((node) => (node.key === originKey ? { ...node, expanded: true } : node));
+  const edges = [...graph.edges];
+  const nodeKeys = new Set(nodes.map((node) => node.key));
+  const edgeKeys = new Set(edges.map((edge) => edge.key));
+
+  for (const neighbor of neighbors) {
+    const key = nodeKey(neighbor.neighbor_type, neighbor.neighbor_id);
+    if (!nodeKeys.has(key)) {
+      nodeKeys.add(key);
+      nodes.push({
+        key,
+        type: neighbor.neighbor_type as GraphNodeType,
+        id: neighbor.neighbor_id,
+        label: neighbor.label,
+        detail: neighbor.detail,
+        expanded: false,
+      });
+    }
+    const edge = edgeKey(originKey, key, neighbor.relation);
+    if (!edgeKeys.has(edge)) {
+      edgeKeys.add(edge);
+      edges.push({ key: edge, source: originKey, target: key, relation: neighbor.relation });
+    }
+  }
+  return { nodes, edges };
+}
+
+/** The graph restricted to the given node types. */
+export function filterGraph(graph: LinkGraph, types: Set<GraphNodeType>): LinkGraph {
+  const nodes = graph.nodes.filter((node) => types.has(node.type));
+  const keys = new Set(nodes.map((node) => node.key));
+  return { nodes, edges: graph.edges.filter((edge) => keys.has(edge.source) && keys.has(edge.target)) };
+}
+
+/**
+ * People and evidence that tie two or more cases together: cases reachable within two hops
+ * without passing through another case. A person in case A whose fingerprint is on an item
+ * from case B bridges A and B, and so does the item.
+ */
+export function findBridges(graph: LinkGraph): Map<string, string[]> {
+  const types = new Map(graph.nodes.map((node) => [node.key, node.type]));
+  const adjacent = new Map<string, Set<string>>();
+  for (const edge of graph.edges) {
+    if (!adjacent.has(edge.source)) adjacent.set(edge.source, new Set());
+    if (!adjacent.has(edge.target)) adjacent.set(edge.target, new Set());
+    adjacent.get(edge.source).add(edge.target);
+    adjacent.get(edge.target).add(edge.source);
+  }
+
+  const bridges = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    if (node.type !== 'suspects' && node.type !== 'evidence') continue;
+    const cases = new Set<string>();
+    for (const neighbor of adjacent.get(node.key) ?? []) {
+      if (types.get(neighbor) === 'cases') {
+        cases.add(neighbor);
+        continue;
+      }
+      for (const next of adjacent.get(neighbor) ?? []) {
+        if (types.get(next) === 'cases') cases.add(next);
+      }
+    }
+    if (cases.size >= 2) bridges.set(node.key, [...cases].sort());
+  }
+  return bridges;
+}
@@ -0,0 +1,32 @@
+export interface PersonMatchCandidate {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+// Compare phone numbers by digits only, so "(555) 010-2030" and "555-010-2030" are the same line
+export const normalizePhone = (phone: string | null | undefined) => (phone ?? '').replace(/\D/g, '');
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Existing people whose name and phone both match; without a phone there is nothing to match on. */
+export function findDuplicatePeople<T extends PersonMatchCandidate>(candidates: T[], name: string, phone: string): T[] {
+  const digits = normalizePhone(phone);
+  if (!digits) return [];
+  const wanted = normalizeName(name);
+  return candidates.filter((c) => normalizeName(c.name) === wanted && normalizePhone(c.phone) === digits);
+}
+
+export const involvementRoleOptions = [
+  { value: 'suspect', label: 'Suspect' },
+  { value: 'person_of_interest', label: 'Person of Interest' },
+  { value: 'witness', label: 'Witness' },
+  { value: 'associate', label: 'Associate' },
+];
+
+export const involvementStatusOptions = [
+  { value: 'active', label: 'Active' },
+  { value: 'arrested', label: 'Arrested' },
+  { value: 'charged', label: 'Charged' },
+  { value: 'cleared', label: 'Cleared' },
+];
@@ -0,0 +1,83 @@
+export type AppRole = 'admin' | 'supervisor' | 'investigator' | 'lab_technician' | 'auditor';
+
+export type Resource = 'cases' | 'evidence' | 'suspects' | 'officers' | 'lab_reports' | 'custody' | 'attachments' | 'users' | 'audit' | 'imports' | 'timeline' | 'evidence_links' | 'numbering';
+
+export type Action = 'view' | 'create' | 'update' | 'delete';
+
+export const roleLabels: Record<AppRole, string> = {
+  admin: 'Administrator',
+  supervisor: 'Supervisor',
+  investigator: 'Investigator',
+  lab_technician: 'Lab Technician',
+  auditor: 'Auditor (Read-only)',
+};
+
+type Grant = 'all' | 'own';
+
+// Mirrors the RLS policies in supabase/migrations. 'own' means the row's user_id must match.
+const grants: Record<AppRole, Partial<Record<Resource, Partial<Record<Action, Grant>>>>> = {
+  admin: {
+    cases: { create: 'all', update: 'all', delete: 'all' },
+    evidence: { create: 'all', update: 'all', delete: 'all' },
+    suspects: { create: 'all', update: 'all', delete: 'all' },
+    officers: { create: 'all', update: 'all', delete: 'all' },
+    lab_reports: { create: 'all', update: 'all', delete: 'all' },
+    custody: { create: 'all' },
+    attachments: { create: 'all', delete: 'all' },
+    users: { update: 'all' },
+    numbering: { update: 'all' },
+    audit: { view: 'all' },
+    imports: { create: 'all' },
+    timeline: { create: 'all', update: 'all', delete: 'all' },
+    evidence_links: { create: 'all', update: 'all', delete: 'all' },
+  },
+  supervisor: {
+    cases: { create: 'all', update: 'all', delete: 'all' },
+    evidence: { create: 'all', update: 'all', delete: 'all' },
+    suspects: { create: 'all', update: 'all', delete: 'all' },
+    officers: { create: 'all', update: 'all', delete: 'all' },
+    lab_reports: { create: 'all', update: 'all', delete: 'all' },
+    custody: { create: 'all' },
+    attachments: { create: 'all', delete: 'all' },
+    audit: { view: 'all' },
+    imports: { create: 'all' },
+    timeline: { create: 'all', update: 'all', delete: 'all' },
+    evidence_links: { create: 'all', update: 'all', delete: 'all' },
+  },
+  investigator: {
+    cases: { create: 'all', update: 'own', delete: 'own' },
+    evidence: { create: 'all', update: 'own', delete: 'own' },
+    suspects: { create: 'all', update: 'own', delete: 'own' },
+    custody: { create: 'all' },
+    attachments: { create: 'all', delete: 'own' },
+    timeline: { create: 'all', update: 'own', delete: 'own' },
+    evidence_links: { create: 'all', update: 'own', delete: 'own' },
+  },
+  lab_technician: {
+    lab_reports: { create: 'all', update: 'all', delete: 'own' },
+    custody: { create: 'all' },
+    attachments: { create: 'all' },
+    evidence_links: { create: 'all', update: 'own', delete: 'own' },
+  },
+  auditor: {
+    audit: { view: 'all' },
+  },
+};
+
+export function isAppRole(value: string | null | undefined): value is AppRole {
+  return !!value && Object.prototype.hasOwnProperty.call(roleLabels, value);
+}
+
+export function can(
+  role: AppRole | null,
+  action: Action,
+  resource: Resource,
+  ownership?: { ownerId?: string | null; userId?: string | null },
+): boolean {
+  if (!role) return false;
+  const grant = grants[role][resource]?.[action];
+  if (!grant) return false;
+  if (grant === 'all') return true;
+  if (!ownership) return true;
+  return !!ownership.userId && ownership.ownerId === ownership.userId;
+}
@@ -0,0 +1,58 @@
+export type CustodyQuickAction = 'check_out' | 'check_in';
+
+export interface QuickTransfer {
+  released_by: string;
+  received_by: string;
+  location: string;
+  purpose: string;
+  signature: string;
+}
+
+export interface ScannedItem {
+  id: string;
+  evidence_number: string;
+  scannedAt: string;
+}
+
+export const PROPERTY_ROOM = 'Property Room';
+const MAX_SCAN_HISTORY = 10;
+
+export const custodyQuickActions: { value: CustodyQuickAction; label: string; purpose: string }[] = [
+  { value: 'check_out', label: 'Check Out', purpose: 'Checked out of the property room' },
+  { value: 'check_in', label: 'Check In', purpose: 'Returned to the property room' },
+];
+
+/**
+ * The custody transfer for a property-room desk action. Checking out, the clerk at the scanner releases the
+ * item to the named recipient, who signs for it. Checking in, whoever held it last releases it to the clerk,
+ * who signs and it lands at its storage location. Returns null until a check-out names its recipient.
+ */
+export function quickTransfer(
+  action: CustodyQuickAction,
+  { lastHolder, currentUser, storageLocation, recipient = '' }: {
+    lastHolder: string | null;
+    currentUser: string;
+    storageLocation: string | null;
+    recipient?: string;
+  },
+): QuickTransfer | null {
+  const preset = custodyQuickActions.find((a) => a.value === action);
+  const purpose = preset?.purpose ?? action;
+  if (action === 'check_out') {
+    const name = recipient.trim();
+    if (!name) return null;
+    return { released_by: currentUser, received_by: name, location: PROPERTY_ROOM, purpose, signature: name };
+  }
+  return {
+    released_by: lastHolder || PROPERTY_ROOM,
+    received_by: currentUser,
+    location: storageLocation || PROPERTY_ROOM,
+    purpose,
+    signature: currentUser,
+  };
+}
+
+/** Puts the item at the top of the session's scan list, dropping an earlier scan of it. */
+export function rememberScan(history: ScannedItem[], item: ScannedItem): ScannedItem[] {
+  return [item, ...history.filter((entry) => entry.id !== item.id)].slice(0, MAX_SCAN_HISTORY);
+}
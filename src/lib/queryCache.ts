@@ -0,0 +1,45 @@
+import { QueryClient, QueryKey } from '@tanstack/react-query';
+
+export interface Page<T> {
+  rows: T[];
+  count: number;
+}
+
+export type CacheSnapshot = [QueryKey, unknown][];
+
+// Optimistic helpers for paged list caches. Each returns a snapshot that restoreSnapshot can roll back to.
+
+export async function patchListRow<T extends { id: string }>(
+  queryClient: QueryClient,
+  listKey: QueryKey,
+  id: string,
+  patch: Partial<T>,
+): Promise<CacheSnapshot> {
+  await queryClient.cancelQueries({ queryKey: listKey });
+  const snapshot = queryClient.getQueriesData({ queryKey: listKey });
+  queryClient.setQueriesData<Page<T>>({ queryKey: listKey }, (old) =>
+    old && { ...old, rows: old.rows.map((row) => (row.id === id ? { ...row, ...patch } : row)) }
+  );
+  return snapshot;
+}
+
+export async function removeListRow<T extends { id: string }>(
+  queryClient: QueryClient,
+  listKey: QueryKey,
+  id: string,
+): Promise<CacheSnapshot> {
+  await queryClient.cancelQueries({ queryKey: listKey });
+  const snapshot = queryClient.getQueriesData({ queryKey: listKey });
+  queryClient.setQueriesData<Page<T>>({ queryKey: listKey }, (old) =>
+    old && { rows: old.rows.filter((row) => row.id !== id), count: Math.max(0, old.count - 1) }
+  );
+  return snapshot;
+}
+
+export function restoreSnapshot(queryClient: QueryClient, snapshot: CacheSnapshot | undefined) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+export function invalidateAll(queryClient: QueryClient, keys: QueryKey[]) {
+  return Promise.all(keys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+}
@@ -0,0 +1,86 @@
+import { DateRange } from '@/lib/analytics';
+import { AuditFilters } from '@/lib/audit';
+import { TableQueryState } from '@/lib/tableQuery';
+
+const entityKeys = <E extends string>(entity: E) => ({
+  all: [entity] as const,
+  lists: () => [entity, 'list'] as const,
+  list: (query: TableQueryState) => [entity, 'list', query] as const,
+  options: () => [entity, 'options'] as const,
+  search: (term: string) => [entity, 'search', term] as const,
+  details: () => [entity, 'detail'] as const,
+  detail: (id: string) => [entity, 'detail', id] as const,
+});
+
+export const caseKeys = {
+  ...entityKeys('cases'),
+  // Nested under details() so lab report and evidence writes refresh it too
+  pendingLabReports: (caseId: string) => ['cases', 'detail', caseId, 'pending_lab_reports'] as const,
+  dossier: (caseId: string) => ['cases', 'detail', caseId, 'dossier'] as const,
+  timeline: (caseId: string) => ['cases', 'detail', caseId, 'timeline'] as const,
+};
+export const evidenceKeys = {
+  ...entityKeys('evidence'),
+  custody: (evidenceId: string) => ['evidence', 'custody', evidenceId] as const,
+  attachments: (evidenceId: string) => ['evidence', 'attachments', evidenceId] as const,
+  attachmentFile: (attachmentId: string) => ['evidence', 'attachment_file', attachmentId] as const,
+};
+export const suspectKeys = {
+  ...entityKeys('suspects'),
+  involvements: (suspectId: string) => ['suspects', 'involvements', suspectId] as const,
+};
+export const evidenceLinkKeys = {
+  all: ['evidence_links'] as const,
+  bySuspect: (suspectId: string) => ['evidence_links', 'suspect', suspectId] as const,
+  byEvidence: (evidenceId: string) => ['evidence_links', 'evidence', evidenceId] as const,
+};
+export const officerKeys = entityKeys('officers');
+export const labReportKeys = {
+  ...entityKeys('lab_reports'),
+  queue: () => ['lab_reports', 'queue'] as const,
+  forEvidence: (evidenceId: string) => ['lab_reports', 'evidence', evidenceId] as const,
+};
+export const profileKeys = {
+  all: ['profiles'] as const,
+  names: () => ['profiles', 'names'] as const,
+  list: () => ['profiles', 'list'] as const,
+};
+export const auditKeys = {
+  all: ['audit_log'] as const,
+  list: (filters: AuditFilters) => ['audit_log', 'list', filters] as const,
+};
+export const searchKeys = {
+  all: ['search'] as const,
+  global: (term: string) => ['search', 'global', term] as const,
+};
+export const graphKeys = {
+  neighbors: (type: string, id: string) => ['graph', 'neighbors', type, id] as const,
+};
+export const recordNumberKeys = {
+  all: ['record_numbers'] as const,
+  settings: () => ['record_numbers', 'settings'] as const,
+  next: (entity: string, scope: { caseId?: string; date?: string }) => ['record_numbers', 'next', entity, scope] as const,
+};
+export const importKeys = {
+  lookups: () => ['imports', 'lookups'] as const,
+};
+export const dashboardKeys = {
+  all: ['dashboard'] as const,
+  stats: () => ['dashboard', 'stats'] as const,
+  activity: (filters: { entity: string; onlyMyCases: boolean }) => ['dashboard', 'activity', filters] as const,
+  analytics: (range: DateRange) => ['dashboard', 'analytics', range] as const,
+};
+
+// Every cache that embeds a table's rows, so one write (local or realtime) keeps all views consistent
+export const affectedKeys = {
+  cases: [caseKeys.all, officerKeys.all, recordNumberKeys.all, dashboardKeys.all],
+  evidence: [evidenceKeys.all, caseKeys.details(), labReportKeys.all, evidenceLinkKeys.all, recordNumberKeys.all, dashboardKeys.all],
+  suspects: [suspectKeys.all, caseKeys.details(), evidenceLinkKeys.all, dashboardKeys.all],
+  case_involvements: [suspectKeys.all, caseKeys.details()],
+  case_timeline_entries: [caseKeys.details()],
+  evidence_links: [evidenceLinkKeys.all],
+  officers: [officerKeys.all, caseKeys.all],
+  // Lab report triggers move the analyzed evidence in and out of the lab
+  lab_reports: [labReportKeys.all, evidenceKeys.all, caseKeys.details(), evidenceLinkKeys.all, recordNumberKeys.all, dashboardKeys.all],
+  record_number_settings: [recordNumberKeys.all],
+};
@@ -0,0 +1,38 @@
+export const realtimeTables = ['cases', 'evidence', 'suspects', 'case_involvements', 'case_timeline_entries', 'evidence_links', 'lab_reports'] as const;
+
+export type RealtimeTable = (typeof realtimeTables)[number];
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RowChange {
+  event: Exclude<RealtimeEvent, 'DELETE'>;
+  actor: string;
+}
+
+interface ChangePayload {
+  eventType: RealtimeEvent;
+  new: Record<string, unknown>;
+}
+
+/**
+ * Turns a realtime payload into a row highlight. Deletes and the current
+ * user's own writes are not highlighted: the row is gone, or the user
+ * already got a toast for it.
+ */
+export function toRowChange(
+  payload: ChangePayload,
+  currentUserId: string | undefined,
+  actorNames: Map<string, string> | undefined,
+): { id: string; change: RowChange } | null {
+  if (payload.eventType === 'DELETE') return null;
+  const id = payload.new.id as string | undefined;
+  const actorId = payload.new.updated_by as string | null | undefined;
+  if (!id || (actorId && actorId === currentUserId)) return null;
+  return {
+    id,
+    change: {
+      event: payload.eventType,
+      actor: (actorId && actorNames?.get(actorId)) || 'Another user',
+    },
+  };
+}
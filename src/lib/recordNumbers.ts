@@ -0,0 +1,32 @@
+export type NumberedEntity = 'cases' | 'evidence' | 'lab_reports';
+
+export interface RecordNumberSetting {
+  entity: NumberedEntity;
+  prefix: string;
+  updated_at: string;
+}
+
+export const numberedEntityLabels: Record<NumberedEntity, string> = {
+  cases: 'Case numbers',
+  evidence: 'Evidence numbers',
+  lab_reports: 'Lab report numbers',
+};
+
+// Matches the CHECK constraint on record_number_settings.prefix
+export const PREFIX_PATTERN = /^[A-Z0-9]{1,12}$/;
+
+/** Uppercases a typed prefix and drops characters the database would reject. */
+export const normalizePrefix = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12);
+
+/**
+ * Example numbers in the format the database assigns (see assign_record_number): per-year
+ * sequences for cases and lab reports, and evidence numbered within its case.
+ */
+export function exampleRecordNumbers(prefixes: Record<NumberedEntity, string>, year: number): Record<NumberedEntity, string> {
+  const caseNumber = `${prefixes.cases}-${year}-014`;
+  return {
+    cases: caseNumber,
+    evidence: `${caseNumber}-${prefixes.evidence}03`,
+    lab_reports: `${prefixes.lab_reports}-${year}-007`,
+  };
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// Shared by the entity forms and the CSV import wizard, so imported rows meet the same rules as typed ones.
+// Record numbers are optional: left blank, the database assigns the next one in sequence.
+export const caseSchema = z.object({
+  case_number: z.string().optional(),
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  date_opened: z.string().min(1, 'Date opened is required'),
+  status: z.enum(['open', 'closed', 'pending', 'under_investigation']),
+  location: z.string().optional(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  lead_officer_id: z.string().optional(),
+  closure_reason: z.string().optional(),
+}).refine((data) => data.status !== 'closed' || !!data.closure_reason?.trim(), {
+  message: 'A closure reason is required to close a case',
+  path: ['closure_reason'],
+});
+
+export type CaseFormData = z.infer<typeof caseSchema>;
+
+export const evidenceSchema = z.object({
+  evidence_number: z.string().optional(),
+  case_id: z.string().min(1, 'Case is required'),
+  description: z.string().min(1, 'Description is required'),
+  type: z.enum(['physical', 'digital', 'documentary', 'testimonial', 'biological', 'trace']),
+  location_found: z.string().optional(),
+  date_collected: z.string().min(1, 'Date collected is required'),
+  collected_by: z.string().optional(),
+  storage_location: z.string().optional(),
+  status: z.enum(['in_storage', 'in_lab', 'released', 'disposed']),
+});
+
+export type EvidenceFormData = z.infer<typeof evidenceSchema>;
+
+export const personSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  age: z.number().min(0).max(150).optional().nullable(),
+  gender: z.string().optional(),
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  description: z.string().optional(),
+  case_id: z.string().optional(),
+  role: z.enum(['suspect', 'person_of_interest', 'witness', 'associate']),
+});
+
+export const officerSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  rank: z.string().min(1, 'Rank is required'),
+  badge_number: z.string().optional(),
+  contact: z.string().optional(),
+});
+
+export type OfficerFormData = z.infer<typeof officerSchema>;
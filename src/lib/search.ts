@@ -0,0 +1,105 @@
+export type SearchEntity = 'cases' | 'evidence' | 'suspects' | 'officers' | 'lab_reports';
+
+export interface SearchResult {
+  entity_type: string;
+  id: string;
+  title: string;
+  subtitle: string;
+  rank: number;
+}
+
+export const searchEntityLabels: Record<SearchEntity, string> = {
+  cases: 'Cases',
+  evidence: 'Evidence',
+  suspects: 'People',
+  officers: 'Officers',
+  lab_reports: 'Lab Reports',
+};
+
+const listPaths: Record<Exclude<SearchEntity, 'cases'>, string> = {
+  evidence: '/evidence',
+  suspects: '/suspects',
+  officers: '/officers',
+  lab_reports: '/lab-reports',
+};
+
+/** Where a record opens: its case page, or its list page with ?record=<id> opening that one record. */
+export function recordLink(entity: string, id: string) {
+  if (entity === 'cases') return `/cases/${id}`;
+  const path = listPaths[entity as keyof typeof listPaths];
+  return path ? `${path}?record=${id}` : '/dashboard';
+}
+
+/** Results grouped by entity in a fixed order, best match first within each group. */
+export function groupSearchResults(results: SearchResult[]) {
+  return (Object.keys(searchEntityLabels) as SearchEntity[])
+    .map((entity) => ({
+      entity,
+      label: searchEntityLabels[entity],
+      results: results.filter((r) => r.entity_type === entity).sort((a, b) => b.rank - a.rank),
+    }))
+    .filter((group) => group.results.length > 0);
+}
+
+// Same word splitting as prefix_tsquery, so highlights line up with what the server matched
+const searchWords = (term: string) =>
+  term.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, ' ').split(/\s+/).filter(Boolean);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Splits text into plain and matched segments, matching each search word as a word prefix. */
+export function highlightMatches(text: string, term: string): { text: string; match: boolean }[] {
+  const words = searchWords(term);
+  if (!text || words.length === 0) return [{ text, match: false }];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${words.map(escapeRegExp).join('|')})`, 'giu');
+
+  const segments: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/** Entities with narrative fields indexed for the search_records RPC. */
+export type NarrativeEntity = Exclude<SearchEntity, 'officers'>;
+
+export interface SearchHit {
+  id: string;
+  rank: number;
+  snippet: string;
+}
+
+export type RankedRow<T> = T & { search_rank: number; search_snippet: string };
+
+/** Rows in hit order with their rank and snippet; hits whose row could not be loaded are dropped. */
+export function rankRows<T extends { id: string }>(hits: SearchHit[], rows: T[]): RankedRow<T>[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return hits
+    .filter((hit) => byId.has(hit.id))
+    .map((hit) => ({ ...byId.get(hit.id), search_rank: hit.rank, search_snippet: hit.snippet }));
+}
+
+// search_records marks matches with these control characters instead of HTML
+const SNIPPET_START = '\u0001';
+const SNIPPET_STOP = '\u0002';
+
+/** Splits a search_records snippet into plain and matched segments. */
+export function parseSnippet(snippet: string): { text: string; match: boolean }[] {
+  const segments: { text: string; match: boolean }[] = [];
+  for (const part of (snippet ?? '').split(SNIPPET_START)) {
+    const stop = part.indexOf(SNIPPET_STOP);
+    if (stop === -1) {
+      if (part) segments.push({ text: part, match: false });
+      continue;
+    }
+    if (stop > 0) segments.push({ text: part.slice(0, stop), match: true });
+    const rest = part.slice(stop + 1).split(SNIPPET_STOP).join('');
+    if (rest) segments.push({ text: rest, match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,88 @@
+import { ReactNode, isValidElement } from 'react';
+import { format } from 'date-fns';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  key: keyof T | string;
+  header: string;
+  render?: (item: T) => ReactNode;
+  exportValue?: (item: T) => string | number | null;
+}
+
+type Cell = string | number;
+
+/** Plain text of a rendered cell, so exports match what the table shows (badges, joined fields, etc.). */
+export function nodeToText(node: ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) {
+    // Inline text fragments run together; separate elements such as a list of badges get commas
+    const parts = node.map(nodeToText);
+    const inline = node.every((child) => typeof child === 'string' || typeof child === 'number');
+    return inline ? parts.join('') : parts.filter(Boolean).join(', ');
+  }
+  if (isValidElement<{ children?: ReactNode }>(node)) return nodeToText(node.props.children);
+  return '';
+}
+
+/**
+ * Spreadsheets run text starting with =, +, -, @, tab or CR as a formula, so user-entered text like that
+ * gets a leading apostrophe. Plain numbers and a lone placeholder dash are left alone.
+ */
+export function neutralizeFormula(value: Cell): Cell {
+  if (typeof value === 'number' || !/^[=+\-@\t\r]/.test(value) || /^[-+]?(\d+(\.\d+)?)?$/.test(value)) return value;
+  return `'${value}`;
+}
+
+const cellValue = <T,>(column: ExportColumn<T>, item: T): Cell => {
+  if (column.exportValue) return column.exportValue(item) ?? '';
+  if (column.render) return nodeToText(column.render(item)).replace(/\s+/g, ' ').trim();
+  const raw = (item as Record<string, unknown>)[column.key as string];
+  return typeof raw === 'number' ? raw : raw === null || raw === undefined ? '' : String(raw);
+};
+
+/** Header row followed by one row per record, in the table's column order. */
+export function toExportRows<T>(columns: ExportColumn<T>[], items: T[]): Cell[][] {
+  return [columns.map((col) => col.header), ...items.map((item) => columns.map((col) => cellValue(col, item)))];
+}
+
+const escapeCsv = (value: Cell) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Only CSV needs neutralizing: SheetJS writes strings as text cells, never as formulas
+export const toCsv = (rows: Cell[][]) =>
+  rows.map((row) => row.map((value) => escapeCsv(neutralizeFormula(value))).join(',')).join('\r\n');
+
+export const exportFileName = (base: string, extension: ExportFormat, date: Date = new Date()) =>
+  `${base.toLowerCase().replace(/[^\w-]+/g, '-')}-${format(date, 'yyyyMMdd-HHmm')}.${extension}`;
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** A one-sheet workbook of the rows, cells written as they are. */
+export async function toWorkbook(rows: Cell[][], sheetName: string) {
+  // Only pulled in when someone actually exports a spreadsheet
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName.replace(/[[\]:*?/\\]/g, '').slice(0, 31));
+  return workbook;
+}
+
+export async function downloadRows(rows: Cell[][], fileName: string, exportFormat: ExportFormat, sheetName: string) {
+  if (exportFormat === 'csv') {
+    // BOM so Excel opens UTF-8 names and addresses correctly
+    downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+    return;
+  }
+  const XLSX = await import('xlsx');
+  XLSX.writeFile(await toWorkbook(rows, sheetName), fileName);
+}
@@ -0,0 +1,85 @@
+export interface SortState {
+  column: string;
+  ascending: boolean;
+}
+
+export interface TableQueryState {
+  page: number;
+  pageSize: number;
+  sort: SortState;
+  filters: Record<string, string>;
+  search: string;
+}
+
+export interface TableQueryConfig {
+  /** Columns matched with ILIKE against the free-text search box */
+  searchColumns: string[];
+  /** Filter keys compared for equality; every other filter key is matched with ILIKE */
+  exactFilters?: string[];
+}
+
+// The subset of the PostgREST filter builder used here. Builders are cast to it rather than
+// constrained by it, since checking the full generated builder type is too deep for tsc.
+interface FilterableQuery {
+  eq(column: string, value: string): FilterableQuery;
+  ilike(column: string, pattern: string): FilterableQuery;
+  or(filters: string): FilterableQuery;
+  order(column: string, options: { ascending: boolean }): FilterableQuery;
+  range(from: number, to: number): FilterableQuery;
+}
+
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// PostgREST's `or` syntax reserves commas, parentheses and its own `*` wildcard
+const sanitizeOrTerm = (value: string) => value.replace(/[,()*%\\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function applyTableQuery<Q>(
+  query: Q,
+  state: TableQueryState,
+  config: TableQueryConfig,
+): Q {
+  let result = query as unknown as FilterableQuery;
+
+  const term = sanitizeOrTerm(state.search);
+  if (term && config.searchColumns.length > 0) {
+    result = result.or(config.searchColumns.map((column) => `${column}.ilike.*${term}*`).join(','));
+  }
+
+  Object.entries(state.filters).forEach(([column, value]) => {
+    if (!value) return;
+    result = config.exactFilters?.includes(column)
+      ? result.eq(column, value)
+      : result.ilike(column, `%${escapeLikePattern(value)}%`);
+  });
+
+  const from = (state.page - 1) * state.pageSize;
+  return result
+    .order(state.sort.column, { ascending: state.sort.ascending })
+    .range(from, from + state.pageSize - 1) as unknown as Q;
+}
+
+// PostgREST caps rows per request, so exports walk the result set in batches of this size
+const EXPORT_BATCH_SIZE = 1000;
+
+/** Every row matching the current search, filters and sort, ignoring pagination. */
+export async function fetchAllRows<T>(
+  fetchPage: (state: TableQueryState) => Promise<{ rows: T[]; count: number }>,
+  state: TableQueryState,
+  batchSize = EXPORT_BATCH_SIZE,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let page = 1; ; page++) {
+    const batch = await fetchPage({ ...state, page, pageSize: batchSize });
+    rows.push(...batch.rows);
+    if (batch.rows.length < batchSize || rows.length >= batch.count) return rows;
+  }
+}
+
+/** Walks a whole result set in a stable order, for fetchAllRows when there is no table state to follow. */
+export const allRowsQuery = (column: string): TableQueryState => ({
+  page: 1,
+  pageSize: EXPORT_BATCH_SIZE,
+  sort: { column, ascending: true },
+  filters: {},
+  search: '',
+});
@@ -0,0 +1,64 @@
+import { format, parseISO } from 'date-fns';
+
+export type TimelineKind = 'case' | 'evidence' | 'custody' | 'people' | 'lab' | 'entry';
+
+export interface TimelineEvent {
+  event_id: string;
+  kind: string;
+  /** Calendar day of a date-only source, e.g. evidence date_collected */
+  event_date: string;
+  /** Exact moment, when the source records one */
+  event_time: string | null;
+  title: string;
+  detail: string | null;
+  tag: string | null;
+  record_id: string;
+  /** Author of a manual entry; null for events derived from other records */
+  owner_id: string | null;
+  actor_name: string | null;
+}
+
+export const timelineKindOptions: { value: TimelineKind; label: string }[] = [
+  { value: 'case', label: 'Case' },
+  { value: 'evidence', label: 'Evidence' },
+  { value: 'custody', label: 'Custody' },
+  { value: 'people', label: 'People' },
+  { value: 'lab', label: 'Lab' },
+  { value: 'entry', label: 'Entries' },
+];
+
+export const timelineEntryTypeOptions = [
+  { value: 'interview', label: 'Interview' },
+  { value: 'warrant', label: 'Warrant' },
+  { value: 'search', label: 'Search' },
+  { value: 'court', label: 'Court' },
+  { value: 'note', label: 'Note' },
+];
+
+/** Local calendar day of an event; date-only events keep their stored day in every time zone. */
+export const timelineDay = (event: Pick<TimelineEvent, 'event_date' | 'event_time'>) =>
+  event.event_time ? format(new Date(event.event_time), 'yyyy-MM-dd') : event.event_date;
+
+/**
+ * Events grouped by local day, oldest first. Within a day, date-only events lead,
+ * followed by timed events in order.
+ */
+export function groupTimelineByDay(events: TimelineEvent[]): { day: string; events: TimelineEvent[] }[] {
+  const sorted = events
+    .map((event) => ({
+      event,
+      day: timelineDay(event),
+      time: event.event_time ? new Date(event.event_time).getTime() : Number.MIN_SAFE_INTEGER,
+    }))
+    .sort((a, b) => a.day.localeCompare(b.day) || a.time - b.time);
+
+  const groups: { day: string; events: TimelineEvent[] }[] = [];
+  for (const { event, day } of sorted) {
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.events.push(event);
+    else groups.push({ day, events: [event] });
+  }
+  return groups;
+}
+
+export const formatTimelineDay = (day: string) => format(parseISO(day), 'EEEE, MMM d, yyyy');
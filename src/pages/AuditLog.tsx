@@ -0,0 +1,189 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowRight } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { DataTable } from '@/components/ui/DataTable';
+import { Modal } from '@/components/ui/Modal';
+import { InputField, SelectField } from '@/components/ui/FormField';
+import { Badge } from '@/components/ui/StatusBadge';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { AuditEntry, useAuditLog, useAuditLogExport } from '@/hooks/useAuditLog';
+import { useProfileNames } from '@/hooks/useProfiles';
+import { AuditAction, auditedTables, describeRecord, diffAuditRecords } from '@/lib/audit';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+const actionVariants: Record<AuditAction, 'success' | 'warning' | 'critical'> = {
+  INSERT: 'success',
+  UPDATE: 'warning',
+  DELETE: 'critical',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null || value === '') return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export default function AuditLog() {
+  const { can, loading: authLoading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [recordId, setRecordId] = useState(searchParams.get('record') ?? '');
+  const [tableName, setTableName] = useState(searchParams.get('table') ?? '');
+  const [actorId, setActorId] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+
+  const canViewAudit = can('view', 'audit');
+  const recordFilter = UUID_PATTERN.test(recordId.trim()) ? recordId.trim() : '';
+  const filters = useMemo(
+    () => ({ tableName, actorId, recordId: recordFilter, dateFrom, dateTo }),
+    [tableName, actorId, recordFilter, dateFrom, dateTo]
+  );
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useAuditLog(filters, canViewAudit);
+  const loadExportRows = useAuditLogExport(filters);
+  const { data: actorNames = new Map<string, string>() } = useProfileNames();
+  const entries = data?.pages.flatMap((page) => page.rows) ?? [];
+  const totalCount = data?.pages[data.pages.length - 1].count ?? 0;
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch audit log');
+  }, [isError]);
+
+  if (!authLoading && !canViewAudit) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const columns = [
+    {
+      key: 'occurred_at',
+      header: 'When',
+      render: (item: AuditEntry) => format(new Date(item.occurred_at), 'MMM d, yyyy HH:mm:ss'),
+    },
+    {
+      key: 'action',
+      header: 'Action',
+      render: (item: AuditEntry) => (
+        <Badge variant={actionVariants[item.action as AuditAction]}>{item.action.toLowerCase()}</Badge>
+      ),
+    },
+    {
+      key: 'table_name',
+      header: 'Record Type',
+      render: (item: AuditEntry) => auditedTables.find((t) => t.value === item.table_name)?.label ?? item.table_name,
+    },
+    {
+      key: 'record',
+      header: 'Record',
+      render: (item: AuditEntry) => describeRecord(item.new_data ?? item.old_data) || item.record_id.slice(0, 8),
+    },
+    {
+      key: 'actor_id',
+      header: 'User',
+      render: (item: AuditEntry) => (item.actor_id ? actorNames.get(item.actor_id) ?? item.actor_id.slice(0, 8) : 'System'),
+    },
+  ];
+
+  const changes = selectedEntry ? diffAuditRecords(selectedEntry.old_data, selectedEntry.new_data) : [];
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-2xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground">Immutable history of every change to investigative records</p>
+        </motion.div>
+
+        <div className="card-forensic p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <SelectField
+            label="Record Type"
+            value={tableName}
+            onChange={(e) => setTableName(e.target.value)}
+            options={auditedTables}
+          />
+          <SelectField
+            label="User"
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            options={[...actorNames].map(([value, label]) => ({ value, label }))}
+          />
+          <InputField
+            label="From"
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+          />
+          <InputField
+            label="To"
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+          />
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={entries}
+          searchValue={recordId}
+          onSearchChange={setRecordId}
+          searchPlaceholder="Filter by record ID..."
+          onView={(item) => setSelectedEntry(item)}
+          loading={isLoading}
+          emptyMessage="No audit entries match these filters."
+          exportName="Audit Log"
+          loadExportRows={loadExportRows}
+        />
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <button onClick={() => fetchNextPage()} disabled={isFetchingNextPage} className="btn-secondary">
+              {isFetchingNextPage ? 'Loading...' : `Load more (${entries.length} of ${totalCount})`}
+            </button>
+          </div>
+        )}
+
+        <Modal
+          isOpen={!!selectedEntry}
+          onClose={() => setSelectedEntry(null)}
+          title="Audit Entry"
+          size="xl"
+        >
+          {selectedEntry && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground">Record ID</p>
+                  <p className="text-foreground font-mono break-all">{selectedEntry.record_id}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Recorded</p>
+                  <p className="text-foreground">{format(new Date(selectedEntry.occurred_at), 'MMM d, yyyy HH:mm:ss')}</p>
+                </div>
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No field changes recorded.</p>
+              ) : (
+                <div className="space-y-2">
+                  {changes.map((change) => (
+                    <div key={change.field} className="p-3 border border-border rounded-md text-sm">
+                      <p className="text-xs font-medium text-muted-foreground mb-1">{change.field}</p>
+                      <div className="flex items-start gap-2 break-all">
+                        <span className="text-red-400 line-through">{formatValue(change.before)}</span>
+                        <ArrowRight className="w-3 h-3 mt-1 shrink-0 text-muted-foreground" />
+                        <span className="text-green-400">{formatValue(change.after)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </Modal>
+      </div>
+    </MainLayout>
+  );
+}
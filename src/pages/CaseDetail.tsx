@@ -0,0 +1,280 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Calendar, FileDown, FlaskConical, MapPin, Network, Package, ScrollText, Shield, Users } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { CaseTimeline } from '@/components/cases/CaseTimeline';
+import { PrintLabelsButton } from '@/components/evidence/PrintLabelsButton';
+import { useAuth } from '@/hooks/useAuth';
+import { useCaseDetail, useCaseDossierLoader } from '@/hooks/useCases';
+import { useProfileNames } from '@/hooks/useProfiles';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { realtimeTables } from '@/lib/realtime';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+
+interface SectionProps {
+  title: string;
+  icon: typeof Package;
+  count: number;
+  emptyMessage: string;
+  headers: string[];
+  action?: ReactNode;
+  children: ReactNode;
+}
+
+function Section({ title, icon: Icon, count, emptyMessage, headers, action, children }: SectionProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card-forensic"
+    >
+      <div className="p-4 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Icon className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">{title}</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          {action}
+          <span className="text-sm text-muted-foreground">{count}</span>
+        </div>
+      </div>
+      {count === 0 ? (
+        <div className="p-6 text-center text-muted-foreground text-sm">{emptyMessage}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table-forensic">
+            <thead>
+              <tr>
+                {headers.map((header) => <th key={header}>{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>{children}</tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default function CaseDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user, can } = useAuth();
+  const { data: detail, isLoading: loading, isError } = useCaseDetail(id);
+  const { data: profileNames } = useProfileNames();
+  const loadDossier = useCaseDossierLoader();
+  const [exporting, setExporting] = useState(false);
+  useRealtimeChanges(realtimeTables);
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch case details');
+  }, [isError]);
+
+  const handleExportDossier = async () => {
+    if (!id) return;
+    setExporting(true);
+    try {
+      // Loaded on demand so the PDF library stays out of the main bundle
+      const [dossier, { buildCaseDossier, dossierFileName }] = await Promise.all([loadDossier(id), import('@/lib/dossier')]);
+      const generatedAt = new Date();
+      const generatedBy = (user && profileNames?.get(user.id)) || user?.email || 'Unknown user';
+      buildCaseDossier(dossier, { generatedBy, generatedAt }).save(dossierFileName(dossier.caseRecord.case_number, generatedAt));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to export case dossier');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="p-8 flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <MainLayout>
+        <div className="space-y-4">
+          <Link to="/cases" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to cases
+          </Link>
+          <p className="text-muted-foreground">Case not found.</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const { caseRecord, evidence, involvements, labReports } = detail;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} className="space-y-2">
+          <Link to="/cases" className="text-sm text-muted-foreground hover:text-primary flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to cases
+          </Link>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+            <div>
+              <p className="text-sm text-muted-foreground">{caseRecord.case_number}</p>
+              <h1 className="text-2xl font-bold text-foreground">{caseRecord.title}</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleExportDossier}
+                disabled={exporting}
+                className="btn-secondary text-sm flex items-center gap-1 mr-2"
+              >
+                <FileDown className="w-4 h-4" />
+                {exporting ? 'Exporting...' : 'Export Dossier'}
+              </button>
+              <Link
+                to={`/link-analysis?type=cases&id=${caseRecord.id}&label=${encodeURIComponent(caseRecord.case_number)}`}
+                className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mr-2"
+              >
+                <Network className="w-4 h-4" />
+                Link analysis
+              </Link>
+              {can('view', 'audit') && (
+                <Link
+                  to={`/audit?table=cases&record=${caseRecord.id}`}
+                  className="text-sm text-muted-foreground hover:text-primary flex items-center gap-1 mr-2"
+                >
+                  <ScrollText className="w-4 h-4" />
+                  Audit history
+                </Link>
+              )}
+              <Badge variant={getStatusVariant(caseRecord.status)}>{caseRecord.status.replace('_', ' ')}</Badge>
+              <Badge variant={getStatusVariant(caseRecord.priority)}>{caseRecord.priority}</Badge>
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Case Summary */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="card-forensic p-6 grid grid-cols-1 lg:grid-cols-3 gap-6"
+        >
+          <div className="lg:col-span-2 space-y-2">
+            <h2 className="text-sm font-semibold text-muted-foreground">Description</h2>
+            <p className="text-sm text-foreground whitespace-pre-wrap">
+              {caseRecord.description || 'No description provided.'}
+            </p>
+            {caseRecord.status === 'closed' && caseRecord.closure_reason && (
+              <>
+                <h2 className="text-sm font-semibold text-muted-foreground pt-2">Closure Reason</h2>
+                <p className="text-sm text-foreground whitespace-pre-wrap">{caseRecord.closure_reason}</p>
+              </>
+            )}
+          </div>
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Shield className="w-4 h-4 text-muted-foreground" />
+              <div>
+                <p className="text-xs text-muted-foreground">Lead Officer</p>
+                <p className="text-sm text-foreground">
+                  {caseRecord.officers
+                    ? `${caseRecord.officers.rank} ${caseRecord.officers.name}${caseRecord.officers.badge_number ? ` (#${caseRecord.officers.badge_number})` : ''}`
+                    : 'Unassigned'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <MapPin className="w-4 h-4 text-muted-foreground" />
+              <div>
+                <p className="text-xs text-muted-foreground">Location</p>
+                <p className="text-sm text-foreground">{caseRecord.location || '-'}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Calendar className="w-4 h-4 text-muted-foreground" />
+              <div>
+                <p className="text-xs text-muted-foreground">Opened / Closed</p>
+                <p className="text-sm text-foreground">
+                  {format(parseISO(caseRecord.date_opened), 'MMM d, yyyy')}
+                  {' / '}
+                  {caseRecord.date_closed ? format(parseISO(caseRecord.date_closed), 'MMM d, yyyy') : '-'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+
+        <CaseTimeline caseId={caseRecord.id} />
+
+        <Section
+          title="Evidence"
+          icon={Package}
+          count={evidence.length}
+          emptyMessage="No evidence linked to this case."
+          headers={['Evidence #', 'Description', 'Type', 'Status', 'Date Collected']}
+          action={
+            <PrintLabelsButton
+              name={caseRecord.case_number}
+              buttonLabel="Print Labels"
+              labels={evidence.map((item) => ({ ...item, case_number: caseRecord.case_number }))}
+            />
+          }
+        >
+          {evidence.map((item) => (
+            <tr key={item.id}>
+              <td>
+                <Link to={`/evidence?record=${item.id}`} className="text-primary hover:underline">{item.evidence_number}</Link>
+              </td>
+              <td><span className="truncate max-w-[240px] block">{item.description}</span></td>
+              <td><Badge variant="default">{item.type}</Badge></td>
+              <td><Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge></td>
+              <td>{format(parseISO(item.date_collected), 'MMM d, yyyy')}</td>
+            </tr>
+          ))}
+        </Section>
+
+        <Section
+          title="People Involved"
+          icon={Users}
+          count={involvements.length}
+          emptyMessage="No people linked to this case."
+          headers={['Name', 'Role', 'Status', 'Age', 'Contact']}
+        >
+          {involvements.map((item) => (
+            <tr key={item.id}>
+              <td>{item.suspects.name}</td>
+              <td><Badge variant={getStatusVariant(item.role)}>{item.role.replace(/_/g, ' ')}</Badge></td>
+              <td><Badge variant={getStatusVariant(item.status)}>{item.status}</Badge></td>
+              <td>{item.suspects.age || '-'}</td>
+              <td>{item.suspects.phone || '-'}</td>
+            </tr>
+          ))}
+        </Section>
+
+        <Section
+          title="Lab Reports"
+          icon={FlaskConical}
+          count={labReports.length}
+          emptyMessage="No lab reports for this case's evidence."
+          headers={['Report #', 'Evidence', 'Analysis Type', 'Lab Tech', 'Status', 'Submitted']}
+        >
+          {labReports.map((item) => (
+            <tr key={item.id}>
+              <td>{item.report_number}</td>
+              <td>{item.evidence.evidence_number}</td>
+              <td>{item.analysis_type}</td>
+              <td>{item.lab_tech_name}</td>
+              <td><Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge></td>
+              <td>{format(parseISO(item.date_submitted), 'MMM d, yyyy')}</td>
+            </tr>
+          ))}
+        </Section>
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,92 +1,72 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { DataTable } from '@/components/ui/DataTable';
 import { Modal } from '@/components/ui/Modal';
 import { InputField, SelectField, TextareaField } from '@/components/ui/FormField';
+import { RecordNumberField } from '@/components/ui/RecordNumberField';
 import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerTable } from '@/hooks/useServerTable';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { Case, useCasePendingLabReports, useCases, useCasesExport, useCasesFullTextSearch, useCreateCase, useDeleteCase, useUpdateCase } from '@/hooks/useCases';
+import { useOfficerOptions } from '@/hooks/useOfficers';
+import { CaseStatus, caseStatusOptions, nextStatusOptions } from '@/lib/caseStatus';
+import { CaseFormData, caseSchema } from '@/lib/schemas';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { z } from 'zod';
-
-const caseSchema = z.object({
-  case_number: z.string().min(1, 'Case number is required'),
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional(),
-  date_opened: z.string().min(1, 'Date opened is required'),
-  status: z.enum(['open', 'closed', 'pending', 'under_investigation']),
-  location: z.string().optional(),
-  priority: z.enum(['low', 'medium', 'high', 'critical']),
-});
-
-type CaseFormData = z.infer<typeof caseSchema>;
-
-interface Case {
-  id: string;
-  case_number: string;
-  title: string;
-  description: string | null;
-  date_opened: string;
-  date_closed: string | null;
-  status: string;
-  location: string | null;
-  priority: string;
-  created_at: string;
-}
 
 const initialFormData: CaseFormData = {
-  case_number: '',
   title: '',
   description: '',
   date_opened: new Date().toISOString().split('T')[0],
   status: 'open',
   location: '',
   priority: 'medium',
+  lead_officer_id: '',
+  closure_reason: '',
 };
 
+const priorityOptions = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+];
+
 export default function Cases() {
-  const { user } = useAuth();
-  const [cases, setCases] = useState<Case[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchValue, setSearchValue] = useState('');
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const { query, searchValue, setSearchValue, fullText, setFullText, setPage, handleSortChange, handleFilterChange } = useServerTable({
+    column: 'created_at',
+    ascending: false,
+  });
+  const { data, isLoading, isError } = useCases(query);
+  const loadExportRows = useCasesExport(query);
+  const fullTextResults = useCasesFullTextSearch(fullText ? query.search : '');
+  const highlights = useRealtimeChanges(['cases']);
+  const { data: officers = [] } = useOfficerOptions();
+  const createCase = useCreateCase();
+  const updateCase = useUpdateCase();
+  const deleteCase = useDeleteCase();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [selectedCase, setSelectedCase] = useState<Case | null>(null);
   const [formData, setFormData] = useState<CaseFormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submitting, setSubmitting] = useState(false);
+  const closing = !!selectedCase && selectedCase.status !== 'closed' && formData.status === 'closed';
+  const { data: pendingLabReports = 0 } = useCasePendingLabReports(closing ? selectedCase.id : undefined);
+  const closeBlocked = closing && pendingLabReports > 0;
+  const submitting = createCase.isPending || updateCase.isPending;
 
   useEffect(() => {
-    fetchCases();
-  }, []);
+    if (isError) toast.error('Failed to fetch cases');
+  }, [isError]);
 
-  const fetchCases = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('cases')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCases(data || []);
-    } catch (error) {
-      toast.error('Failed to fetch cases');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filteredCases = useMemo(() => {
-    if (!searchValue) return cases;
-    const search = searchValue.toLowerCase();
-    return cases.filter(c => 
-      c.case_number.toLowerCase().includes(search) ||
-      c.title.toLowerCase().includes(search) ||
-      c.location?.toLowerCase().includes(search)
-    );
-  }, [cases, searchValue]);
+  useEffect(() => {
+    if (fullTextResults.isError) toast.error('Failed to search cases');
+  }, [fullTextResults.isError]);
 
   const handleAdd = () => {
     setSelectedCase(null);
@@ -98,13 +78,14 @@ export default function Cases() {
   const handleEdit = (caseItem: Case) => {
     setSelectedCase(caseItem);
     setFormData({
-      case_number: caseItem.case_number,
       title: caseItem.title,
       description: caseItem.description || '',
       date_opened: caseItem.date_opened,
       status: caseItem.status as CaseFormData['status'],
       location: caseItem.location || '',
       priority: caseItem.priority as CaseFormData['priority'],
+      lead_officer_id: caseItem.lead_officer_id || '',
+      closure_reason: caseItem.closure_reason || '',
     });
     setErrors({});
     setIsModalOpen(true);
@@ -118,16 +99,10 @@ export default function Cases() {
   const confirmDelete = async () => {
     if (!selectedCase) return;
     try {
-      const { data, error } = await supabase.from('cases').delete().eq('id', selectedCase.id).select();
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        toast.error('Permission denied: you can only delete your own records');
-      } else {
-        toast.success('Case deleted successfully');
-      }
-      fetchCases();
+      await deleteCase.mutateAsync(selectedCase.id);
+      toast.success('Case deleted successfully');
     } catch (error) {
-      toast.error('Failed to delete case');
+      toast.error((error as Error).message || 'Failed to delete case');
     } finally {
       setIsDeleteModalOpen(false);
       setSelectedCase(null);
@@ -147,46 +122,45 @@ export default function Cases() {
       setErrors(fieldErrors);
       return;
     }
+    if (closeBlocked) return;
 
-    setSubmitting(true);
     try {
       if (selectedCase) {
-        const { error } = await supabase
-          .from('cases')
-          .update(formData)
-          .eq('id', selectedCase.id);
-        if (error) throw error;
+        // date_closed is stamped (and cleared on reopen) by the database
+        await updateCase.mutateAsync({
+          id: selectedCase.id,
+          values: {
+            ...formData,
+            lead_officer_id: formData.lead_officer_id || null,
+            closure_reason: formData.status === 'closed' ? formData.closure_reason.trim() : null,
+          },
+        });
         toast.success('Case updated successfully');
       } else {
-        const insertData = {
-          case_number: formData.case_number,
+        const caseNumber = await createCase.mutateAsync({
           title: formData.title,
           description: formData.description || null,
           date_opened: formData.date_opened,
-          status: formData.status,
           location: formData.location || null,
           priority: formData.priority,
-          user_id: user?.id as string,
-        };
-        const { error } = await supabase.from('cases').insert([insertData]);
-        if (error) throw error;
-        toast.success('Case created successfully');
+          lead_officer_id: formData.lead_officer_id || null,
+        });
+        toast.success(`Case ${caseNumber} created`);
       }
       setIsModalOpen(false);
-      fetchCases();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save case');
-    } finally {
-      setSubmitting(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save case');
     }
   };
 
   const columns = [
-    { key: 'case_number', header: 'Case #' },
-    { key: 'title', header: 'Title' },
+    { key: 'case_number', header: 'Case #', sortable: true },
+    { key: 'title', header: 'Title', sortable: true },
     {
       key: 'status',
       header: 'Status',
+      sortable: true,
+      filter: { options: caseStatusOptions },
       render: (item: Case) => (
         <Badge variant={getStatusVariant(item.status)}>
           {item.status.replace('_', ' ')}
@@ -196,16 +170,25 @@ export default function Cases() {
     {
       key: 'priority',
       header: 'Priority',
+      sortable: true,
+      filter: { options: priorityOptions },
       render: (item: Case) => (
         <Badge variant={getStatusVariant(item.priority)}>
           {item.priority}
         </Badge>
       ),
     },
-    { key: 'location', header: 'Location' },
+    {
+      key: 'lead_officer',
+      header: 'Lead Officer',
+      filter: { key: 'lead_officer_id', options: officers.map(o => ({ value: o.id, label: `${o.rank} ${o.name}` })) },
+      render: (item: Case) => item.officers ? `${item.officers.rank} ${item.officers.name}` : '-',
+    },
+    { key: 'location', header: 'Location', sortable: true },
     {
       key: 'date_opened',
       header: 'Date Opened',
+      sortable: true,
       render: (item: Case) => format(new Date(item.date_opened), 'MMM d, yyyy'),
     },
   ];
@@ -220,16 +203,34 @@ export default function Cases() {
 
         <DataTable
           columns={columns}
-          data={filteredCases}
+          data={data?.rows ?? []}
           searchValue={searchValue}
           onSearchChange={setSearchValue}
+          sort={query.sort}
+          onSortChange={handleSortChange}
+          filters={query.filters}
+          onFilterChange={handleFilterChange}
+          pagination={{ page: query.page, pageSize: query.pageSize, totalCount: data?.count ?? 0, onPageChange: setPage }}
           searchPlaceholder="Search by case number, title, or location..."
-          onAdd={handleAdd}
+          onAdd={can('create', 'cases') ? handleAdd : undefined}
           addButtonLabel="New Case"
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-          loading={loading}
+          onView={(caseItem) => navigate(`/cases/${caseItem.id}`)}
+          onEdit={can('update', 'cases') ? handleEdit : undefined}
+          onDelete={can('delete', 'cases') ? handleDelete : undefined}
+          canEdit={(item) => can('update', 'cases', item.user_id)}
+          canDelete={(item) => can('delete', 'cases', item.user_id)}
+          highlights={highlights}
+          loading={isLoading}
           emptyMessage="No cases found. Create your first case to get started."
+          exportName="Cases"
+          loadExportRows={loadExportRows}
+          fullTextSearch={{
+            active: fullText,
+            onToggle: setFullText,
+            results: fullTextResults.data,
+            loading: fullTextResults.isLoading,
+            placeholder: 'Search case titles and descriptions...',
+          }}
         />
 
         {/* Add/Edit Modal */}
@@ -241,13 +242,11 @@ export default function Cases() {
         >
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <InputField
+              <RecordNumberField
                 label="Case Number"
-                value={formData.case_number}
-                onChange={(e) => setFormData({ ...formData, case_number: e.target.value })}
-                error={errors.case_number}
-                required
-                placeholder="CASE-2024-001"
+                entity="cases"
+                value={selectedCase?.case_number}
+                scope={{ date: formData.date_opened }}
               />
               <InputField
                 label="Date Opened"
@@ -273,34 +272,34 @@ export default function Cases() {
                 label="Status"
                 value={formData.status}
                 onChange={(e) => setFormData({ ...formData, status: e.target.value as CaseFormData['status'] })}
-                options={[
-                  { value: 'open', label: 'Open' },
-                  { value: 'closed', label: 'Closed' },
-                  { value: 'pending', label: 'Pending' },
-                  { value: 'under_investigation', label: 'Under Investigation' },
-                ]}
+                options={nextStatusOptions((selectedCase?.status ?? 'open') as CaseStatus)}
+                disabled={!selectedCase}
                 required
               />
               <SelectField
                 label="Priority"
                 value={formData.priority}
                 onChange={(e) => setFormData({ ...formData, priority: e.target.value as CaseFormData['priority'] })}
-                options={[
-                  { value: 'low', label: 'Low' },
-                  { value: 'medium', label: 'Medium' },
-                  { value: 'high', label: 'High' },
-                  { value: 'critical', label: 'Critical' },
-                ]}
+                options={priorityOptions}
                 required
               />
             </div>
 
-            <InputField
-              label="Location"
-              value={formData.location}
-              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-              placeholder="Crime scene location..."
-            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <SelectField
+                label="Lead Officer"
+                value={formData.lead_officer_id}
+                onChange={(e) => setFormData({ ...formData, lead_officer_id: e.target.value })}
+                options={officers.map(o => ({ value: o.id, label: `${o.rank} ${o.name}` }))}
+                error={errors.lead_officer_id}
+              />
+              <InputField
+                label="Location"
+                value={formData.location}
+                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                placeholder="Crime scene location..."
+              />
+            </div>
 
             <TextareaField
               label="Description"
@@ -309,6 +308,24 @@ export default function Cases() {
               placeholder="Case description and details..."
             />
 
+            {formData.status === 'closed' && (
+              <TextareaField
+                label="Closure Reason"
+                value={formData.closure_reason}
+                onChange={(e) => setFormData({ ...formData, closure_reason: e.target.value })}
+                error={errors.closure_reason}
+                required
+                placeholder="Why is this case being closed? e.g. charges filed, unfounded, referred..."
+              />
+            )}
+
+            {closeBlocked && (
+              <p className="text-sm text-destructive">
+                This case has {pendingLabReports} pending lab report{pendingLabReports === 1 ? '' : 's'}. Complete or
+                mark {pendingLabReports === 1 ? 'it' : 'them'} inconclusive before closing the case.
+              </p>
+            )}
+
             <div className="flex justify-end gap-3 pt-4">
               <button
                 type="button"
@@ -319,10 +336,10 @@ export default function Cases() {
               </button>
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || closeBlocked}
                 className="btn-primary"
               >
-                {submitting ? 'Saving...' : selectedCase ? 'Update Case' : 'Create Case'}
+                {submitting ? 'Saving...' : closing ? 'Close Case' : selectedCase ? 'Update Case' : 'Create Case'}
               </button>
             </div>
           </form>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   FileText, 
@@ -12,75 +12,27 @@ import {
 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { StatCard } from '@/components/ui/StatCard';
-import { supabase } from '@/integrations/supabase/client';
-import { format } from 'date-fns';
-import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { AnalyticsCharts } from '@/components/dashboard/AnalyticsCharts';
+import { DateRangePicker } from '@/components/dashboard/DateRangePicker';
+import { ActivityFeed } from '@/components/dashboard/ActivityFeed';
+import { useDashboardStats } from '@/hooks/useDashboard';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { realtimeTables } from '@/lib/realtime';
+import { DateRange, RangePreset, presetRange } from '@/lib/analytics';
 
-interface DashboardStats {
-  totalCases: number;
-  activeCases: number;
-  totalEvidence: number;
-  totalSuspects: number;
-  pendingLabReports: number;
-}
-
-interface RecentActivity {
-  id: string;
-  type: 'case' | 'evidence' | 'suspect' | 'lab_report';
-  title: string;
-  timestamp: string;
-  status?: string;
-}
+const emptyStats = {
+  totalCases: 0,
+  activeCases: 0,
+  totalEvidence: 0,
+  totalSuspects: 0,
+  pendingLabReports: 0,
+};
 
 export default function Dashboard() {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCases: 0,
-    activeCases: 0,
-    totalEvidence: 0,
-    totalSuspects: 0,
-    pendingLabReports: 0,
-  });
-  const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
-
-  const fetchDashboardData = async () => {
-    try {
-      const [casesRes, activeCasesRes, evidenceRes, suspectsRes, labReportsRes, recentCasesRes] = await Promise.all([
-        supabase.from('cases').select('id', { count: 'exact', head: true }),
-        supabase.from('cases').select('id', { count: 'exact', head: true }).neq('status', 'closed'),
-        supabase.from('evidence').select('id', { count: 'exact', head: true }),
-        supabase.from('suspects').select('id', { count: 'exact', head: true }),
-        supabase.from('lab_reports').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
-        supabase.from('cases').select('id, title, status, created_at').order('created_at', { ascending: false }).limit(5),
-      ]);
-
-      setStats({
-        totalCases: casesRes.count || 0,
-        activeCases: activeCasesRes.count || 0,
-        totalEvidence: evidenceRes.count || 0,
-        totalSuspects: suspectsRes.count || 0,
-        pendingLabReports: labReportsRes.count || 0,
-      });
-
-      if (recentCasesRes.data) {
-        setRecentActivity(recentCasesRes.data.map(c => ({
-          id: c.id,
-          type: 'case',
-          title: c.title,
-          timestamp: c.created_at,
-          status: c.status,
-        })));
-      }
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: stats = emptyStats } = useDashboardStats();
+  const highlights = useRealtimeChanges(realtimeTables);
+  const [rangePreset, setRangePreset] = useState<RangePreset | null>('12m');
+  const [range, setRange] = useState<DateRange>(() => presetRange('12m'));
 
   return (
     <MainLayout>
@@ -131,46 +83,10 @@ export default function Dashboard() {
             className="card-forensic p-6"
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold text-foreground">Recent Cases</h2>
+              <h2 className="text-lg font-semibold text-foreground">Recent Activity</h2>
               <TrendingUp className="w-5 h-5 text-primary" />
             </div>
-            
-            {loading ? (
-              <div className="flex items-center justify-center py-8">
-                <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-              </div>
-            ) : recentActivity.length === 0 ? (
-              <p className="text-muted-foreground text-sm py-4">No recent cases</p>
-            ) : (
-              <div className="space-y-3">
-                {recentActivity.map((activity, index) => (
-                  <motion.div
-                    key={activity.id}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="flex items-center justify-between py-3 border-b border-border last:border-0"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="p-2 bg-primary/10 rounded-md">
-                        <FileText className="w-4 h-4 text-primary" />
-                      </div>
-                      <div>
-                        <p className="text-sm font-medium text-foreground">{activity.title}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {format(new Date(activity.timestamp), 'MMM d, yyyy')}
-                        </p>
-                      </div>
-                    </div>
-                    {activity.status && (
-                      <Badge variant={getStatusVariant(activity.status)}>
-                        {activity.status.replace('_', ' ')}
-                      </Badge>
-                    )}
-                  </motion.div>
-                ))}
-              </div>
-            )}
+            <ActivityFeed highlights={highlights} />
           </motion.div>
 
           {/* Summary Stats */}
@@ -219,6 +135,22 @@ export default function Dashboard() {
             </div>
           </motion.div>
         </div>
+
+        {/* Analytics */}
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-foreground">Trends</h2>
+            <DateRangePicker
+              value={range}
+              preset={rangePreset}
+              onChange={(next, preset) => {
+                setRange(next);
+                setRangePreset(preset);
+              }}
+            />
+          </div>
+          <AnalyticsCharts range={range} />
+        </div>
       </div>
     </MainLayout>
   );
@@ -1,53 +1,26 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { DataTable } from '@/components/ui/DataTable';
 import { Modal } from '@/components/ui/Modal';
 import { InputField, SelectField, TextareaField } from '@/components/ui/FormField';
+import { RecordNumberField } from '@/components/ui/RecordNumberField';
 import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
-import { supabase } from '@/integrations/supabase/client';
+import { CustodyLedger } from '@/components/evidence/CustodyLedger';
+import { AttachmentGallery } from '@/components/evidence/AttachmentGallery';
+import { EvidenceLinks } from '@/components/evidence/EvidenceLinks';
+import { PrintLabelsButton } from '@/components/evidence/PrintLabelsButton';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerTable } from '@/hooks/useServerTable';
+import { useLinkedRecord } from '@/hooks/useLinkedRecord';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { Evidence, useCreateEvidence, useDeleteEvidence, useEvidence, useEvidenceExport, useEvidenceFullTextSearch, useEvidenceRecord, useUpdateEvidence } from '@/hooks/useEvidence';
+import { useCaseOptions } from '@/hooks/useCases';
+import { EvidenceFormData, evidenceSchema } from '@/lib/schemas';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { z } from 'zod';
-
-const evidenceSchema = z.object({
-  evidence_number: z.string().min(1, 'Evidence number is required'),
-  case_id: z.string().min(1, 'Case is required'),
-  description: z.string().min(1, 'Description is required'),
-  type: z.enum(['physical', 'digital', 'documentary', 'testimonial', 'biological', 'trace']),
-  location_found: z.string().optional(),
-  date_collected: z.string().min(1, 'Date collected is required'),
-  collected_by: z.string().optional(),
-  storage_location: z.string().optional(),
-  status: z.enum(['in_storage', 'in_lab', 'released', 'disposed']),
-});
-
-type EvidenceFormData = z.infer<typeof evidenceSchema>;
-
-interface Evidence {
-  id: string;
-  evidence_number: string;
-  case_id: string;
-  description: string;
-  type: string;
-  location_found: string | null;
-  date_collected: string;
-  collected_by: string | null;
-  storage_location: string | null;
-  status: string;
-  created_at: string;
-  cases?: { case_number: string; title: string };
-}
-
-interface Case {
-  id: string;
-  case_number: string;
-  title: string;
-}
 
 const initialFormData: EvidenceFormData = {
-  evidence_number: '',
   case_id: '',
   description: '',
   type: 'physical',
@@ -58,52 +31,63 @@ const initialFormData: EvidenceFormData = {
   status: 'in_storage',
 };
 
+const typeOptions = [
+  { value: 'physical', label: 'Physical' },
+  { value: 'digital', label: 'Digital' },
+  { value: 'documentary', label: 'Documentary' },
+  { value: 'testimonial', label: 'Testimonial' },
+  { value: 'biological', label: 'Biological' },
+  { value: 'trace', label: 'Trace' },
+];
+
+const statusOptions = [
+  { value: 'in_storage', label: 'In Storage' },
+  { value: 'in_lab', label: 'In Lab' },
+  { value: 'released', label: 'Released' },
+  { value: 'disposed', label: 'Disposed' },
+];
+
 export default function EvidencePage() {
-  const { user } = useAuth();
-  const [evidence, setEvidence] = useState<Evidence[]>([]);
-  const [cases, setCases] = useState<Case[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchValue, setSearchValue] = useState('');
+  const { can } = useAuth();
+  const { query, searchValue, setSearchValue, fullText, setFullText, setPage, handleSortChange, handleFilterChange } = useServerTable({
+    column: 'created_at',
+    ascending: false,
+  });
+  const { data, isLoading, isError } = useEvidence(query);
+  const loadExportRows = useEvidenceExport(query);
+  const fullTextResults = useEvidenceFullTextSearch(fullText ? query.search : '');
+  const highlights = useRealtimeChanges(['evidence']);
+  const { data: cases = [] } = useCaseOptions();
+  const createEvidence = useCreateEvidence();
+  const updateEvidence = useUpdateEvidence();
+  const deleteEvidence = useDeleteEvidence();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isRecordModalOpen, setIsRecordModalOpen] = useState(false);
   const [selectedEvidence, setSelectedEvidence] = useState<Evidence | null>(null);
   const [formData, setFormData] = useState<EvidenceFormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submitting, setSubmitting] = useState(false);
-
-  useEffect(() => {
-    fetchData();
+  const submitting = createEvidence.isPending || updateEvidence.isPending;
+  // Scanned labels and other pages link here with ?record=<id> to open one item's record
+  const openRecord = useCallback((item: Evidence) => {
+    setSelectedEvidence(item);
+    setIsRecordModalOpen(true);
   }, []);
+  const closeLinkedRecord = useLinkedRecord(useEvidenceRecord, openRecord, 'Evidence record not found');
 
-  const fetchData = async () => {
-    try {
-      const [evidenceRes, casesRes] = await Promise.all([
-        supabase.from('evidence').select('*, cases(case_number, title)').order('created_at', { ascending: false }),
-        supabase.from('cases').select('id, case_number, title').order('case_number'),
-      ]);
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch evidence');
+  }, [isError]);
 
-      if (evidenceRes.error) throw evidenceRes.error;
-      if (casesRes.error) throw casesRes.error;
+  useEffect(() => {
+    if (fullTextResults.isError) toast.error('Failed to search evidence');
+  }, [fullTextResults.isError]);
 
-      setEvidence(evidenceRes.data || []);
-      setCases(casesRes.data || []);
-    } catch (error) {
-      toast.error('Failed to fetch evidence');
-    } finally {
-      setLoading(false);
-    }
+  const closeRecord = () => {
+    setIsRecordModalOpen(false);
+    closeLinkedRecord();
   };
 
-  const filteredEvidence = useMemo(() => {
-    if (!searchValue) return evidence;
-    const search = searchValue.toLowerCase();
-    return evidence.filter(e =>
-      e.evidence_number.toLowerCase().includes(search) ||
-      e.description.toLowerCase().includes(search) ||
-      e.cases?.case_number.toLowerCase().includes(search)
-    );
-  }, [evidence, searchValue]);
-
   const handleAdd = () => {
     setSelectedEvidence(null);
     setFormData(initialFormData);
@@ -114,7 +98,6 @@ export default function EvidencePage() {
   const handleEdit = (item: Evidence) => {
     setSelectedEvidence(item);
     setFormData({
-      evidence_number: item.evidence_number,
       case_id: item.case_id,
       description: item.description,
       type: item.type as EvidenceFormData['type'],
@@ -128,6 +111,11 @@ export default function EvidencePage() {
     setIsModalOpen(true);
   };
 
+  const handleView = (item: Evidence) => {
+    setSelectedEvidence(item);
+    setIsRecordModalOpen(true);
+  };
+
   const handleDelete = (item: Evidence) => {
     setSelectedEvidence(item);
     setIsDeleteModalOpen(true);
@@ -136,16 +124,10 @@ export default function EvidencePage() {
   const confirmDelete = async () => {
     if (!selectedEvidence) return;
     try {
-      const { data, error } = await supabase.from('evidence').delete().eq('id', selectedEvidence.id).select();
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        toast.error('Permission denied: you can only delete your own records');
-      } else {
-        toast.success('Evidence deleted successfully');
-      }
-      fetchData();
+      await deleteEvidence.mutateAsync(selectedEvidence.id);
+      toast.success('Evidence deleted successfully');
     } catch (error) {
-      toast.error('Failed to delete evidence');
+      toast.error((error as Error).message || 'Failed to delete evidence');
     } finally {
       setIsDeleteModalOpen(false);
       setSelectedEvidence(null);
@@ -166,15 +148,13 @@ export default function EvidencePage() {
       return;
     }
 
-    setSubmitting(true);
     try {
       if (selectedEvidence) {
-        const { error } = await supabase.from('evidence').update(formData).eq('id', selectedEvidence.id);
-        if (error) throw error;
+        const { case_id: _caseId, ...values } = formData;
+        await updateEvidence.mutateAsync({ id: selectedEvidence.id, values });
         toast.success('Evidence updated successfully');
       } else {
-        const insertData = {
-          evidence_number: formData.evidence_number,
+        const evidenceNumber = await createEvidence.mutateAsync({
           case_id: formData.case_id,
           description: formData.description,
           type: formData.type,
@@ -183,34 +163,28 @@ export default function EvidencePage() {
           collected_by: formData.collected_by || null,
           storage_location: formData.storage_location || null,
           status: formData.status,
-          user_id: user?.id as string,
-        };
-        const { error } = await supabase.from('evidence').insert([insertData]);
-        if (error) throw error;
-        toast.success('Evidence created successfully');
+        });
+        toast.success(`Evidence ${evidenceNumber} created`);
       }
       setIsModalOpen(false);
-      fetchData();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save evidence');
-    } finally {
-      setSubmitting(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save evidence');
     }
   };
 
   const columns = [
-    { key: 'evidence_number', header: 'Evidence #' },
+    { key: 'evidence_number', header: 'Evidence #', sortable: true },
     { key: 'description', header: 'Description', render: (item: Evidence) => (
       <span className="truncate max-w-[200px] block">{item.description}</span>
     )},
-    { key: 'type', header: 'Type', render: (item: Evidence) => (
+    { key: 'type', header: 'Type', sortable: true, filter: { options: typeOptions }, render: (item: Evidence) => (
       <Badge variant="default">{item.type}</Badge>
     )},
-    { key: 'case', header: 'Case', render: (item: Evidence) => item.cases?.case_number || '-' },
-    { key: 'status', header: 'Status', render: (item: Evidence) => (
+    { key: 'case', header: 'Case', filter: { key: 'case_id', options: cases.map(c => ({ value: c.id, label: c.case_number })) }, render: (item: Evidence) => item.cases?.case_number || '-' },
+    { key: 'status', header: 'Status', sortable: true, filter: { options: statusOptions }, render: (item: Evidence) => (
       <Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge>
     )},
-    { key: 'date_collected', header: 'Date Collected', render: (item: Evidence) => 
+    { key: 'date_collected', header: 'Date Collected', sortable: true, render: (item: Evidence) => 
       format(new Date(item.date_collected), 'MMM d, yyyy')
     },
   ];
@@ -225,29 +199,39 @@ export default function EvidencePage() {
 
         <DataTable
           columns={columns}
-          data={filteredEvidence}
+          data={data?.rows ?? []}
           searchValue={searchValue}
           onSearchChange={setSearchValue}
-          searchPlaceholder="Search by evidence number, description, or case..."
-          onAdd={handleAdd}
+          sort={query.sort}
+          onSortChange={handleSortChange}
+          filters={query.filters}
+          onFilterChange={handleFilterChange}
+          pagination={{ page: query.page, pageSize: query.pageSize, totalCount: data?.count ?? 0, onPageChange: setPage }}
+          searchPlaceholder="Search by evidence number, description, or storage location..."
+          onAdd={can('create', 'evidence') ? handleAdd : undefined}
           addButtonLabel="Add Evidence"
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-          loading={loading}
+          onView={handleView}
+          onEdit={can('update', 'evidence') ? handleEdit : undefined}
+          onDelete={can('delete', 'evidence') ? handleDelete : undefined}
+          canEdit={(item) => can('update', 'evidence', item.user_id)}
+          canDelete={(item) => can('delete', 'evidence', item.user_id)}
+          highlights={highlights}
+          loading={isLoading}
           emptyMessage="No evidence found."
+          exportName="Evidence"
+          loadExportRows={loadExportRows}
+          fullTextSearch={{
+            active: fullText,
+            onToggle: setFullText,
+            results: fullTextResults.data,
+            loading: fullTextResults.isLoading,
+            placeholder: 'Search evidence descriptions, locations and custody notes...',
+          }}
         />
 
         <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedEvidence ? 'Edit Evidence' : 'Add Evidence'} size="lg">
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <InputField
-                label="Evidence Number"
-                value={formData.evidence_number}
-                onChange={(e) => setFormData({ ...formData, evidence_number: e.target.value })}
-                error={errors.evidence_number}
-                required
-                placeholder="EV-2024-001"
-              />
               <SelectField
                 label="Case"
                 value={formData.case_id}
@@ -255,6 +239,15 @@ export default function EvidencePage() {
                 options={cases.map(c => ({ value: c.id, label: `${c.case_number} - ${c.title}` }))}
                 error={errors.case_id}
                 required
+                // The evidence number is derived from the case, so saved items stay with it
+                disabled={!!selectedEvidence}
+              />
+              <RecordNumberField
+                label="Evidence Number"
+                entity="evidence"
+                value={selectedEvidence?.evidence_number}
+                scope={{ caseId: formData.case_id }}
+                emptyHint="Numbered within the case once one is selected"
               />
             </div>
 
@@ -272,26 +265,14 @@ export default function EvidencePage() {
                 label="Type"
                 value={formData.type}
                 onChange={(e) => setFormData({ ...formData, type: e.target.value as EvidenceFormData['type'] })}
-                options={[
-                  { value: 'physical', label: 'Physical' },
-                  { value: 'digital', label: 'Digital' },
-                  { value: 'documentary', label: 'Documentary' },
-                  { value: 'testimonial', label: 'Testimonial' },
-                  { value: 'biological', label: 'Biological' },
-                  { value: 'trace', label: 'Trace' },
-                ]}
+                options={typeOptions}
                 required
               />
               <SelectField
                 label="Status"
                 value={formData.status}
                 onChange={(e) => setFormData({ ...formData, status: e.target.value as EvidenceFormData['status'] })}
-                options={[
-                  { value: 'in_storage', label: 'In Storage' },
-                  { value: 'in_lab', label: 'In Lab' },
-                  { value: 'released', label: 'Released' },
-                  { value: 'disposed', label: 'Disposed' },
-                ]}
+                options={statusOptions}
                 required
               />
             </div>
@@ -337,6 +318,44 @@ export default function EvidencePage() {
           </form>
         </Modal>
 
+        <Modal
+          isOpen={isRecordModalOpen}
+          onClose={closeRecord}
+          title={`Evidence Record - ${selectedEvidence?.evidence_number ?? ''}`}
+          size="xl"
+        >
+          {selectedEvidence && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {selectedEvidence.cases?.case_number} · {selectedEvidence.storage_location || 'No storage location'}
+                </p>
+                <PrintLabelsButton
+                  name={selectedEvidence.evidence_number}
+                  labels={[{
+                    id: selectedEvidence.id,
+                    evidence_number: selectedEvidence.evidence_number,
+                    case_number: selectedEvidence.cases?.case_number ?? null,
+                    type: selectedEvidence.type,
+                    date_collected: selectedEvidence.date_collected,
+                    collected_by: selectedEvidence.collected_by,
+                  }]}
+                />
+              </div>
+              <AttachmentGallery evidenceId={selectedEvidence.id} />
+              <div className="border-t border-border pt-6">
+                <EvidenceLinks evidenceId={selectedEvidence.id} />
+              </div>
+              <div className="border-t border-border pt-6">
+                <CustodyLedger
+                  evidenceId={selectedEvidence.id}
+                  legacyNotes={selectedEvidence.chain_of_custody}
+                />
+              </div>
+            </div>
+          )}
+        </Modal>
+
         <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete Evidence" size="sm">
           <p className="text-muted-foreground mb-6">
             Are you sure you want to delete this evidence? This action cannot be undone.
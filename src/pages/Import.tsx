@@ -0,0 +1,340 @@
+import { useState, useMemo } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle2, Upload } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SelectField } from '@/components/ui/FormField';
+import { Badge } from '@/components/ui/StatusBadge';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/hooks/useAuth';
+import { ImportSummary, useBulkImport, useImportLookupsLoader } from '@/hooks/useImport';
+import {
+  ImportEntity,
+  ImportRow,
+  MAX_IMPORT_ROWS,
+  autoMapColumns,
+  importTargets,
+  parseCsv,
+  validateImportRows,
+} from '@/lib/csvImport';
+import { downloadRows, exportFileName } from '@/lib/tableExport';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const steps: { key: Step; label: string }[] = [
+  { key: 'upload', label: 'Choose File' },
+  { key: 'map', label: 'Map Columns' },
+  { key: 'preview', label: 'Review' },
+  { key: 'done', label: 'Import' },
+];
+
+const entityPaths: Record<ImportEntity, string> = {
+  cases: '/cases',
+  evidence: '/evidence',
+  suspects: '/suspects',
+  officers: '/officers',
+};
+
+// Rendering thousands of preview rows stalls the page; counts still cover the whole file
+const PREVIEW_LIMIT = 200;
+
+export default function Import() {
+  const { can, loading: authLoading } = useAuth();
+  const loadLookups = useImportLookupsLoader();
+  const bulkImport = useBulkImport();
+  const [step, setStep] = useState<Step>('upload');
+  const [entity, setEntity] = useState<ImportEntity>('cases');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<ImportRow[]>([]);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [processed, setProcessed] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const target = importTargets[entity];
+  const entityOptions = (Object.keys(importTargets) as ImportEntity[])
+    .filter((key) => can('create', key))
+    .map((key) => ({ value: key, label: importTargets[key].label }));
+  const validRows = useMemo(() => results.filter((row) => row.record), [results]);
+  const invalidCount = results.length - validRows.length;
+  const previewRows = (errorsOnly ? results.filter((row) => !row.record) : results).slice(0, PREVIEW_LIMIT);
+  const missingRequired = target.fields.filter((field) => field.required && !mapping[field.key]);
+
+  if (!authLoading && !can('create', 'imports')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setResults([]);
+    setSummary(null);
+    setProcessed(0);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const [header, ...data] = parseCsv(await file.text());
+    if (!header || data.length === 0) {
+      toast.error('The file has no data rows');
+      return;
+    }
+    if (data.length > MAX_IMPORT_ROWS) {
+      toast.error(`Files are limited to ${MAX_IMPORT_ROWS} rows; split this one and import it in parts`);
+      return;
+    }
+    const columns = header.map((name) => name.trim());
+    setFileName(file.name);
+    setHeaders(columns);
+    setRows(data);
+    setMapping(autoMapColumns(columns, target.fields));
+    setStep('map');
+  };
+
+  const handleValidate = async () => {
+    setValidating(true);
+    try {
+      const lookups = await loadLookups();
+      setResults(validateImportRows(entity, rows, headers, mapping, lookups));
+      setErrorsOnly(false);
+      setStep('preview');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to load existing records');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setProcessed(0);
+    setStep('done');
+    try {
+      const result = await bulkImport.mutateAsync({ entity, rows: validRows, onProgress: setProcessed });
+      setSummary(result);
+      if (result.failed.length === 0) toast.success(`Imported ${result.inserted} ${target.label.toLowerCase()}`);
+      else toast.warning(`Imported ${result.inserted} rows; ${result.failed.length} need attention`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Import failed');
+      setStep('preview');
+    }
+  };
+
+  const downloadReport = () => {
+    const problems = [
+      ...results.filter((row) => !row.record).map((row) => [row.rowNumber, 'Skipped', row.errors.join('; ')]),
+      ...(summary?.failed ?? []).map((failure) => [failure.rowNumber, 'Rejected', failure.message]),
+    ].sort((a, b) => (a[0] as number) - (b[0] as number));
+    downloadRows(
+      [['Row', 'Outcome', 'Errors'], ...problems],
+      exportFileName(`${target.label} Import Report`, 'csv'),
+      'csv',
+      'Import Report'
+    );
+  };
+
+  const describeRow = (row: ImportRow) => {
+    const cells = rows[row.rowNumber - 2] ?? [];
+    return target.fields
+      .slice(0, 2)
+      .map((field) => cells[headers.indexOf(mapping[field.key])]?.trim())
+      .filter(Boolean)
+      .join(' - ') || '-';
+  };
+
+  const stepIndex = steps.findIndex((s) => s.key === step);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-2xl font-bold text-foreground">Bulk Import</h1>
+          <p className="text-muted-foreground">Bring legacy records in from CSV, checked against the same rules as the entry forms</p>
+        </motion.div>
+
+        <div className="flex items-center gap-2 text-sm">
+          {steps.map((s, i) => (
+            <div key={s.key} className="flex items-center gap-2">
+              {i > 0 && <span className="text-muted-foreground">/</span>}
+              <span className={cn(i === stepIndex ? 'text-primary font-medium' : 'text-muted-foreground')}>
+                {i + 1}. {s.label}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {step === 'upload' && (
+          <div className="card-forensic p-6 space-y-4 max-w-xl">
+            <SelectField
+              label="Record Type"
+              value={entity}
+              onChange={(e) => e.target.value && setEntity(e.target.value as ImportEntity)}
+              options={entityOptions}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Columns: {target.fields.map((field) => `${field.label}${field.required ? ' *' : ''}`).join(', ')}
+            </p>
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border border-dashed border-border rounded-md cursor-pointer hover:bg-muted transition-colors">
+              <Upload className="w-6 h-6 text-muted-foreground" />
+              <span className="text-sm text-foreground">Choose a CSV file</span>
+              <span className="text-xs text-muted-foreground">First row must contain column headers</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="card-forensic p-6 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {rows.length} rows. Match each {target.label.toLowerCase()} field to a column in the file.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {target.fields.map((field) => (
+                <SelectField
+                  key={field.key}
+                  label={field.label}
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                  options={headers.map((header) => ({ value: header, label: header }))}
+                  required={field.required}
+                />
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-warning">
+                Map the required fields first: {missingRequired.map((field) => field.label).join(', ')}
+              </p>
+            )}
+            <div className="flex justify-end gap-3 pt-2">
+              <button onClick={reset} className="btn-secondary">Back</button>
+              <button onClick={handleValidate} disabled={missingRequired.length > 0 || validating} className="btn-primary">
+                {validating ? 'Validating...' : 'Validate Rows'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="card-forensic p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-4 text-sm">
+                <span className="flex items-center gap-1.5 text-foreground">
+                  <CheckCircle2 className="w-4 h-4 text-primary" /> {validRows.length} ready
+                </span>
+                <span className={cn('flex items-center gap-1.5', invalidCount > 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                  <AlertTriangle className="w-4 h-4" /> {invalidCount} with errors (will be skipped)
+                </span>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+                Only rows with errors
+              </label>
+            </div>
+
+            <div className="overflow-x-auto max-h-[28rem]">
+              <table className="table-forensic">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Record</th>
+                    <th>Status</th>
+                    <th>Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row) => (
+                    <tr key={row.rowNumber}>
+                      <td>{row.rowNumber}</td>
+                      <td>{describeRow(row)}</td>
+                      <td>
+                        <Badge variant={row.record ? 'success' : 'critical'}>{row.record ? 'valid' : 'error'}</Badge>
+                      </td>
+                      <td className="text-sm">
+                        {row.errors.length === 0 ? '-' : (
+                          <ul className="space-y-0.5 text-destructive">
+                            {row.errors.map((error) => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {(errorsOnly ? invalidCount : results.length) > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_LIMIT} rows.</p>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button onClick={() => setStep('map')} className="btn-secondary">Back</button>
+              {invalidCount > 0 && <button onClick={downloadReport} className="btn-secondary">Download Errors</button>}
+              <button onClick={handleImport} disabled={validRows.length === 0} className="btn-primary">
+                Import {validRows.length} {validRows.length === 1 ? 'Row' : 'Rows'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="card-forensic p-6 space-y-4 max-w-2xl">
+            {!summary ? (
+              <>
+                <p className="text-sm text-foreground">Importing {processed} of {validRows.length} rows...</p>
+                <Progress value={validRows.length ? (processed / validRows.length) * 100 : 0} />
+              </>
+            ) : (
+              <>
+                <h2 className="text-lg font-semibold text-foreground">Import Summary</h2>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Imported</p>
+                    <p className="text-2xl font-bold text-foreground">{summary.inserted}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Rejected by database</p>
+                    <p className={cn('text-2xl font-bold', summary.failed.length > 0 ? 'text-destructive' : 'text-foreground')}>
+                      {summary.failed.length}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Skipped (invalid)</p>
+                    <p className={cn('text-2xl font-bold', invalidCount > 0 ? 'text-warning' : 'text-foreground')}>{invalidCount}</p>
+                  </div>
+                </div>
+                {summary.failed.length > 0 && (
+                  <ul className="text-sm text-destructive space-y-1 max-h-48 overflow-y-auto">
+                    {summary.failed.map((failure) => (
+                      <li key={`${failure.rowNumber}-${failure.message}`}>Row {failure.rowNumber}: {failure.message}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex justify-end gap-3 pt-2">
+                  {(invalidCount > 0 || summary.failed.length > 0) && (
+                    <button onClick={downloadReport} className="btn-secondary">Download Report</button>
+                  )}
+                  <button onClick={reset} className="btn-secondary">Import Another File</button>
+                  <Link to={entityPaths[entity]} className="btn-primary">View {target.label}</Link>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
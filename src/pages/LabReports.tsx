@@ -1,19 +1,25 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { DataTable } from '@/components/ui/DataTable';
 import { Modal } from '@/components/ui/Modal';
 import { InputField, SelectField, TextareaField } from '@/components/ui/FormField';
+import { RecordNumberField } from '@/components/ui/RecordNumberField';
 import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
-import { supabase } from '@/integrations/supabase/client';
+import { LabQueue } from '@/components/lab/LabQueue';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerTable } from '@/hooks/useServerTable';
+import { useLinkedRecord } from '@/hooks/useLinkedRecord';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { LabReport, useCreateLabReport, useDeleteLabReport, useLabReportRecord, useLabReports, useLabReportsExport, useLabReportsFullTextSearch, useUpdateLabReport } from '@/hooks/useLabReports';
+import { useEvidenceOptions } from '@/hooks/useEvidence';
+import { formatDays, isOpenLabStatus, turnaroundDays } from '@/lib/labQueue';
 import { toast } from 'sonner';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { z } from 'zod';
 
 const labReportSchema = z.object({
   evidence_id: z.string().min(1, 'Evidence is required'),
-  report_number: z.string().min(1, 'Report number is required'),
   analysis_type: z.string().min(1, 'Analysis type is required'),
   analysis_result: z.string().min(1, 'Analysis result is required'),
   lab_tech_name: z.string().min(1, 'Lab technician name is required'),
@@ -26,31 +32,8 @@ const labReportSchema = z.object({
 
 type LabReportFormData = z.infer<typeof labReportSchema>;
 
-interface LabReport {
-  id: string;
-  evidence_id: string;
-  report_number: string;
-  analysis_type: string;
-  analysis_result: string;
-  lab_tech_name: string;
-  lab_name: string | null;
-  date_submitted: string;
-  date_completed: string | null;
-  status: string;
-  notes: string | null;
-  created_at: string;
-  evidence?: { evidence_number: string; description: string };
-}
-
-interface Evidence {
-  id: string;
-  evidence_number: string;
-  description: string;
-}
-
 const initialFormData: LabReportFormData = {
   evidence_id: '',
-  report_number: '',
   analysis_type: '',
   analysis_result: '',
   lab_tech_name: '',
@@ -73,53 +56,50 @@ const analysisTypes = [
   { value: 'Other', label: 'Other' },
 ];
 
+const statusOptions = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'inconclusive', label: 'Inconclusive' },
+];
+
 export default function LabReports() {
-  const { user } = useAuth();
-  const [labReports, setLabReports] = useState<LabReport[]>([]);
-  const [evidenceList, setEvidenceList] = useState<Evidence[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchValue, setSearchValue] = useState('');
+  const { can } = useAuth();
+  const { query, searchValue, setSearchValue, fullText, setFullText, setPage, handleSortChange, handleFilterChange } = useServerTable({
+    column: 'created_at',
+    ascending: false,
+  });
+  const { data, isLoading, isError } = useLabReports(query);
+  const loadExportRows = useLabReportsExport(query);
+  const fullTextResults = useLabReportsFullTextSearch(fullText ? query.search : '');
+  const highlights = useRealtimeChanges(['lab_reports']);
+  const { data: evidenceList = [] } = useEvidenceOptions();
+  const createLabReport = useCreateLabReport();
+  const updateLabReport = useUpdateLabReport();
+  const deleteLabReport = useDeleteLabReport();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [viewedReport, setViewedReport] = useState<LabReport | null>(null);
   const [selectedReport, setSelectedReport] = useState<LabReport | null>(null);
   const [formData, setFormData] = useState<LabReportFormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submitting, setSubmitting] = useState(false);
+  const submitting = createLabReport.isPending || updateLabReport.isPending;
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (isError) toast.error('Failed to fetch lab reports');
+  }, [isError]);
 
-  const fetchData = async () => {
-    try {
-      const [reportsRes, evidenceRes] = await Promise.all([
-        supabase.from('lab_reports').select('*, evidence(evidence_number, description)').order('created_at', { ascending: false }),
-        supabase.from('evidence').select('id, evidence_number, description').order('evidence_number'),
-      ]);
+  useEffect(() => {
+    if (fullTextResults.isError) toast.error('Failed to search lab reports');
+  }, [fullTextResults.isError]);
 
-      if (reportsRes.error) throw reportsRes.error;
-      if (evidenceRes.error) throw evidenceRes.error;
+  const closeLinkedRecord = useLinkedRecord(useLabReportRecord, setViewedReport, 'Lab report not found');
 
-      setLabReports(reportsRes.data || []);
-      setEvidenceList(evidenceRes.data || []);
-    } catch (error) {
-      toast.error('Failed to fetch lab reports');
-    } finally {
-      setLoading(false);
-    }
+  const closeView = () => {
+    setViewedReport(null);
+    closeLinkedRecord();
   };
 
-  const filteredReports = useMemo(() => {
-    if (!searchValue) return labReports;
-    const search = searchValue.toLowerCase();
-    return labReports.filter(r =>
-      r.report_number.toLowerCase().includes(search) ||
-      r.analysis_type.toLowerCase().includes(search) ||
-      r.lab_tech_name.toLowerCase().includes(search) ||
-      r.evidence?.evidence_number.toLowerCase().includes(search)
-    );
-  }, [labReports, searchValue]);
-
   const handleAdd = () => {
     setSelectedReport(null);
     setFormData(initialFormData);
@@ -131,7 +111,6 @@ export default function LabReports() {
     setSelectedReport(item);
     setFormData({
       evidence_id: item.evidence_id,
-      report_number: item.report_number,
       analysis_type: item.analysis_type,
       analysis_result: item.analysis_result,
       lab_tech_name: item.lab_tech_name,
@@ -153,16 +132,10 @@ export default function LabReports() {
   const confirmDelete = async () => {
     if (!selectedReport) return;
     try {
-      const { data, error } = await supabase.from('lab_reports').delete().eq('id', selectedReport.id).select();
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        toast.error('Permission denied: you can only delete your own records');
-      } else {
-        toast.success('Lab report deleted successfully');
-      }
-      fetchData();
+      await deleteLabReport.mutateAsync(selectedReport.id);
+      toast.success('Lab report deleted successfully');
     } catch (error) {
-      toast.error('Failed to delete lab report');
+      toast.error((error as Error).message || 'Failed to delete lab report');
     } finally {
       setIsDeleteModalOpen(false);
       setSelectedReport(null);
@@ -183,49 +156,46 @@ export default function LabReports() {
       return;
     }
 
-    setSubmitting(true);
     try {
       const payload = {
         evidence_id: formData.evidence_id,
-        report_number: formData.report_number,
         analysis_type: formData.analysis_type,
         analysis_result: formData.analysis_result,
         lab_tech_name: formData.lab_tech_name,
         lab_name: formData.lab_name || null,
         date_submitted: formData.date_submitted,
-        date_completed: formData.date_completed || null,
+        // Stamped by the database when left blank on a finished report
+        date_completed: isOpenLabStatus(formData.status) ? null : formData.date_completed || null,
         status: formData.status,
         notes: formData.notes || null,
       };
 
       if (selectedReport) {
-        const { error } = await supabase.from('lab_reports').update(payload).eq('id', selectedReport.id);
-        if (error) throw error;
+        await updateLabReport.mutateAsync({ id: selectedReport.id, values: payload });
         toast.success('Lab report updated successfully');
       } else {
-        const { error } = await supabase.from('lab_reports').insert([{ ...payload, user_id: user?.id }]);
-        if (error) throw error;
-        toast.success('Lab report created successfully');
+        const reportNumber = await createLabReport.mutateAsync(payload);
+        toast.success(`Lab report ${reportNumber} created`);
       }
       setIsModalOpen(false);
-      fetchData();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save lab report');
-    } finally {
-      setSubmitting(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save lab report');
     }
   };
 
   const columns = [
-    { key: 'report_number', header: 'Report #' },
+    { key: 'report_number', header: 'Report #', sortable: true },
     { key: 'evidence', header: 'Evidence', render: (item: LabReport) => item.evidence?.evidence_number || '-' },
-    { key: 'analysis_type', header: 'Analysis Type' },
-    { key: 'lab_tech_name', header: 'Lab Tech' },
-    { key: 'status', header: 'Status', render: (item: LabReport) => (
+    { key: 'analysis_type', header: 'Analysis Type', sortable: true, filter: { options: analysisTypes } },
+    { key: 'lab_tech_name', header: 'Lab Tech', sortable: true, filter: { placeholder: 'Filter technician...' } },
+    { key: 'status', header: 'Status', sortable: true, filter: { options: statusOptions }, render: (item: LabReport) => (
       <Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge>
     )},
-    { key: 'date_submitted', header: 'Submitted', render: (item: LabReport) => 
-      format(new Date(item.date_submitted), 'MMM d, yyyy')
+    { key: 'date_submitted', header: 'Submitted', sortable: true, render: (item: LabReport) => 
+      format(parseISO(item.date_submitted), 'MMM d, yyyy')
+    },
+    { key: 'turnaround', header: 'Turnaround', render: (item: LabReport) =>
+      item.date_completed ? formatDays(turnaroundDays(item.date_submitted, item.date_completed)) : '-'
     },
   ];
 
@@ -237,30 +207,48 @@ export default function LabReports() {
           <p className="text-muted-foreground">Manage forensic analysis reports</p>
         </motion.div>
 
+        <LabQueue onSelect={setSearchValue} />
+
         <DataTable
           columns={columns}
-          data={filteredReports}
+          data={data?.rows ?? []}
           searchValue={searchValue}
           onSearchChange={setSearchValue}
+          sort={query.sort}
+          onSortChange={handleSortChange}
+          filters={query.filters}
+          onFilterChange={handleFilterChange}
+          pagination={{ page: query.page, pageSize: query.pageSize, totalCount: data?.count ?? 0, onPageChange: setPage }}
           searchPlaceholder="Search by report number, analysis type, or technician..."
-          onAdd={handleAdd}
+          onView={(item) => setViewedReport(item)}
+          onAdd={can('create', 'lab_reports') ? handleAdd : undefined}
           addButtonLabel="New Report"
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-          loading={loading}
+          onEdit={can('update', 'lab_reports') ? handleEdit : undefined}
+          onDelete={can('delete', 'lab_reports') ? handleDelete : undefined}
+          canEdit={(item) => can('update', 'lab_reports', item.user_id)}
+          canDelete={(item) => can('delete', 'lab_reports', item.user_id)}
+          highlights={highlights}
+          loading={isLoading}
           emptyMessage="No lab reports found."
+          exportName="Lab Reports"
+          loadExportRows={loadExportRows}
+          fullTextSearch={{
+            active: fullText,
+            onToggle: setFullText,
+            results: fullTextResults.data,
+            loading: fullTextResults.isLoading,
+            placeholder: 'Search lab findings and notes...',
+          }}
         />
 
         <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedReport ? 'Edit Lab Report' : 'New Lab Report'} size="lg">
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <InputField
+              <RecordNumberField
                 label="Report Number"
-                value={formData.report_number}
-                onChange={(e) => setFormData({ ...formData, report_number: e.target.value })}
-                error={errors.report_number}
-                required
-                placeholder="LAB-2024-001"
+                entity="lab_reports"
+                value={selectedReport?.report_number}
+                scope={{ date: formData.date_submitted }}
               />
               <SelectField
                 label="Evidence"
@@ -285,12 +273,7 @@ export default function LabReports() {
                 label="Status"
                 value={formData.status}
                 onChange={(e) => setFormData({ ...formData, status: e.target.value as LabReportFormData['status'] })}
-                options={[
-                  { value: 'pending', label: 'Pending' },
-                  { value: 'in_progress', label: 'In Progress' },
-                  { value: 'completed', label: 'Completed' },
-                  { value: 'inconclusive', label: 'Inconclusive' },
-                ]}
+                options={statusOptions}
                 required
               />
             </div>
@@ -330,12 +313,15 @@ export default function LabReports() {
                 error={errors.date_submitted}
                 required
               />
-              <InputField
-                label="Date Completed"
-                type="date"
-                value={formData.date_completed}
-                onChange={(e) => setFormData({ ...formData, date_completed: e.target.value })}
-              />
+              {!isOpenLabStatus(formData.status) && (
+                <InputField
+                  label="Date Completed"
+                  type="date"
+                  value={formData.date_completed}
+                  onChange={(e) => setFormData({ ...formData, date_completed: e.target.value })}
+                  placeholder="Defaults to today"
+                />
+              )}
             </div>
 
             <TextareaField
@@ -354,6 +340,43 @@ export default function LabReports() {
           </form>
         </Modal>
 
+        <Modal isOpen={!!viewedReport} onClose={closeView} title={`Lab Report - ${viewedReport?.report_number ?? ''}`} size="lg">
+          {viewedReport && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {viewedReport.evidence?.evidence_number ?? '-'} · {viewedReport.analysis_type}
+                </p>
+                <Badge variant={getStatusVariant(viewedReport.status)}>{viewedReport.status.replace('_', ' ')}</Badge>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Lab Technician</p>
+                  <p className="text-sm text-foreground">{viewedReport.lab_tech_name}{viewedReport.lab_name ? ` (${viewedReport.lab_name})` : ''}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Submitted / Completed</p>
+                  <p className="text-sm text-foreground">
+                    {format(parseISO(viewedReport.date_submitted), 'MMM d, yyyy')}
+                    {' / '}
+                    {viewedReport.date_completed ? format(parseISO(viewedReport.date_completed), 'MMM d, yyyy') : '-'}
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-muted-foreground">Analysis Result</h2>
+                <p className="text-sm text-foreground whitespace-pre-wrap">{viewedReport.analysis_result}</p>
+              </div>
+              {viewedReport.notes && (
+                <div className="space-y-2">
+                  <h2 className="text-sm font-semibold text-muted-foreground">Notes</h2>
+                  <p className="text-sm text-foreground whitespace-pre-wrap">{viewedReport.notes}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </Modal>
+
         <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete Lab Report" size="sm">
           <p className="text-muted-foreground mb-6">
             Are you sure you want to delete this lab report? This action cannot be undone.
@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ExternalLink, Network, RotateCcw, Search } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { LinkGraphCanvas, LinkGraphLegend } from '@/components/graph/LinkGraphCanvas';
+import { MIN_SEARCH_LENGTH, useGlobalSearch } from '@/hooks/useSearch';
+import { useGraphNeighborsLoader } from '@/hooks/useLinkGraph';
+import {
+  GraphNode,
+  GraphNodeType,
+  LinkGraph,
+  emptyGraph,
+  filterGraph,
+  findBridges,
+  graphNodeTypeOptions,
+  mergeNeighbors,
+  seedGraph,
+} from '@/lib/linkGraph';
+import { SearchEntity, recordLink, searchEntityLabels } from '@/lib/search';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export default function LinkAnalysis() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const loadNeighbors = useGraphNeighborsLoader();
+  const [graph, setGraph] = useState<LinkGraph>(emptyGraph);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [visibleTypes, setVisibleTypes] = useState<Set<GraphNodeType>>(() => new Set(graphNodeTypeOptions.map((o) => o.value)));
+  const [connectorsOnly, setConnectorsOnly] = useState(false);
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+  const [searchValue, setSearchValue] = useState('');
+  const [term, setTerm] = useState('');
+  const { data: results = [] } = useGlobalSearch(term);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setTerm(searchValue), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchValue]);
+
+  const bridges = useMemo(() => findBridges(graph), [graph]);
+  const visibleGraph = useMemo(() => {
+    const filtered = filterGraph(graph, visibleTypes);
+    if (!connectorsOnly) return filtered;
+    const keep = new Set(filtered.nodes.filter((n) => n.type === 'cases' || bridges.has(n.key)).map((n) => n.key));
+    return {
+      nodes: filtered.nodes.filter((n) => keep.has(n.key)),
+      edges: filtered.edges.filter((e) => keep.has(e.source) && keep.has(e.target)),
+    };
+  }, [graph, visibleTypes, connectorsOnly, bridges]);
+  const selected = graph.nodes.find((node) => node.key === selectedKey) ?? null;
+  const caseLabels = useMemo(() => new Map(graph.nodes.map((n) => [n.key, n.label])), [graph]);
+
+  const expand = useCallback(async (node: GraphNode) => {
+    setLoadingKey(node.key);
+    try {
+      const neighbors = await loadNeighbors(node.type, node.id);
+      // The graph may have been cleared or reseeded while the neighbors were loading
+      setGraph((current) => (current.nodes.some((n) => n.key === node.key) ? mergeNeighbors(current, node.key, neighbors) : current));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to load connections');
+    } finally {
+      setLoadingKey(null);
+    }
+  }, [loadNeighbors]);
+
+  // Set once any record seeds the graph, so the URL startFrom writes never seeds it a second time
+  const seeded = useRef(false);
+
+  const startFrom = useCallback((node: Omit<GraphNode, 'key' | 'expanded'>) => {
+    seeded.current = true;
+    const initial = seedGraph(node);
+    setGraph(initial);
+    setSelectedKey(initial.nodes[0].key);
+    setSearchValue('');
+    setSearchParams({ type: node.type, id: node.id, label: node.label }, { replace: true });
+    expand(initial.nodes[0]);
+  }, [expand, setSearchParams]);
+
+  // Other pages link here with ?type=&id=&label= to start from a record
+  const linkedType = searchParams.get('type') as GraphNodeType | null;
+  const linkedId = searchParams.get('id');
+  const linkedLabel = searchParams.get('label');
+  useEffect(() => {
+    if (seeded.current || !linkedType || !linkedId) return;
+    startFrom({ type: linkedType, id: linkedId, label: linkedLabel ?? linkedId, detail: null });
+  }, [linkedType, linkedId, linkedLabel, startFrom]);
+
+  const handleNodeClick = (node: GraphNode) => {
+    setSelectedKey(node.key);
+    if (!node.expanded) expand(node);
+  };
+
+  const toggleType = (type: GraphNodeType) => {
+    setVisibleTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const connections = selected
+    ? graph.edges
+        .filter((edge) => edge.source === selected.key || edge.target === selected.key)
+        .map((edge) => ({ edge, other: graph.nodes.find((n) => n.key === (edge.source === selected.key ? edge.target : edge.source)) }))
+    : [];
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-2xl font-bold text-foreground">Link Analysis</h1>
+          <p className="text-muted-foreground">Explore how cases, people, evidence, officers and lab reports connect</p>
+        </motion.div>
+
+        <div className="card-forensic p-4 flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <input
+              type="text"
+              value={searchValue}
+              onChange={(e) => setSearchValue(e.target.value)}
+              placeholder="Start from a case, person, evidence item..."
+              className="input-forensic w-full pl-10"
+            />
+            {searchValue.trim().length >= MIN_SEARCH_LENGTH && results.length > 0 && (
+              <ul className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto rounded-md border border-border bg-popover shadow-lg">
+                {results.map((result) => (
+                  <li key={`${result.entity_type}:${result.id}`}>
+                    <button
+                      onClick={() => startFrom({
+                        type: result.entity_type as GraphNodeType,
+                        id: result.id,
+                        label: result.title,
+                        detail: result.subtitle,
+                      })}
+                      className="w-full text-left px-3 py-2 hover:bg-muted transition-colors"
+                    >
+                      <p className="text-sm text-foreground truncate">{result.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {searchEntityLabels[result.entity_type as SearchEntity]}
+                        {result.subtitle && ` · ${result.subtitle}`}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {graphNodeTypeOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => toggleType(option.value)}
+                aria-pressed={visibleTypes.has(option.value)}
+                className={cn(
+                  "px-2.5 py-1 rounded-full text-xs border transition-colors",
+                  visibleTypes.has(option.value)
+                    ? "border-primary/40 bg-primary/10 text-primary"
+                    : "border-border text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-muted-foreground ml-2">
+              <input type="checkbox" checked={connectorsOnly} onChange={(e) => setConnectorsOnly(e.target.checked)} />
+              Cross-case connectors only
+            </label>
+            {graph.nodes.length > 0 && (
+              <button
+                onClick={() => {
+                  setGraph(emptyGraph);
+                  setSelectedKey(null);
+                  setSearchParams({}, { replace: true });
+                }}
+                className="btn-secondary flex items-center gap-2 text-sm ml-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+          <div className="card-forensic xl:col-span-3 h-[600px] relative overflow-hidden">
+            {graph.nodes.length === 0 ? (
+              <div className="h-full flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                <Network className="w-10 h-10" />
+                <p className="text-sm">Search for a record above to start exploring its connections.</p>
+              </div>
+            ) : (
+              <>
+                <LinkGraphCanvas graph={visibleGraph} bridges={bridges} selectedKey={selectedKey} onNodeClick={handleNodeClick} />
+                <div className="absolute left-4 bottom-3">
+                  <LinkGraphLegend types={graphNodeTypeOptions} />
+                </div>
+                <p className="absolute right-4 top-3 text-xs text-muted-foreground">
+                  {loadingKey ? 'Loading connections...' : 'Click a node to expand it · drag to rearrange · scroll to zoom'}
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="card-forensic p-4 space-y-3">
+              <h2 className="text-sm font-semibold text-foreground">Selected</h2>
+              {selected ? (
+                <>
+                  <div>
+                    <p className="text-xs text-muted-foreground">{searchEntityLabels[selected.type]}</p>
+                    <p className="text-sm font-medium text-foreground">{selected.label}</p>
+                    {selected.detail && <p className="text-sm text-muted-foreground">{selected.detail}</p>}
+                  </div>
+                  {bridges.has(selected.key) && (
+                    <p className="text-xs text-destructive">
+                      Connects {bridges.get(selected.key).map((key) => caseLabels.get(key)).join(', ')}
+                    </p>
+                  )}
+                  <Link
+                    to={recordLink(selected.type, selected.id)}
+                    className="text-sm text-primary hover:underline flex items-center gap-1"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    Open record
+                  </Link>
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {connections.map(({ edge, other }) => other && (
+                      <li key={edge.key}>
+                        <button
+                          onClick={() => handleNodeClick(other)}
+                          className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted transition-colors"
+                        >
+                          <span className="text-foreground">{other.label}</span>
+                          <span className="text-xs text-muted-foreground"> · {edge.relation}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing selected.</p>
+              )}
+            </div>
+
+            <div className="card-forensic p-4 space-y-3">
+              <h2 className="text-sm font-semibold text-foreground">Cross-case Connectors</h2>
+              {bridges.size === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  None on the graph yet. Expand people and evidence to look for links between cases.
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {[...bridges.entries()].map(([key, cases]) => {
+                    const node = graph.nodes.find((n) => n.key === key);
+                    return node && (
+                      <li key={key}>
+                        <button
+                          onClick={() => setSelectedKey(key)}
+                          className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted transition-colors"
+                        >
+                          <span className="text-foreground">{node.label}</span>
+                          <span className="text-xs text-muted-foreground"> · {cases.length} cases</span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,31 +1,17 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { DataTable } from '@/components/ui/DataTable';
 import { Modal } from '@/components/ui/Modal';
 import { InputField, SelectField } from '@/components/ui/FormField';
-import { supabase } from '@/integrations/supabase/client';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerTable } from '@/hooks/useServerTable';
+import { useLinkedRecord } from '@/hooks/useLinkedRecord';
+import { Officer, useCreateOfficer, useDeleteOfficer, useOfficerRecord, useOfficers, useOfficersExport, useUpdateOfficer } from '@/hooks/useOfficers';
+import { OfficerFormData, officerSchema } from '@/lib/schemas';
 import { toast } from 'sonner';
-import { z } from 'zod';
-
-const officerSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  rank: z.string().min(1, 'Rank is required'),
-  badge_number: z.string().optional(),
-  contact: z.string().optional(),
-});
-
-type OfficerFormData = z.infer<typeof officerSchema>;
-
-interface Officer {
-  id: string;
-  name: string;
-  rank: string;
-  badge_number: string | null;
-  contact: string | null;
-  created_at: string;
-}
 
 const initialFormData: OfficerFormData = {
   name: '',
@@ -34,6 +20,8 @@ const initialFormData: OfficerFormData = {
   contact: '',
 };
 
+const getActiveCases = (officer: Officer) => officer.cases.filter(c => c.status !== 'closed');
+
 const rankOptions = [
   { value: 'Officer', label: 'Officer' },
   { value: 'Detective', label: 'Detective' },
@@ -46,46 +34,27 @@ const rankOptions = [
 ];
 
 export default function Officers() {
-  const { user } = useAuth();
-  const [officers, setOfficers] = useState<Officer[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchValue, setSearchValue] = useState('');
+  const { can } = useAuth();
+  const { query, searchValue, setSearchValue, setPage, handleSortChange, handleFilterChange } = useServerTable({
+    column: 'name',
+    ascending: true,
+  });
+  const { data, isLoading, isError } = useOfficers(query);
+  const loadExportRows = useOfficersExport(query);
+  const createOfficer = useCreateOfficer();
+  const updateOfficer = useUpdateOfficer();
+  const deleteOfficer = useDeleteOfficer();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isCaseloadModalOpen, setIsCaseloadModalOpen] = useState(false);
   const [selectedOfficer, setSelectedOfficer] = useState<Officer | null>(null);
   const [formData, setFormData] = useState<OfficerFormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submitting, setSubmitting] = useState(false);
+  const submitting = createOfficer.isPending || updateOfficer.isPending;
 
   useEffect(() => {
-    fetchOfficers();
-  }, []);
-
-  const fetchOfficers = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('officers')
-        .select('*')
-        .order('name');
-
-      if (error) throw error;
-      setOfficers(data || []);
-    } catch (error) {
-      toast.error('Failed to fetch officers');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filteredOfficers = useMemo(() => {
-    if (!searchValue) return officers;
-    const search = searchValue.toLowerCase();
-    return officers.filter(o =>
-      o.name.toLowerCase().includes(search) ||
-      o.rank.toLowerCase().includes(search) ||
-      o.badge_number?.toLowerCase().includes(search)
-    );
-  }, [officers, searchValue]);
+    if (isError) toast.error('Failed to fetch officers');
+  }, [isError]);
 
   const handleAdd = () => {
     setSelectedOfficer(null);
@@ -106,6 +75,17 @@ export default function Officers() {
     setIsModalOpen(true);
   };
 
+  const handleView = useCallback((item: Officer) => {
+    setSelectedOfficer(item);
+    setIsCaseloadModalOpen(true);
+  }, []);
+  const closeLinkedRecord = useLinkedRecord(useOfficerRecord, handleView, 'Officer not found');
+
+  const closeCaseload = () => {
+    setIsCaseloadModalOpen(false);
+    closeLinkedRecord();
+  };
+
   const handleDelete = (item: Officer) => {
     setSelectedOfficer(item);
     setIsDeleteModalOpen(true);
@@ -114,16 +94,10 @@ export default function Officers() {
   const confirmDelete = async () => {
     if (!selectedOfficer) return;
     try {
-      const { data, error } = await supabase.from('officers').delete().eq('id', selectedOfficer.id).select();
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        toast.error('Permission denied: you can only delete your own records');
-      } else {
-        toast.success('Officer deleted successfully');
-      }
-      fetchOfficers();
+      await deleteOfficer.mutateAsync(selectedOfficer.id);
+      toast.success('Officer deleted successfully');
     } catch (error) {
-      toast.error('Failed to delete officer');
+      toast.error((error as Error).message || 'Failed to delete officer');
     } finally {
       setIsDeleteModalOpen(false);
       setSelectedOfficer(null);
@@ -144,7 +118,6 @@ export default function Officers() {
       return;
     }
 
-    setSubmitting(true);
     try {
       const payload = {
         name: formData.name,
@@ -154,28 +127,24 @@ export default function Officers() {
       };
 
       if (selectedOfficer) {
-        const { error } = await supabase.from('officers').update(payload).eq('id', selectedOfficer.id);
-        if (error) throw error;
+        await updateOfficer.mutateAsync({ id: selectedOfficer.id, values: payload });
         toast.success('Officer updated successfully');
       } else {
-        const { error } = await supabase.from('officers').insert([{ ...payload, user_id: user?.id }]);
-        if (error) throw error;
+        await createOfficer.mutateAsync(payload);
         toast.success('Officer added successfully');
       }
       setIsModalOpen(false);
-      fetchOfficers();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save officer');
-    } finally {
-      setSubmitting(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save officer');
     }
   };
 
   const columns = [
-    { key: 'name', header: 'Name' },
-    { key: 'rank', header: 'Rank' },
-    { key: 'badge_number', header: 'Badge #', render: (item: Officer) => item.badge_number || '-' },
+    { key: 'name', header: 'Name', sortable: true },
+    { key: 'rank', header: 'Rank', sortable: true, filter: { options: rankOptions } },
+    { key: 'badge_number', header: 'Badge #', sortable: true, render: (item: Officer) => item.badge_number || '-' },
     { key: 'contact', header: 'Contact', render: (item: Officer) => item.contact || '-' },
+    { key: 'active_cases', header: 'Active Cases', render: (item: Officer) => getActiveCases(item).length },
   ];
 
   return (
@@ -188,16 +157,24 @@ export default function Officers() {
 
         <DataTable
           columns={columns}
-          data={filteredOfficers}
+          data={data?.rows ?? []}
           searchValue={searchValue}
           onSearchChange={setSearchValue}
+          sort={query.sort}
+          onSortChange={handleSortChange}
+          filters={query.filters}
+          onFilterChange={handleFilterChange}
+          pagination={{ page: query.page, pageSize: query.pageSize, totalCount: data?.count ?? 0, onPageChange: setPage }}
           searchPlaceholder="Search by name, rank, or badge number..."
-          onAdd={handleAdd}
+          onAdd={can('create', 'officers') ? handleAdd : undefined}
           addButtonLabel="Add Officer"
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-          loading={loading}
+          onView={handleView}
+          onEdit={can('update', 'officers') ? handleEdit : undefined}
+          onDelete={can('delete', 'officers') ? handleDelete : undefined}
+          loading={isLoading}
           emptyMessage="No officers found."
+          exportName="Officers"
+          loadExportRows={loadExportRows}
         />
 
         <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedOfficer ? 'Edit Officer' : 'Add Officer'} size="md">
@@ -244,6 +221,36 @@ export default function Officers() {
           </form>
         </Modal>
 
+        <Modal
+          isOpen={isCaseloadModalOpen}
+          onClose={closeCaseload}
+          title={`Active Caseload - ${selectedOfficer?.name ?? ''}`}
+          size="lg"
+        >
+          {selectedOfficer && getActiveCases(selectedOfficer).length === 0 ? (
+            <p className="text-muted-foreground text-sm py-4">No active cases assigned.</p>
+          ) : (
+            <div className="space-y-2">
+              {selectedOfficer && getActiveCases(selectedOfficer).map((c) => (
+                <Link
+                  key={c.id}
+                  to={`/cases/${c.id}`}
+                  className="flex items-center justify-between p-3 border border-border rounded-md hover:bg-muted transition-colors"
+                >
+                  <div>
+                    <p className="text-xs text-muted-foreground">{c.case_number}</p>
+                    <p className="text-sm font-medium text-foreground">{c.title}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={getStatusVariant(c.status)}>{c.status.replace('_', ' ')}</Badge>
+                    <Badge variant={getStatusVariant(c.priority)}>{c.priority}</Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </Modal>
+
         <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete Officer" size="sm">
           <p className="text-muted-foreground mb-6">
             Are you sure you want to delete "{selectedOfficer?.name}"? This action cannot be undone.
@@ -0,0 +1,335 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowRight, Camera, CameraOff, ExternalLink, MapPin, ScanBarcode } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
+import { CameraScanner } from '@/components/evidence/CameraScanner';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfileNames } from '@/hooks/useProfiles';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import { useCustodyEvents, useEvidenceRecord, useEvidenceScanLoader, useRecordCustodyEvent, useUpdateEvidence } from '@/hooks/useEvidence';
+import { parseEvidenceScan } from '@/lib/evidenceLabels';
+import { CustodyQuickAction, PROPERTY_ROOM, ScannedItem, custodyQuickActions, quickTransfer, rememberScan } from '@/lib/propertyRoom';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+
+const statusOptions = [
+  { value: 'in_storage', label: 'In Storage' },
+  { value: 'in_lab', label: 'In Lab' },
+  { value: 'released', label: 'Released' },
+  { value: 'disposed', label: 'Disposed' },
+];
+
+// The first click picks an action, the second confirms it
+type PendingAction = { kind: 'custody'; action: CustodyQuickAction } | { kind: 'status'; status: string };
+
+export default function PropertyRoom() {
+  const { user, can } = useAuth();
+  const { data: profileNames } = useProfileNames();
+  const loadScan = useEvidenceScanLoader();
+  const recordCustodyEvent = useRecordCustodyEvent();
+  const updateEvidence = useUpdateEvidence();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [scanValue, setScanValue] = useState('');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [looking, setLooking] = useState(false);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScannedItem[]>([]);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const { data: item, isError } = useEvidenceRecord(currentId);
+  const { data: custody = [] } = useCustodyEvents(currentId ?? '');
+  useRealtimeChanges(['evidence']);
+
+  const currentUser = (user && profileNames?.get(user.id)) || user?.email || 'Unknown user';
+  const lastEvent = custody[custody.length - 1];
+  const saving = recordCustodyEvent.isPending || updateEvidence.isPending;
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch evidence');
+  }, [isError]);
+
+  const focusScanner = () => inputRef.current?.focus();
+
+  const choose = (action: PendingAction | null) => {
+    setPending(action);
+    setRecipient('');
+  };
+
+  const handleScan = async (text: string) => {
+    const scan = parseEvidenceScan(text);
+    setScanValue('');
+    if (!scan) {
+      toast.error('That code is not an evidence label');
+      return;
+    }
+    setLooking(true);
+    try {
+      const found = await loadScan(scan);
+      if (!found) {
+        toast.error(`No evidence matches "${scan.evidenceNumber ?? scan.id}"`);
+        return;
+      }
+      setCurrentId(found.id);
+      choose(null);
+      setHistory((prev) => rememberScan(prev, { id: found.id, evidence_number: found.evidence_number, scannedAt: new Date().toISOString() }));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to look up evidence');
+    } finally {
+      setLooking(false);
+      focusScanner();
+    }
+  };
+
+  // Keyboard-wedge scanners type the code and press Enter
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scanValue.trim()) handleScan(scanValue);
+  };
+
+  const transfer = pending?.kind === 'custody' && item
+    ? quickTransfer(pending.action, { lastHolder: lastEvent?.received_by ?? null, currentUser, storageLocation: item.storage_location, recipient })
+    : null;
+
+  const confirmPending = async () => {
+    if (!item || !pending) return;
+    try {
+      if (transfer) {
+        await recordCustodyEvent.mutateAsync({ evidence_id: item.id, transferred_at: new Date().toISOString(), notes: null, ...transfer });
+        toast.success(`${item.evidence_number}: custody transferred to ${transfer.received_by}`);
+      } else if (pending.kind === 'status') {
+        await updateEvidence.mutateAsync({ id: item.id, values: { status: pending.status } });
+        toast.success(`${item.evidence_number} is now ${pending.status.replace('_', ' ')}`);
+      }
+      choose(null);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update evidence');
+    } finally {
+      focusScanner();
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-2xl font-bold text-foreground">Property Room</h1>
+          <p className="text-muted-foreground">Scan evidence labels to check items in and out</p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <div className="card-forensic p-4 space-y-4">
+              <form onSubmit={handleSubmit} className="flex gap-2">
+                <div className="relative flex-1">
+                  <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <input
+                    ref={inputRef}
+                    autoFocus
+                    value={scanValue}
+                    onChange={(e) => setScanValue(e.target.value)}
+                    placeholder="Scan a label or type an evidence number"
+                    className="input-forensic w-full pl-10 font-mono"
+                  />
+                </div>
+                <button type="submit" disabled={looking || !scanValue.trim()} className="btn-primary text-sm">
+                  {looking ? 'Looking...' : 'Look Up'}
+                </button>
+              </form>
+              <button
+                onClick={() => setCameraOn(!cameraOn)}
+                className="btn-secondary text-sm w-full flex items-center justify-center gap-2"
+              >
+                {cameraOn ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+                {cameraOn ? 'Stop Camera' : 'Scan with Camera'}
+              </button>
+              {cameraOn && <CameraScanner onScan={handleScan} />}
+            </div>
+
+            <div className="card-forensic p-4 space-y-3">
+              <h2 className="text-sm font-semibold text-foreground">Scanned This Session</h2>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing scanned yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {history.map((entry) => (
+                    <li key={entry.id}>
+                      <button
+                        onClick={() => {
+                          setCurrentId(entry.id);
+                          choose(null);
+                        }}
+                        className={cn(
+                          "w-full flex items-center justify-between text-left text-sm px-2 py-1 rounded transition-colors",
+                          entry.id === currentId ? "bg-primary/10 text-primary" : "hover:bg-muted text-foreground"
+                        )}
+                      >
+                        <span className="font-mono">{entry.evidence_number}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(entry.scannedAt), { addSuffix: true })}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            {!item ? (
+              <div className="card-forensic h-full min-h-[320px] flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                <ScanBarcode className="w-10 h-10" />
+                <p className="text-sm">Scan an evidence label to see the item.</p>
+              </div>
+            ) : (
+              <motion.div key={item.id} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="card-forensic p-6 space-y-6">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-2xl font-bold font-mono text-foreground">{item.evidence_number}</p>
+                    <p className="text-sm text-foreground">{item.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      <Link to={`/cases/${item.case_id}`} className="hover:text-primary">{item.cases?.case_number}</Link>
+                      {' · '}{item.type}
+                      {' · '}collected {format(parseISO(item.date_collected), 'MMM d, yyyy')}
+                      {item.collected_by && ` by ${item.collected_by}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge>
+                    <Link
+                      to={`/evidence?record=${item.id}`}
+                      className="text-sm text-primary hover:underline flex items-center gap-1"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      Full record
+                    </Link>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="p-4 rounded-md border border-border bg-muted/30">
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      Storage location
+                    </p>
+                    <p className="text-xl font-semibold text-foreground">{item.storage_location || 'Not recorded'}</p>
+                  </div>
+                  <div className="p-4 rounded-md border border-border bg-muted/30">
+                    <p className="text-xs text-muted-foreground">Current custodian</p>
+                    <p className="text-xl font-semibold text-foreground">{lastEvent?.received_by ?? PROPERTY_ROOM}</p>
+                    {lastEvent && (
+                      <p className="text-xs text-muted-foreground">
+                        since {format(new Date(lastEvent.transferred_at), 'MMM d, yyyy HH:mm')} · {lastEvent.location}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {can('create', 'custody') && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-foreground">Custody</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {custodyQuickActions.map((action) => (
+                        <button
+                          key={action.value}
+                          onClick={() => choose({ kind: 'custody', action: action.value })}
+                          className={cn(
+                            "btn-secondary text-sm",
+                            pending?.kind === 'custody' && pending.action === action.value && "ring-2 ring-primary"
+                          )}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {can('update', 'evidence', item.user_id) && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-foreground">Status</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {statusOptions.map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => choose({ kind: 'status', status: option.value })}
+                          disabled={option.value === item.status}
+                          className={cn(
+                            "btn-secondary text-sm disabled:opacity-50",
+                            pending?.kind === 'status' && pending.status === option.value && "ring-2 ring-primary"
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {pending && (
+                  <div className="p-4 rounded-md border border-primary/40 bg-primary/5 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    {pending.kind === 'custody' ? (
+                      <div className="flex-1 space-y-2">
+                        {pending.action === 'check_out' && (
+                          <input
+                            autoFocus
+                            value={recipient}
+                            onChange={(e) => setRecipient(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && transfer && confirmPending()}
+                            placeholder="Who is taking the item?"
+                            className="input-forensic w-full md:max-w-xs"
+                          />
+                        )}
+                        {transfer && (
+                          <p className="text-sm text-foreground flex flex-wrap items-center gap-1">
+                            {transfer.released_by}
+                            <ArrowRight className="w-3 h-3" />
+                            {transfer.received_by}
+                            <span className="text-muted-foreground">
+                              at {transfer.location} · {transfer.purpose}, signed by {transfer.signature === currentUser ? 'you' : transfer.signature}
+                            </span>
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-foreground flex flex-wrap items-center gap-1">
+                        {item.status.replace('_', ' ')}
+                        <ArrowRight className="w-3 h-3" />
+                        {pending.kind === 'status' && pending.status.replace('_', ' ')}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <button onClick={() => choose(null)} className="btn-secondary text-sm">Cancel</button>
+                      <button onClick={confirmPending} disabled={saving || (pending.kind === 'custody' && !transfer)} className="btn-primary text-sm">
+                        {saving ? 'Saving...' : 'Confirm'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {custody.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-foreground">Recent Transfers</h3>
+                    <ul className="space-y-1">
+                      {custody.slice(-3).reverse().map((event) => (
+                        <li key={event.id} className="text-sm text-muted-foreground flex flex-wrap items-center gap-1">
+                          <span className="text-foreground">{event.released_by}</span>
+                          <ArrowRight className="w-3 h-3" />
+                          <span className="text-foreground">{event.received_by}</span>
+                          · {event.purpose} · {format(new Date(event.transferred_at), 'MMM d, HH:mm')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </motion.div>
+            )}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
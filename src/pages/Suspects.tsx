@@ -1,114 +1,105 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { DataTable } from '@/components/ui/DataTable';
 import { Modal } from '@/components/ui/Modal';
 import { InputField, SelectField, TextareaField } from '@/components/ui/FormField';
 import { Badge, getStatusVariant } from '@/components/ui/StatusBadge';
-import { supabase } from '@/integrations/supabase/client';
+import { LinkedCases } from '@/components/suspects/LinkedCases';
+import { EvidenceLinks } from '@/components/evidence/EvidenceLinks';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerTable } from '@/hooks/useServerTable';
+import { useLinkedRecord } from '@/hooks/useLinkedRecord';
+import { useRealtimeChanges } from '@/hooks/useRealtime';
+import {
+  Suspect,
+  useCreateSuspect,
+  useDeleteSuspect,
+  useDuplicatePeopleCheck,
+  useLinkCase,
+  useSuspectRecord,
+  useSuspects,
+  useSuspectsExport,
+  useSuspectsFullTextSearch,
+  useUpdateSuspect,
+} from '@/hooks/useSuspects';
+import { useCaseOptions } from '@/hooks/useCases';
+import { involvementRoleOptions } from '@/lib/people';
+import { personSchema } from '@/lib/schemas';
 import { toast } from 'sonner';
-import { z } from 'zod';
-
-const suspectSchema = z.object({
-  case_id: z.string().min(1, 'Case is required'),
-  name: z.string().min(1, 'Name is required'),
-  age: z.number().min(0).max(150).optional().nullable(),
-  gender: z.string().optional(),
-  address: z.string().optional(),
-  phone: z.string().optional(),
-  description: z.string().optional(),
-  status: z.enum(['suspect', 'person_of_interest', 'cleared', 'arrested']),
-});
-
-type SuspectFormData = {
-  case_id: string;
+
+type PersonFormData = {
   name: string;
   age: string;
   gender: string;
   address: string;
   phone: string;
   description: string;
-  status: 'suspect' | 'person_of_interest' | 'cleared' | 'arrested';
-};
-
-interface Suspect {
-  id: string;
   case_id: string;
-  name: string;
-  age: number | null;
-  gender: string | null;
-  address: string | null;
-  phone: string | null;
-  description: string | null;
-  status: string;
-  created_at: string;
-  cases?: { case_number: string; title: string };
-}
-
-interface Case {
-  id: string;
-  case_number: string;
-  title: string;
-}
+  role: 'suspect' | 'person_of_interest' | 'witness' | 'associate';
+};
 
-const initialFormData: SuspectFormData = {
-  case_id: '',
+const initialFormData: PersonFormData = {
   name: '',
   age: '',
   gender: '',
   address: '',
   phone: '',
   description: '',
-  status: 'suspect',
+  case_id: '',
+  role: 'suspect',
 };
 
+const genderOptions = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'other', label: 'Other' },
+];
+
+const MAX_CASE_BADGES = 3;
+
 export default function Suspects() {
-  const { user } = useAuth();
-  const [suspects, setSuspects] = useState<Suspect[]>([]);
-  const [cases, setCases] = useState<Case[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchValue, setSearchValue] = useState('');
+  const { user, can } = useAuth();
+  const { query, searchValue, setSearchValue, fullText, setFullText, setPage, handleSortChange, handleFilterChange } = useServerTable({
+    column: 'created_at',
+    ascending: false,
+  });
+  const { data, isLoading, isError } = useSuspects(query);
+  const loadExportRows = useSuspectsExport(query);
+  const fullTextResults = useSuspectsFullTextSearch(fullText ? query.search : '');
+  const highlights = useRealtimeChanges(['suspects', 'case_involvements']);
+  const { data: cases = [] } = useCaseOptions();
+  const createSuspect = useCreateSuspect();
+  const updateSuspect = useUpdateSuspect();
+  const deleteSuspect = useDeleteSuspect();
+  const linkCase = useLinkCase();
+  const findDuplicates = useDuplicatePeopleCheck();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [viewedPerson, setViewedPerson] = useState<Suspect | null>(null);
+  const [duplicates, setDuplicates] = useState<Suspect[]>([]);
   const [selectedSuspect, setSelectedSuspect] = useState<Suspect | null>(null);
-  const [formData, setFormData] = useState<SuspectFormData>(initialFormData);
+  const [formData, setFormData] = useState<PersonFormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [submitting, setSubmitting] = useState(false);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const submitting = checkingDuplicates || createSuspect.isPending || updateSuspect.isPending || linkCase.isPending;
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (isError) toast.error('Failed to fetch people');
+  }, [isError]);
 
-  const fetchData = async () => {
-    try {
-      const [suspectsRes, casesRes] = await Promise.all([
-        supabase.from('suspects').select('*, cases(case_number, title)').order('created_at', { ascending: false }),
-        supabase.from('cases').select('id, case_number, title').order('case_number'),
-      ]);
+  useEffect(() => {
+    if (fullTextResults.isError) toast.error('Failed to search people');
+  }, [fullTextResults.isError]);
 
-      if (suspectsRes.error) throw suspectsRes.error;
-      if (casesRes.error) throw casesRes.error;
+  const closeLinkedRecord = useLinkedRecord(useSuspectRecord, setViewedPerson, 'Person not found');
 
-      setSuspects(suspectsRes.data || []);
-      setCases(casesRes.data || []);
-    } catch (error) {
-      toast.error('Failed to fetch suspects');
-    } finally {
-      setLoading(false);
-    }
+  const closeView = () => {
+    setViewedPerson(null);
+    closeLinkedRecord();
   };
 
-  const filteredSuspects = useMemo(() => {
-    if (!searchValue) return suspects;
-    const search = searchValue.toLowerCase();
-    return suspects.filter(s =>
-      s.name.toLowerCase().includes(search) ||
-      s.cases?.case_number.toLowerCase().includes(search) ||
-      s.address?.toLowerCase().includes(search)
-    );
-  }, [suspects, searchValue]);
-
   const handleAdd = () => {
     setSelectedSuspect(null);
     setFormData(initialFormData);
@@ -119,14 +110,13 @@ export default function Suspects() {
   const handleEdit = (item: Suspect) => {
     setSelectedSuspect(item);
     setFormData({
-      case_id: item.case_id,
+      ...initialFormData,
       name: item.name,
       age: item.age?.toString() || '',
       gender: item.gender || '',
       address: item.address || '',
       phone: item.phone || '',
       description: item.description || '',
-      status: item.status as SuspectFormData['status'],
     });
     setErrors({});
     setIsModalOpen(true);
@@ -140,22 +130,58 @@ export default function Suspects() {
   const confirmDelete = async () => {
     if (!selectedSuspect) return;
     try {
-      const { data, error } = await supabase.from('suspects').delete().eq('id', selectedSuspect.id).select();
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        toast.error('Permission denied: you can only delete your own records');
-      } else {
-        toast.success('Suspect deleted successfully');
-      }
-      fetchData();
+      await deleteSuspect.mutateAsync(selectedSuspect.id);
+      toast.success('Person deleted successfully');
     } catch (error) {
-      toast.error('Failed to delete suspect');
+      toast.error((error as Error).message || 'Failed to delete person');
     } finally {
       setIsDeleteModalOpen(false);
       setSelectedSuspect(null);
     }
   };
 
+  const savePerson = async () => {
+    const payload = {
+      name: formData.name.trim(),
+      age: formData.age ? parseInt(formData.age) : null,
+      gender: formData.gender || null,
+      address: formData.address || null,
+      phone: formData.phone || null,
+      description: formData.description || null,
+    };
+
+    try {
+      if (selectedSuspect) {
+        await updateSuspect.mutateAsync({ id: selectedSuspect.id, values: payload });
+        toast.success('Person updated successfully');
+      } else {
+        const suspectId = await createSuspect.mutateAsync(payload);
+        if (formData.case_id) {
+          try {
+            await linkCase.mutateAsync({ suspect_id: suspectId, case_id: formData.case_id, role: formData.role });
+          } catch (linkError) {
+            // The person is already saved, so carry on as an edit; saving again must not add them twice
+            setSelectedSuspect({
+              ...payload,
+              id: suspectId,
+              user_id: user?.id as string,
+              created_at: new Date().toISOString(),
+              case_involvements: [],
+            });
+            setDuplicates([]);
+            toast.error(`Person saved, but linking the case failed: ${(linkError as Error).message}`);
+            return;
+          }
+        }
+        toast.success('Person added successfully');
+      }
+      setDuplicates([]);
+      setIsModalOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save person');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
@@ -165,7 +191,7 @@ export default function Suspects() {
       age: formData.age ? parseInt(formData.age) : null,
     };
 
-    const result = suspectSchema.safeParse(dataToValidate);
+    const result = personSchema.safeParse(dataToValidate);
     if (!result.success) {
       const fieldErrors: Record<string, string> = {};
       result.error.errors.forEach((err) => {
@@ -175,90 +201,111 @@ export default function Suspects() {
       return;
     }
 
-    setSubmitting(true);
-    try {
-      const payload = {
-        case_id: formData.case_id,
-        name: formData.name,
-        age: formData.age ? parseInt(formData.age) : null,
-        gender: formData.gender || null,
-        address: formData.address || null,
-        phone: formData.phone || null,
-        description: formData.description || null,
-        status: formData.status,
-      };
-
-      if (selectedSuspect) {
-        const { error } = await supabase.from('suspects').update(payload).eq('id', selectedSuspect.id);
-        if (error) throw error;
-        toast.success('Suspect updated successfully');
-      } else {
-        const { error } = await supabase.from('suspects').insert([{ ...payload, user_id: user?.id }]);
-        if (error) throw error;
-        toast.success('Suspect added successfully');
+    if (!selectedSuspect) {
+      setCheckingDuplicates(true);
+      try {
+        const matches = await findDuplicates(formData.name, formData.phone);
+        if (matches.length > 0) {
+          setDuplicates(matches);
+          return;
+        }
+      } catch (error) {
+        toast.error((error as Error).message || 'Failed to check for duplicates');
+        return;
+      } finally {
+        setCheckingDuplicates(false);
       }
-      setIsModalOpen(false);
-      fetchData();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save suspect');
-    } finally {
-      setSubmitting(false);
     }
+
+    await savePerson();
+  };
+
+  const openExisting = (person: Suspect) => {
+    setDuplicates([]);
+    setIsModalOpen(false);
+    setViewedPerson(person);
+  };
+
+  const renderLinkedCases = (item: Suspect) => {
+    if (item.case_involvements.length === 0) return '-';
+    const shown = item.case_involvements.slice(0, MAX_CASE_BADGES);
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {shown.map((involvement) => (
+          <Badge key={involvement.id} variant={getStatusVariant(involvement.status)}>
+            {involvement.cases?.case_number}
+          </Badge>
+        ))}
+        {item.case_involvements.length > MAX_CASE_BADGES && (
+          <span className="text-xs text-muted-foreground">+{item.case_involvements.length - MAX_CASE_BADGES}</span>
+        )}
+      </div>
+    );
   };
 
   const columns = [
-    { key: 'name', header: 'Name' },
-    { key: 'age', header: 'Age', render: (item: Suspect) => item.age || '-' },
-    { key: 'gender', header: 'Gender', render: (item: Suspect) => item.gender || '-' },
-    { key: 'case', header: 'Case', render: (item: Suspect) => item.cases?.case_number || '-' },
-    { key: 'status', header: 'Status', render: (item: Suspect) => (
-      <Badge variant={getStatusVariant(item.status)}>{item.status.replace('_', ' ')}</Badge>
-    )},
+    { key: 'name', header: 'Name', sortable: true },
+    { key: 'age', header: 'Age', sortable: true, render: (item: Suspect) => item.age || '-' },
+    { key: 'gender', header: 'Gender', filter: { options: genderOptions }, render: (item: Suspect) => item.gender || '-' },
     { key: 'phone', header: 'Contact', render: (item: Suspect) => item.phone || '-' },
+    {
+      key: 'linked_cases',
+      header: 'Linked Cases',
+      render: renderLinkedCases,
+      exportValue: (item: Suspect) => item.case_involvements.map((involvement) => involvement.cases?.case_number).join(', '),
+    },
   ];
 
   return (
     <MainLayout>
       <div className="space-y-6">
         <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
-          <h1 className="text-2xl font-bold text-foreground">Suspect Management</h1>
-          <p className="text-muted-foreground">Manage suspects and persons of interest</p>
+          <h1 className="text-2xl font-bold text-foreground">Person Directory</h1>
+          <p className="text-muted-foreground">Suspects, witnesses and everyone else linked to cases</p>
         </motion.div>
 
         <DataTable
           columns={columns}
-          data={filteredSuspects}
+          data={data?.rows ?? []}
           searchValue={searchValue}
           onSearchChange={setSearchValue}
-          searchPlaceholder="Search by name, case, or address..."
-          onAdd={handleAdd}
-          addButtonLabel="Add Suspect"
-          onEdit={handleEdit}
-          onDelete={handleDelete}
-          loading={loading}
-          emptyMessage="No suspects found."
+          sort={query.sort}
+          onSortChange={handleSortChange}
+          filters={query.filters}
+          onFilterChange={handleFilterChange}
+          pagination={{ page: query.page, pageSize: query.pageSize, totalCount: data?.count ?? 0, onPageChange: setPage }}
+          searchPlaceholder="Search by name, address, or phone..."
+          onAdd={can('create', 'suspects') ? handleAdd : undefined}
+          addButtonLabel="Add Person"
+          onView={(item) => setViewedPerson(item)}
+          onEdit={can('update', 'suspects') ? handleEdit : undefined}
+          onDelete={can('delete', 'suspects') ? handleDelete : undefined}
+          canEdit={(item) => can('update', 'suspects', item.user_id)}
+          canDelete={(item) => can('delete', 'suspects', item.user_id)}
+          highlights={highlights}
+          loading={isLoading}
+          emptyMessage="No people found."
+          exportName="People"
+          loadExportRows={loadExportRows}
+          fullTextSearch={{
+            active: fullText,
+            onToggle: setFullText,
+            results: fullTextResults.data,
+            loading: fullTextResults.isLoading,
+            placeholder: 'Search person descriptions...',
+          }}
         />
 
-        <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedSuspect ? 'Edit Suspect' : 'Add Suspect'} size="lg">
+        <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={selectedSuspect ? 'Edit Person' : 'Add Person'} size="lg">
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <InputField
-                label="Name"
-                value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                error={errors.name}
-                required
-                placeholder="Full name..."
-              />
-              <SelectField
-                label="Case"
-                value={formData.case_id}
-                onChange={(e) => setFormData({ ...formData, case_id: e.target.value })}
-                options={cases.map(c => ({ value: c.id, label: `${c.case_number} - ${c.title}` }))}
-                error={errors.case_id}
-                required
-              />
-            </div>
+            <InputField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              error={errors.name}
+              required
+              placeholder="Full name..."
+            />
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <InputField
@@ -273,34 +320,17 @@ export default function Suspects() {
                 label="Gender"
                 value={formData.gender}
                 onChange={(e) => setFormData({ ...formData, gender: e.target.value })}
-                options={[
-                  { value: 'male', label: 'Male' },
-                  { value: 'female', label: 'Female' },
-                  { value: 'other', label: 'Other' },
-                ]}
+                options={genderOptions}
               />
-              <SelectField
-                label="Status"
-                value={formData.status}
-                onChange={(e) => setFormData({ ...formData, status: e.target.value as SuspectFormData['status'] })}
-                options={[
-                  { value: 'suspect', label: 'Suspect' },
-                  { value: 'person_of_interest', label: 'Person of Interest' },
-                  { value: 'cleared', label: 'Cleared' },
-                  { value: 'arrested', label: 'Arrested' },
-                ]}
-                required
+              <InputField
+                label="Phone"
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                placeholder="Contact number..."
               />
             </div>
 
-            <InputField
-              label="Phone"
-              type="tel"
-              value={formData.phone}
-              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-              placeholder="Contact number..."
-            />
-
             <InputField
               label="Address"
               value={formData.address}
@@ -315,18 +345,76 @@ export default function Suspects() {
               placeholder="Physical description and notes..."
             />
 
+            {!selectedSuspect && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SelectField
+                  label="Link to Case"
+                  value={formData.case_id}
+                  onChange={(e) => setFormData({ ...formData, case_id: e.target.value })}
+                  options={cases.map(c => ({ value: c.id, label: `${c.case_number} - ${c.title}` }))}
+                />
+                <SelectField
+                  label="Role in Case"
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as PersonFormData['role'] })}
+                  options={involvementRoleOptions}
+                  disabled={!formData.case_id}
+                />
+              </div>
+            )}
+
             <div className="flex justify-end gap-3 pt-4">
               <button type="button" onClick={() => setIsModalOpen(false)} className="btn-secondary">Cancel</button>
               <button type="submit" disabled={submitting} className="btn-primary">
-                {submitting ? 'Saving...' : selectedSuspect ? 'Update' : 'Add Suspect'}
+                {submitting ? 'Saving...' : selectedSuspect ? 'Update' : 'Add Person'}
               </button>
             </div>
           </form>
         </Modal>
 
-        <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete Suspect" size="sm">
+        <Modal isOpen={duplicates.length > 0} onClose={() => setDuplicates([])} title="Possible Duplicate" size="md">
+          <div className="space-y-4">
+            <div className="flex items-start gap-2 text-warning">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <p className="text-sm">
+                Someone with this name and phone number is already on file. Open the existing record and link it to
+                your case instead of creating a second one.
+              </p>
+            </div>
+            <ul className="space-y-2">
+              {duplicates.map((person) => (
+                <li key={person.id} className="p-3 border border-border rounded-md flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{person.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {person.phone} · {person.case_involvements.length} linked case{person.case_involvements.length === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <button onClick={() => openExisting(person)} className="btn-primary text-sm">Open Existing</button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setDuplicates([])} className="btn-secondary">Back</button>
+              <button onClick={savePerson} disabled={submitting} className="btn-secondary">Create Anyway</button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal isOpen={!!viewedPerson} onClose={closeView} title={viewedPerson?.name ?? ''} size="xl">
+          {viewedPerson && (
+            <div className="space-y-6">
+              <LinkedCases suspectId={viewedPerson.id} />
+              <div className="border-t border-border pt-6">
+                <EvidenceLinks suspectId={viewedPerson.id} />
+              </div>
+            </div>
+          )}
+        </Modal>
+
+        <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete Person" size="sm">
           <p className="text-muted-foreground mb-6">
-            Are you sure you want to delete "{selectedSuspect?.name}"? This action cannot be undone.
+            Are you sure you want to delete "{selectedSuspect?.name}"? This removes them from every linked case and cannot be undone.
           </p>
           <div className="flex justify-end gap-3">
             <button onClick={() => setIsDeleteModalOpen(false)} className="btn-secondary">Cancel</button>
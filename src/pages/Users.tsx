@@ -0,0 +1,96 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { DataTable } from '@/components/ui/DataTable';
+import { RecordNumbering } from '@/components/settings/RecordNumbering';
+import { useAuth } from '@/hooks/useAuth';
+import { Profile, useProfiles, useUpdateProfileRole } from '@/hooks/useProfiles';
+import { AppRole, roleLabels } from '@/lib/permissions';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+const roleOptions = Object.entries(roleLabels).map(([value, label]) => ({ value, label }));
+
+export default function Users() {
+  const { user, can, loading: authLoading } = useAuth();
+  const { data: profiles = [], isLoading, isError } = useProfiles();
+  const updateRole = useUpdateProfileRole();
+  const [searchValue, setSearchValue] = useState('');
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to fetch users');
+  }, [isError]);
+
+  const filteredProfiles = useMemo(() => {
+    if (!searchValue) return profiles;
+    const search = searchValue.toLowerCase();
+    return profiles.filter(p =>
+      p.full_name?.toLowerCase().includes(search) ||
+      roleLabels[p.role as AppRole]?.toLowerCase().includes(search)
+    );
+  }, [profiles, searchValue]);
+
+  const handleRoleChange = async (profile: Profile, role: AppRole) => {
+    try {
+      await updateRole.mutateAsync({ id: profile.id, role });
+      toast.success(`${profile.full_name || 'User'} is now ${roleLabels[role]}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update role');
+    }
+  };
+
+  if (!authLoading && !can('update', 'users')) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const columns = [
+    { key: 'full_name', header: 'Name', render: (item: Profile) => item.full_name || '-' },
+    {
+      key: 'role',
+      header: 'Role',
+      exportValue: (item: Profile) => roleLabels[item.role as AppRole] ?? item.role,
+      render: (item: Profile) => (
+        <select
+          value={item.role}
+          disabled={(updateRole.isPending && updateRole.variables?.id === item.id) || item.user_id === user?.id}
+          onChange={(e) => handleRoleChange(item, e.target.value as AppRole)}
+          className="input-forensic py-1"
+        >
+          {roleOptions.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+      ),
+    },
+    {
+      key: 'created_at',
+      header: 'Joined',
+      render: (item: Profile) => format(new Date(item.created_at), 'MMM d, yyyy'),
+    },
+  ];
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-2xl font-bold text-foreground">User Roles</h1>
+          <p className="text-muted-foreground">Control what each account can view and change</p>
+        </motion.div>
+
+        <DataTable
+          columns={columns}
+          data={filteredProfiles}
+          searchValue={searchValue}
+          onSearchChange={setSearchValue}
+          searchPlaceholder="Search by name or role..."
+          loading={isLoading}
+          emptyMessage="No users found."
+          exportName="Users"
+        />
+
+        {can('update', 'numbering') && <RecordNumbering />}
+      </div>
+    </MainLayout>
+  );
+}
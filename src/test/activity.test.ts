@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { activityLink, describeActivity } from "@/lib/activity";
+
+describe("describeActivity", () => {
+  it("names creations by entity", () => {
+    expect(describeActivity({ entity_type: "lab_reports", action: "INSERT", changed_fields: null })).toBe("created lab report");
+  });
+
+  it("lists a few changed fields and summarises the rest", () => {
+    expect(describeActivity({ entity_type: "cases", action: "UPDATE", changed_fields: ["lead_officer_id", "status"] })).toBe(
+      "updated case lead officer, status"
+    );
+    expect(describeActivity({ entity_type: "evidence", action: "UPDATE", changed_fields: ["a", "b", "c", "d"] })).toBe(
+      "updated evidence"
+    );
+  });
+});
+
+describe("activityLink", () => {
+  it("opens cases directly and other records by id on their list page", () => {
+    expect(activityLink({ entity_type: "cases", record_id: "c1" })).toBe("/cases/c1");
+    expect(activityLink({ entity_type: "suspects", record_id: "s1" })).toBe("/suspects?record=s1");
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { formatRange, pivotCaseAging, presetRange } from "@/lib/analytics";
+
+const today = new Date(2026, 9, 19);
+
+describe("presetRange", () => {
+  it("counts today as the last day of the range", () => {
+    expect(presetRange("30d", today)).toEqual({ from: "2026-09-20", to: "2026-10-19" });
+  });
+
+  it("starts year to date on January 1st", () => {
+    expect(presetRange("ytd", today)).toEqual({ from: "2026-01-01", to: "2026-10-19" });
+  });
+
+  it("formats the range for display", () => {
+    expect(formatRange(presetRange("12m", today))).toBe("Oct 19, 2025 - Oct 19, 2026");
+  });
+});
+
+describe("pivotCaseAging", () => {
+  it("orders priorities by severity and fills missing buckets with zero", () => {
+    expect(
+      pivotCaseAging([
+        { priority: "low", age_bucket: "180+", total: 2 },
+        { priority: "critical", age_bucket: "0-30", total: 1 },
+        { priority: "critical", age_bucket: "31-90", total: 3 },
+      ])
+    ).toEqual([
+      { priority: "critical", "0-30": 1, "31-90": 3, "91-180": 0, "180+": 0 },
+      { priority: "low", "0-30": 0, "31-90": 0, "91-180": 0, "180+": 2 },
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { describeRecord, diffAuditRecords } from "@/lib/audit";
+
+describe("diffAuditRecords", () => {
+  it("lists only changed fields and ignores updated_at", () => {
+    const changes = diffAuditRecords(
+      { status: "open", title: "Burglary", updated_at: "2026-01-01" },
+      { status: "closed", title: "Burglary", updated_at: "2026-02-01" }
+    );
+    expect(changes).toEqual([{ field: "status", before: "open", after: "closed" }]);
+  });
+
+  it("treats inserts and deletes as changes from or to nothing", () => {
+    expect(diffAuditRecords(null, { name: "J. Doe" })).toEqual([{ field: "name", before: undefined, after: "J. Doe" }]);
+    expect(diffAuditRecords({ name: "J. Doe" }, null)).toEqual([{ field: "name", before: "J. Doe", after: undefined }]);
+  });
+});
+
+describe("describeRecord", () => {
+  it("prefers the human-readable record number", () => {
+    expect(describeRecord({ case_number: "CASE-2026-001", title: "Burglary" })).toBe("CASE-2026-001");
+    expect(describeRecord(null)).toBe("");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, nextStatusOptions } from "@/lib/caseStatus";
+
+describe("canTransition", () => {
+  it("follows the workflow forwards", () => {
+    expect(canTransition("open", "under_investigation")).toBe(true);
+    expect(canTransition("under_investigation", "pending")).toBe(true);
+    expect(canTransition("pending", "closed")).toBe(true);
+  });
+
+  it("allows staying put, resuming and reopening", () => {
+    expect(canTransition("pending", "pending")).toBe(true);
+    expect(canTransition("pending", "under_investigation")).toBe(true);
+    expect(canTransition("closed", "open")).toBe(true);
+  });
+
+  it("rejects skipped or backwards steps", () => {
+    expect(canTransition("open", "closed")).toBe(false);
+    expect(canTransition("under_investigation", "closed")).toBe(false);
+    expect(canTransition("closed", "pending")).toBe(false);
+  });
+});
+
+describe("nextStatusOptions", () => {
+  it("lists the current status first, then valid moves", () => {
+    expect(nextStatusOptions("pending").map((o) => o.value)).toEqual(["pending", "under_investigation", "closed"]);
+  });
+
+  it("labels reopening a closed case", () => {
+    expect(nextStatusOptions("closed")).toEqual([
+      { value: "closed", label: "Closed" },
+      { value: "open", label: "Reopen" },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { autoMapColumns, chunk, importTargets, parseCsv, parseImportDate, validateImportRows } from "@/lib/csvImport";
+
+const lookups = {
+  caseIds: new Map([["case-2024-001", "case-1"]]),
+  officerIds: new Map([["b-17", "officer-1"]]),
+};
+
+const validate = (entity: Parameters<typeof validateImportRows>[0], csv: string) => {
+  const [headers, ...rows] = parseCsv(csv);
+  return validateImportRows(entity, rows, headers, autoMapColumns(headers, importTargets[entity].fields), lookups);
+};
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, line breaks and a BOM", () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+describe("autoMapColumns", () => {
+  it("matches headers by key, label or alias regardless of case and punctuation", () => {
+    const mapping = autoMapColumns(["Case #", "TITLE", "date_opened", "Notes"], importTargets.cases.fields);
+    expect(mapping.case_number).toBe("Case #");
+    expect(mapping.title).toBe("TITLE");
+    expect(mapping.date_opened).toBe("date_opened");
+    expect(mapping.description).toBe("");
+  });
+});
+
+describe("parseImportDate", () => {
+  it("accepts ISO and US dates", () => {
+    expect(parseImportDate("2024-03-05")).toBe("2024-03-05");
+    expect(parseImportDate("3/5/2024")).toBe("2024-03-05");
+    expect(parseImportDate("yesterday")).toBeNull();
+  });
+});
+
+describe("validateImportRows", () => {
+  it("resolves case numbers to ids and applies defaults", () => {
+    const [row] = validate("evidence", "Evidence Number,Case Number,Description,Type,Date Collected\nEV-1,CASE-2024-001,Knife,Physical,2024-01-02");
+    expect(row.errors).toEqual([]);
+    expect(row.record).toMatchObject({ case_id: "case-1", type: "physical", status: "in_storage", location_found: null });
+    expect(row.record).not.toHaveProperty("case_number");
+  });
+
+  it("reports unknown lookups, bad values and duplicates per row", () => {
+    const rows = validate(
+      "evidence",
+      "Evidence Number,Case Number,Description,Type,Date Collected\nEV-1,CASE-9,Knife,physical,soon\nEV-1,CASE-2024-001,,weapon,2024-01-02"
+    );
+    expect(rows[0].rowNumber).toBe(2);
+    expect(rows[0].errors).toEqual([
+      'Date Collected: "soon" is not a date (use YYYY-MM-DD or MM/DD/YYYY)',
+      'Case Number: no case "CASE-9" exists',
+    ]);
+    expect(rows[1].record).toBeNull();
+    expect(rows[1].errors).toContain("Description: required");
+    expect(rows[1].errors).toContain("Evidence Number: duplicates row 2");
+    expect(rows[1].errors.some((error) => error.startsWith("Type:"))).toBe(true);
+  });
+
+  it("rejects case numbers already on file and closed cases without a reason", () => {
+    const rows = validate(
+      "cases",
+      "Case Number,Title,Date Opened,Status,Lead Officer Badge\ncase-2024-001,Old,2024-01-01,open,\nCASE-2,Burglary,1/2/2024,Closed,B-17"
+    );
+    expect(rows[0].errors).toEqual(['Case Number: "case-2024-001" already exists']);
+    expect(rows[1].errors).toEqual(["Closure Reason: A closure reason is required to close a case"]);
+  });
+
+  it("leaves blank record numbers for the database to assign", () => {
+    const [row] = validate("cases", "Case Number,Title,Date Opened\n,Arson,2026-02-01");
+    expect(row.errors).toEqual([]);
+    expect(row.record).toMatchObject({ case_number: null, title: "Arson" });
+  });
+
+  it("keeps the case link and role on imported people", () => {
+    const [row] = validate("suspects", "Name,Age,Case Number,Role\nJane Roe,34,CASE-2024-001,Witness");
+    expect(row.record).toMatchObject({ name: "Jane Roe", age: 34, case_id: "case-1", role: "witness" });
+  });
+});
+
+describe("chunk", () => {
+  it("splits into batches of the given size", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { buildCaseDossier, dossierFileName } from "@/lib/dossier";
+import type { CaseDossier } from "@/hooks/useCases";
+
+const custodyEvent = (n: number) => ({
+  id: `c${n}`,
+  user_id: "u1",
+  evidence_id: "e1",
+  released_by: "Officer A",
+  received_by: "Officer B",
+  transferred_at: "2026-10-01T09:00:00Z",
+  location: "Property room",
+  purpose: "Storage",
+  signature: "Officer B",
+  notes: null,
+  created_at: "2026-10-01T09:00:00Z",
+});
+
+const dossier = {
+  caseRecord: {
+    id: "case1",
+    case_number: "CASE-2026-001",
+    title: "Warehouse burglary",
+    description: "Break-in at the north warehouse.",
+    status: "open",
+    priority: "high",
+    date_opened: "2026-10-01",
+    date_closed: null,
+    closure_reason: null,
+    location: "North district",
+    officers: { name: "Jane Roe", rank: "Detective", badge_number: "4411", contact: null },
+  },
+  evidence: [
+    {
+      id: "e1",
+      evidence_number: "EV-001",
+      type: "physical",
+      description: "Crowbar",
+      date_collected: "2026-10-01",
+      collected_by: "Jane Roe",
+      location_found: "Loading dock",
+      storage_location: "Locker 4",
+      status: "in_storage",
+      chain_of_custody: null,
+      custody: Array.from({ length: 80 }, (_, i) => custodyEvent(i)),
+    },
+  ],
+  involvements: [],
+  labReports: [],
+} as unknown as CaseDossier;
+
+describe("buildCaseDossier", () => {
+  it("paginates and stamps every page with page numbers and the exporting user", () => {
+    const doc = buildCaseDossier(dossier, { generatedBy: "Sam Analyst", generatedAt: new Date(2026, 9, 19, 14, 30) });
+    const pages = doc.getNumberOfPages();
+    const output = doc.output();
+
+    expect(pages).toBeGreaterThan(1);
+    expect(output).toContain(`Page 1 of ${pages}`);
+    expect(output).toContain(`Page ${pages} of ${pages}`);
+    expect(output).toContain("Generated Oct 19, 2026 14:30:00 by Sam Analyst");
+    expect(output).toContain("No people linked to this case.");
+  });
+});
+
+describe("buildCaseDossier dates", () => {
+  const timeZone = process.env.TZ;
+  afterEach(() => {
+    process.env.TZ = timeZone;
+  });
+
+  it("prints date-only fields on their calendar day west of UTC", () => {
+    process.env.TZ = "America/Los_Angeles";
+    const doc = buildCaseDossier(
+      {
+        ...dossier,
+        caseRecord: { ...dossier.caseRecord, date_opened: "2026-10-05" },
+        evidence: [{ ...dossier.evidence[0], date_collected: "2026-10-06", custody: [] }],
+      },
+      { generatedBy: "Sam Analyst", generatedAt: new Date(2026, 9, 19, 14, 30) }
+    );
+    const output = doc.output();
+
+    expect(output).toContain("Oct 5, 2026");
+    expect(output).toContain("Oct 6, 2026");
+    expect(output).not.toContain("Oct 4, 2026");
+  });
+});
+
+describe("dossierFileName", () => {
+  it("is filesystem safe and timestamped", () => {
+    expect(dossierFileName("CASE/2026 001", new Date(2026, 9, 19, 8, 5))).toBe("dossier-CASE_2026_001-20261019-0805.pdf");
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import {
+  evidenceBarcodePayload,
+  evidenceQrPayload,
+  parseEvidenceScan,
+  sheetLabelPosition,
+} from "@/lib/evidenceLabels";
+
+const label = { id: "3f2b1c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d", evidence_number: "CASE-2026-014-E03" };
+
+describe("parseEvidenceScan", () => {
+  it("reads back both label payloads", () => {
+    const expected = { id: label.id, evidenceNumber: "CASE-2026-014-E03" };
+    expect(parseEvidenceScan(evidenceQrPayload("https://records.example.org", label))).toEqual(expected);
+    expect(parseEvidenceScan(evidenceBarcodePayload(label))).toEqual(expected);
+  });
+
+  it("falls back to a bare id or a typed evidence number", () => {
+    expect(parseEvidenceScan(` ${label.id} `)).toEqual({ id: label.id, evidenceNumber: null });
+    expect(parseEvidenceScan("EV-2024-001")).toEqual({ id: null, evidenceNumber: "EV-2024-001" });
+  });
+
+  it("ignores blank input and unrelated links", () => {
+    expect(parseEvidenceScan("   ")).toBeNull();
+    expect(parseEvidenceScan("https://example.org/menu")).toBeNull();
+    expect(parseEvidenceScan("|garbage")).toBeNull();
+  });
+});
+
+describe("sheetLabelPosition", () => {
+  it("fills two columns row by row and starts a new page after ten", () => {
+    expect(sheetLabelPosition(0)).toEqual({ page: 0, x: 0.15625, y: 0.5 });
+    expect(sheetLabelPosition(3)).toEqual({ page: 0, x: 4.34375, y: 2.5 });
+    expect(sheetLabelPosition(10)).toEqual({ page: 1, x: 0.15625, y: 0.5 });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { evidenceLinkTypeLabel, sortEvidenceLinks } from "@/lib/evidenceLinks";
+
+describe("sortEvidenceLinks", () => {
+  it("puts the strongest links first, newest first within a level", () => {
+    const links = [
+      { id: "low", confidence: "low", created_at: "2026-03-03T00:00:00Z" },
+      { id: "high-old", confidence: "high", created_at: "2026-03-01T00:00:00Z" },
+      { id: "confirmed", confidence: "confirmed", created_at: "2026-02-01T00:00:00Z" },
+      { id: "high-new", confidence: "high", created_at: "2026-03-02T00:00:00Z" },
+    ];
+    expect(sortEvidenceLinks(links).map((l) => l.id)).toEqual(["confirmed", "high-new", "high-old", "low"]);
+  });
+});
+
+describe("evidenceLinkTypeLabel", () => {
+  it("labels known types and falls back to the raw value", () => {
+    expect(evidenceLinkTypeLabel("matched_by_lab")).toBe("Matched by lab report");
+    expect(evidenceLinkTypeLabel("seen_with")).toBe("seen with");
+  });
+});
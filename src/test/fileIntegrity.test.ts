@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { attachmentPath, formatBytes, sha256Hex } from "@/lib/fileIntegrity";
+
+describe("sha256Hex", () => {
+  it("matches the published digest for 'abc'", async () => {
+    const data = new TextEncoder().encode("abc");
+    expect(await sha256Hex(data.buffer as ArrayBuffer)).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("attachmentPath", () => {
+  it("scopes files to the evidence item and strips unsafe characters", () => {
+    expect(attachmentPath("ev-1", "scene photo (1).jpg", "abc")).toBe("ev-1/abc-scene_photo_1_.jpg");
+    expect(attachmentPath("ev-1", "../../etc", "abc")).toBe("ev-1/abc-.._.._etc");
+  });
+});
+
+describe("formatBytes", () => {
+  it("picks a readable unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 * 1024 * 1024)).toBe("5.0 GB");
+  });
+});
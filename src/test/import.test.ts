@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { insertBatch } from "@/hooks/useImport";
+
+const { inserts, failures } = vi.hoisted(() => ({
+  inserts: {} as Record<string, unknown[]>,
+  failures: {} as Record<string, { message: string } | null>,
+}));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    rpc: (fn: string, args: { records: unknown[] }) => {
+      inserts[fn] = args.records;
+      return { error: failures[fn] ?? null };
+    },
+    from: (table: string) => ({
+      insert: (rows: Record<string, unknown>[]) => {
+        inserts[table] = rows;
+        const result = { error: failures[table] ?? null };
+        return {
+          ...result,
+          select: () => ({ data: rows.map((_, i) => ({ id: `person-${i}` })), error: result.error }),
+        };
+      },
+    }),
+  },
+}));
+
+const person = (rowNumber: number, record: Record<string, unknown>) => ({ rowNumber, record, errors: [] });
+
+describe("insertBatch", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(inserts)) delete inserts[key];
+    for (const key of Object.keys(failures)) delete failures[key];
+  });
+
+  it("sends only person columns to suspects and links the case separately", async () => {
+    const failed = await insertBatch("suspects", [
+      person(2, { name: "Dana Reyes", case_id: "case-1", role: "witness" }),
+      person(3, { name: "Lee Park", case_id: null, role: "suspect" }),
+    ], "user-1");
+
+    expect(failed).toEqual([]);
+    expect(inserts.suspects).toEqual([
+      { name: "Dana Reyes", user_id: "user-1" },
+      { name: "Lee Park", user_id: "user-1" },
+    ]);
+    expect(inserts.case_involvements).toEqual([
+      { suspect_id: "person-0", case_id: "case-1", role: "witness", user_id: "user-1" },
+    ]);
+  });
+
+  it("reports the spreadsheet row when the case link fails", async () => {
+    failures.case_involvements = { message: "permission denied" };
+    const failed = await insertBatch("suspects", [person(7, { name: "Dana Reyes", case_id: "case-1", role: "witness" })], "user-1");
+    expect(failed).toEqual([{ rowNumber: 7, message: "Person added but not linked to the case: permission denied" }]);
+  });
+
+  it("inserts other tables as they are", async () => {
+    await insertBatch("officers", [person(2, { name: "Sgt. Cole", badge_number: "B-12" })], "user-1");
+    expect(inserts.officers).toEqual([{ name: "Sgt. Cole", badge_number: "B-12", user_id: "user-1" }]);
+  });
+
+  it("imports cases through the import function so they can keep their status", async () => {
+    await insertBatch("cases", [person(2, { title: "Warehouse fire", status: "closed", closure_reason: "Solved" })], "user-1");
+    expect(inserts.cases).toBeUndefined();
+    expect(inserts.import_cases).toEqual([{ title: "Warehouse fire", status: "closed", closure_reason: "Solved" }]);
+  });
+
+  it("throws when the import function refuses the batch", async () => {
+    failures.import_cases = { message: "Permission denied: you are not allowed to import cases" };
+    await expect(insertBatch("cases", [person(2, { title: "Warehouse fire" })], "user-1")).rejects.toEqual(failures.import_cases);
+  });
+});
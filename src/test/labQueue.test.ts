@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { averageTurnaround, formatDays, isOpenLabStatus, turnaroundDays } from "@/lib/labQueue";
+
+const today = new Date(2026, 9, 19);
+
+describe("turnaroundDays", () => {
+  it("counts calendar days to completion", () => {
+    expect(turnaroundDays("2026-10-01", "2026-10-08", today)).toBe(7);
+  });
+
+  it("counts up to today while the report is open", () => {
+    expect(turnaroundDays("2026-10-05", null, today)).toBe(14);
+    expect(turnaroundDays("2026-10-19", null, today)).toBe(0);
+  });
+});
+
+describe("averageTurnaround", () => {
+  it("averages finished reports only", () => {
+    expect(
+      averageTurnaround([
+        { date_submitted: "2026-10-01", date_completed: "2026-10-03" },
+        { date_submitted: "2026-10-01", date_completed: "2026-10-06" },
+        { date_submitted: "2026-10-01", date_completed: null },
+      ])
+    ).toBe(3.5);
+  });
+
+  it("is null without finished reports", () => {
+    expect(averageTurnaround([])).toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("recognizes open statuses", () => {
+    expect(isOpenLabStatus("in_progress")).toBe(true);
+    expect(isOpenLabStatus("inconclusive")).toBe(false);
+  });
+
+  it("formats day counts", () => {
+    expect(formatDays(1)).toBe("1 day");
+    expect(formatDays(3.456)).toBe("3.5 days");
+    expect(formatDays(0.96)).toBe("1 day");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { filterGraph, findBridges, mergeNeighbors, nodeKey, seedGraph } from "@/lib/linkGraph";
+
+const neighbor = (neighbor_type: string, neighbor_id: string, relation = "related") => ({
+  neighbor_type,
+  neighbor_id,
+  label: neighbor_id,
+  detail: null,
+  relation,
+});
+
+describe("mergeNeighbors", () => {
+  it("adds new nodes and edges once and marks the origin expanded", () => {
+    const seed = seedGraph({ type: "cases", id: "A", label: "CASE-A", detail: null });
+    const once = mergeNeighbors(seed, "cases:A", [neighbor("suspects", "s1", "suspect"), neighbor("evidence", "e1")]);
+    const twice = mergeNeighbors(once, "suspects:s1", [neighbor("cases", "A", "suspect")]);
+
+    expect(twice.nodes.map((n) => [n.key, n.expanded])).toEqual([
+      ["cases:A", true],
+      ["suspects:s1", true],
+      ["evidence:e1", false],
+    ]);
+    // The case-person edge is the same edge seen from the other end
+    expect(twice.edges).toHaveLength(2);
+  });
+});
+
+describe("filterGraph", () => {
+  it("drops hidden node types and their edges", () => {
+    const graph = mergeNeighbors(seedGraph({ type: "cases", id: "A", label: "A", detail: null }), "cases:A", [
+      neighbor("officers", "o1"),
+      neighbor("evidence", "e1"),
+    ]);
+    const filtered = filterGraph(graph, new Set(["cases", "evidence"]));
+    expect(filtered.nodes.map((n) => n.key)).toEqual(["cases:A", "evidence:e1"]);
+    expect(filtered.edges.map((e) => e.target)).toEqual(["evidence:e1"]);
+  });
+});
+
+describe("findBridges", () => {
+  it("finds people and evidence that connect separate cases", () => {
+    let graph = seedGraph({ type: "cases", id: "A", label: "A", detail: null });
+    graph = mergeNeighbors(graph, "cases:A", [neighbor("suspects", "s1"), neighbor("officers", "o1")]);
+    graph = mergeNeighbors(graph, "suspects:s1", [neighbor("evidence", "e9", "found on")]);
+    graph = mergeNeighbors(graph, "evidence:e9", [neighbor("cases", "B")]);
+    graph = mergeNeighbors(graph, "officers:o1", [neighbor("cases", "C")]);
+
+    const bridges = findBridges(graph);
+    expect(bridges.get(nodeKey("suspects", "s1"))).toEqual(["cases:A", "cases:B"]);
+    expect(bridges.get(nodeKey("evidence", "e9"))).toEqual(["cases:A", "cases:B"]);
+    // Officers leading several cases are routine, not a lead
+    expect(bridges.has(nodeKey("officers", "o1"))).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { findDuplicatePeople, normalizePhone } from "@/lib/people";
+
+const people = [
+  { id: "p1", name: "John  Smith", phone: "(555) 010-2030" },
+  { id: "p2", name: "John Smith", phone: "555 999 0000" },
+  { id: "p3", name: "Jane Doe", phone: null },
+];
+
+describe("normalizePhone", () => {
+  it("keeps digits only", () => {
+    expect(normalizePhone("+1 (555) 010-2030")).toBe("15550102030");
+    expect(normalizePhone(null)).toBe("");
+  });
+});
+
+describe("findDuplicatePeople", () => {
+  it("matches on name and phone regardless of formatting", () => {
+    expect(findDuplicatePeople(people, " john smith ", "555-010-2030").map((p) => p.id)).toEqual(["p1"]);
+  });
+
+  it("does not match on name alone", () => {
+    expect(findDuplicatePeople(people, "John Smith", "555-123-4567")).toEqual([]);
+    expect(findDuplicatePeople(people, "Jane Doe", "")).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { can, isAppRole } from "@/lib/permissions";
+
+describe("permissions", () => {
+  it("denies everything without a role", () => {
+    expect(can(null, "create", "cases")).toBe(false);
+  });
+
+  it("keeps auditors read-only", () => {
+    expect(can("auditor", "create", "cases")).toBe(false);
+    expect(can("auditor", "update", "evidence")).toBe(false);
+    expect(can("auditor", "create", "custody")).toBe(false);
+    expect(can("auditor", "view", "audit")).toBe(true);
+  });
+
+  it("limits investigators to their own records", () => {
+    expect(can("investigator", "update", "cases", { ownerId: "u1", userId: "u1" })).toBe(true);
+    expect(can("investigator", "update", "cases", { ownerId: "u2", userId: "u1" })).toBe(false);
+    expect(can("investigator", "create", "lab_reports")).toBe(false);
+    expect(can("investigator", "view", "audit")).toBe(false);
+  });
+
+  it("lets supervisors edit any record", () => {
+    expect(can("supervisor", "delete", "suspects", { ownerId: "u2", userId: "u1" })).toBe(true);
+    expect(can("supervisor", "update", "users")).toBe(false);
+  });
+
+  it("reserves bulk imports for supervisors and admins", () => {
+    expect(can("supervisor", "create", "imports")).toBe(true);
+    expect(can("admin", "create", "imports")).toBe(true);
+    expect(can("investigator", "create", "imports")).toBe(false);
+  });
+
+  it("lets investigators edit only their own timeline entries", () => {
+    expect(can("investigator", "update", "timeline", { ownerId: "u1", userId: "u1" })).toBe(true);
+    expect(can("investigator", "delete", "timeline", { ownerId: "u2", userId: "u1" })).toBe(false);
+    expect(can("lab_technician", "create", "timeline")).toBe(false);
+  });
+
+  it("lets lab technicians update any lab report", () => {
+    expect(can("lab_technician", "update", "lab_reports", { ownerId: "u2", userId: "u1" })).toBe(true);
+    expect(can("lab_technician", "delete", "lab_reports", { ownerId: "u2", userId: "u1" })).toBe(false);
+  });
+
+  it("lets lab technicians attach files but not remove them", () => {
+    expect(can("lab_technician", "create", "attachments")).toBe(true);
+    expect(can("lab_technician", "delete", "attachments", { ownerId: "u1", userId: "u1" })).toBe(false);
+    expect(can("investigator", "delete", "attachments", { ownerId: "u2", userId: "u1" })).toBe(false);
+  });
+
+  it("recognises valid roles", () => {
+    expect(isAppRole("admin")).toBe(true);
+    expect(isAppRole("sheriff")).toBe(false);
+    expect(isAppRole(null)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { PROPERTY_ROOM, ScannedItem, quickTransfer, rememberScan } from "@/lib/propertyRoom";
+
+describe("quickTransfer", () => {
+  const desk = { lastHolder: "Det. Ruiz", currentUser: "Clerk Okafor", storageLocation: "Locker B-12" };
+
+  it("releases a checked-out item from the clerk to the named recipient, who signs", () => {
+    expect(quickTransfer("check_out", { ...desk, recipient: " Det. Alvarez " })).toEqual({
+      released_by: "Clerk Okafor",
+      received_by: "Det. Alvarez",
+      location: PROPERTY_ROOM,
+      purpose: "Checked out of the property room",
+      signature: "Det. Alvarez",
+    });
+  });
+
+  it("will not check out without a recipient", () => {
+    expect(quickTransfer("check_out", desk)).toBeNull();
+    expect(quickTransfer("check_out", { ...desk, recipient: "  " })).toBeNull();
+  });
+
+  it("checks in from the last holder to the clerk at the storage location", () => {
+    expect(quickTransfer("check_in", desk)).toEqual({
+      released_by: "Det. Ruiz",
+      received_by: "Clerk Okafor",
+      location: "Locker B-12",
+      purpose: "Returned to the property room",
+      signature: "Clerk Okafor",
+    });
+    expect(quickTransfer("check_in", { ...desk, lastHolder: null, storageLocation: null })).toMatchObject({
+      released_by: PROPERTY_ROOM,
+      location: PROPERTY_ROOM,
+    });
+  });
+});
+
+describe("rememberScan", () => {
+  const scan = (id: string) => ({ id, evidence_number: `E-${id}`, scannedAt: "2026-10-19T10:00:00Z" });
+
+  it("moves a repeat scan to the top instead of listing it twice", () => {
+    const history = rememberScan(rememberScan(rememberScan([], scan("1")), scan("2")), scan("1"));
+    expect(history.map((entry) => entry.id)).toEqual(["1", "2"]);
+  });
+
+  it("keeps the ten most recent scans", () => {
+    let history: ScannedItem[] = [];
+    for (let i = 0; i < 12; i++) history = rememberScan(history, scan(String(i)));
+    expect(history).toHaveLength(10);
+    expect(history[0].id).toBe("11");
+  });
+});
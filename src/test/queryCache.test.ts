@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { Page, patchListRow, removeListRow, restoreSnapshot } from "@/lib/queryCache";
+
+type Row = { id: string; status: string };
+
+const seed = () => {
+  const queryClient = new QueryClient();
+  queryClient.setQueryData<Page<Row>>(["cases", "list", { page: 1 }], {
+    rows: [{ id: "a", status: "open" }, { id: "b", status: "open" }],
+    count: 2,
+  });
+  return queryClient;
+};
+
+describe("patchListRow", () => {
+  it("patches the matching row and rolls back from the snapshot", async () => {
+    const queryClient = seed();
+    const snapshot = await patchListRow<Row>(queryClient, ["cases", "list"], "a", { status: "closed" });
+    expect(queryClient.getQueryData<Page<Row>>(["cases", "list", { page: 1 }])?.rows[0].status).toBe("closed");
+
+    restoreSnapshot(queryClient, snapshot);
+    expect(queryClient.getQueryData<Page<Row>>(["cases", "list", { page: 1 }])?.rows[0].status).toBe("open");
+  });
+});
+
+describe("removeListRow", () => {
+  it("drops the row and decrements the total count", async () => {
+    const queryClient = seed();
+    await removeListRow<Row>(queryClient, ["cases", "list"], "b");
+    expect(queryClient.getQueryData<Page<Row>>(["cases", "list", { page: 1 }])).toEqual({
+      rows: [{ id: "a", status: "open" }],
+      count: 1,
+    });
+  });
+});
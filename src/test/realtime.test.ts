@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { toRowChange } from "@/lib/realtime";
+
+const names = new Map([["u-2", "Det. Rivera"]]);
+
+describe("toRowChange", () => {
+  it("attributes another user's update by name", () => {
+    expect(toRowChange({ eventType: "UPDATE", new: { id: "r-1", updated_by: "u-2" } }, "u-1", names)).toEqual({
+      id: "r-1",
+      change: { event: "UPDATE", actor: "Det. Rivera" },
+    });
+  });
+
+  it("falls back to a generic actor when the profile is unknown", () => {
+    expect(toRowChange({ eventType: "INSERT", new: { id: "r-1", updated_by: "u-9" } }, "u-1", names)?.change.actor).toBe(
+      "Another user"
+    );
+  });
+
+  it("skips deletes and the current user's own writes", () => {
+    expect(toRowChange({ eventType: "DELETE", new: {} }, "u-1", names)).toBeNull();
+    expect(toRowChange({ eventType: "UPDATE", new: { id: "r-1", updated_by: "u-1" } }, "u-1", names)).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { PREFIX_PATTERN, exampleRecordNumbers, normalizePrefix } from "@/lib/recordNumbers";
+
+describe("normalizePrefix", () => {
+  it("uppercases and strips characters the database rejects", () => {
+    expect(normalizePrefix("mc-case ")).toBe("MCCASE");
+    expect(normalizePrefix("lab2")).toBe("LAB2");
+    expect(PREFIX_PATTERN.test(normalizePrefix("abcdefghijklmnop"))).toBe(true);
+  });
+});
+
+describe("exampleRecordNumbers", () => {
+  it("derives evidence numbers from the case number", () => {
+    expect(exampleRecordNumbers({ cases: "CASE", evidence: "E", lab_reports: "LAB" }, 2026)).toEqual({
+      cases: "CASE-2026-014",
+      evidence: "CASE-2026-014-E03",
+      lab_reports: "LAB-2026-007",
+    });
+  });
+});
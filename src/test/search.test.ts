@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { groupSearchResults, highlightMatches, parseSnippet, rankRows, recordLink } from "@/lib/search";
+
+describe("highlightMatches", () => {
+  it("marks word prefixes case-insensitively", () => {
+    expect(highlightMatches("John Smithers, Smith St", "smi jo")).toEqual([
+      { text: "Jo", match: true },
+      { text: "hn ", match: false },
+      { text: "Smi", match: true },
+      { text: "thers, ", match: false },
+      { text: "Smi", match: true },
+      { text: "th St", match: false },
+    ]);
+  });
+
+  it("does not match inside words or treat punctuation as a pattern", () => {
+    expect(highlightMatches("Blacksmith", "smith")).toEqual([{ text: "Blacksmith", match: false }]);
+    expect(highlightMatches("CASE-2024-001", "2024 (")).toEqual([
+      { text: "CASE-", match: false },
+      { text: "2024", match: true },
+      { text: "-001", match: false },
+    ]);
+  });
+});
+
+describe("groupSearchResults", () => {
+  it("groups in a fixed entity order and ranks within groups", () => {
+    const groups = groupSearchResults([
+      { entity_type: "officers", id: "o1", title: "Ann", subtitle: "", rank: 0.1 },
+      { entity_type: "cases", id: "c1", title: "A", subtitle: "", rank: 0.2 },
+      { entity_type: "cases", id: "c2", title: "B", subtitle: "", rank: 0.9 },
+    ]);
+    expect(groups.map((g) => g.entity)).toEqual(["cases", "officers"]);
+    expect(groups[0].results.map((r) => r.id)).toEqual(["c2", "c1"]);
+  });
+});
+
+describe("recordLink", () => {
+  it("opens records by id rather than by a name search", () => {
+    expect(recordLink("officers", "o1")).toBe("/officers?record=o1");
+    expect(recordLink("lab_reports", "r1")).toBe("/lab-reports?record=r1");
+    expect(recordLink("unknown", "x1")).toBe("/dashboard");
+  });
+});
+
+describe("parseSnippet", () => {
+  it("splits on the search_records match markers", () => {
+    expect(parseSnippet("found a \u0001blue\u0002 \u0001sedan\u0002 near the pier")).toEqual([
+      { text: "found a ", match: false },
+      { text: "blue", match: true },
+      { text: " ", match: false },
+      { text: "sedan", match: true },
+      { text: " near the pier", match: false },
+    ]);
+  });
+
+  it("treats unmarked or empty snippets as plain text", () => {
+    expect(parseSnippet("no matches here")).toEqual([{ text: "no matches here", match: false }]);
+    expect(parseSnippet("")).toEqual([]);
+  });
+});
+
+describe("rankRows", () => {
+  it("orders rows by hit rank and drops hits without a row", () => {
+    const hits = [
+      { id: "b", rank: 0.9, snippet: "best" },
+      { id: "gone", rank: 0.5, snippet: "deleted" },
+      { id: "a", rank: 0.1, snippet: "worst" },
+    ];
+    const rows = [{ id: "a", name: "A" }, { id: "b", name: "B" }];
+    expect(rankRows(hits, rows)).toEqual([
+      { id: "b", name: "B", search_rank: 0.9, search_snippet: "best" },
+      { id: "a", name: "A", search_rank: 0.1, search_snippet: "worst" },
+    ]);
+  });
+});
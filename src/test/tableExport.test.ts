@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { createElement } from "react";
+import { exportFileName, neutralizeFormula, nodeToText, toCsv, toExportRows, toWorkbook } from "@/lib/tableExport";
+
+describe("nodeToText", () => {
+  it("reads text out of rendered elements", () => {
+    expect(nodeToText(createElement("span", null, "under", " ", "investigation"))).toBe("under investigation");
+    expect(nodeToText([createElement("b", { key: 1 }, "CASE-1"), createElement("b", { key: 2 }, "CASE-2")])).toBe("CASE-1, CASE-2");
+    expect(nodeToText(null)).toBe("");
+  });
+});
+
+describe("toExportRows", () => {
+  interface Row {
+    id: string;
+    name: string;
+    age: number | null;
+    cases?: { case_number: string };
+  }
+
+  const columns = [
+    { key: "name", header: "Name" },
+    { key: "age", header: "Age" },
+    { key: "case", header: "Case", render: (item: Row) => createElement("span", null, item.cases?.case_number || "-") },
+    { key: "id", header: "Ref", render: () => "ignored", exportValue: (item: Row) => item.id.toUpperCase() },
+  ];
+
+  it("uses headers, raw values, rendered text and export overrides", () => {
+    const rows = toExportRows(columns, [
+      { id: "s1", name: "Ann", age: 40, cases: { case_number: "CASE-9" } },
+      { id: "s2", name: "Bo", age: null },
+    ]);
+    expect(rows).toEqual([
+      ["Name", "Age", "Case", "Ref"],
+      ["Ann", 40, "CASE-9", "S1"],
+      ["Bo", "", "-", "S2"],
+    ]);
+  });
+});
+
+describe("neutralizeFormula", () => {
+  it("stops user text from running as a spreadsheet formula", () => {
+    expect(neutralizeFormula('=HYPERLINK("http://evil.example","Click")')).toBe(`'=HYPERLINK("http://evil.example","Click")`);
+    expect(neutralizeFormula("+1-555-0100")).toBe("'+1-555-0100");
+    expect(neutralizeFormula("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(neutralizeFormula("\tcmd")).toBe("'\tcmd");
+  });
+
+  it("leaves numbers, placeholders and ordinary text alone", () => {
+    expect(neutralizeFormula(-3)).toBe(-3);
+    expect(neutralizeFormula("-2.5")).toBe("-2.5");
+    expect(neutralizeFormula("-")).toBe("-");
+    expect(neutralizeFormula("Main St - rear lot")).toBe("Main St - rear lot");
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes separators, quotes and newlines", () => {
+    expect(toCsv([["a,b", 'say "hi"', "line\nbreak", 3]])).toBe('"a,b","say ""hi""","line\nbreak",3');
+  });
+
+  it("neutralizes formula-like text", () => {
+    expect(toCsv([["=1+1", "+1-555-0100", -3]])).toBe("'=1+1,'+1-555-0100,-3");
+  });
+});
+
+describe("toWorkbook", () => {
+  it("keeps formula-like text as plain text cells without an apostrophe", async () => {
+    const sheet = (await toWorkbook([["Phone"], ["+1-555-0100"]], "People")).Sheets.People;
+    expect(sheet.A2).toMatchObject({ t: "s", v: "+1-555-0100" });
+    expect(sheet.A2.f).toBeUndefined();
+  });
+});
+
+describe("exportFileName", () => {
+  it("slugs the base name and timestamps it", () => {
+    expect(exportFileName("Case Management", "xlsx", new Date(2026, 9, 19, 9, 7))).toBe("case-management-20261019-0907.xlsx");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { applyTableQuery, fetchAllRows, TableQueryState } from "@/lib/tableQuery";
+
+const recordingQuery = () => {
+  const calls: [string, ...unknown[]][] = [];
+  const query = new Proxy({} as Record<string, (...args: unknown[]) => unknown>, {
+    get: (_target, method: string) => (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return query;
+    },
+  });
+  return { query, calls };
+};
+
+const baseState: TableQueryState = {
+  page: 1,
+  pageSize: 25,
+  sort: { column: "created_at", ascending: false },
+  filters: {},
+  search: "",
+};
+
+describe("applyTableQuery", () => {
+  it("maps paging and sorting onto order and range", () => {
+    const { query, calls } = recordingQuery();
+    applyTableQuery(query, { ...baseState, page: 3 }, { searchColumns: ["title"] });
+    expect(calls).toEqual([
+      ["order", "created_at", { ascending: false }],
+      ["range", 50, 74],
+    ]);
+  });
+
+  it("uses eq for exact filters and ilike for the rest", () => {
+    const { query, calls } = recordingQuery();
+    applyTableQuery(
+      query,
+      { ...baseState, filters: { status: "open", location: "50%_off", priority: "" } },
+      { searchColumns: [], exactFilters: ["status"] }
+    );
+    expect(calls).toContainEqual(["eq", "status", "open"]);
+    expect(calls).toContainEqual(["ilike", "location", "%50\\%\\_off%"]);
+    expect(calls.some(([method, column]) => column === "priority" && method !== "order")).toBe(false);
+  });
+
+  it("searches across columns with a sanitized or filter", () => {
+    const { query, calls } = recordingQuery();
+    applyTableQuery(query, { ...baseState, search: "smith, (john)" }, { searchColumns: ["name", "address"] });
+    expect(calls[0]).toEqual(["or", "name.ilike.*smith john*,address.ilike.*smith john*"]);
+  });
+});
+
+describe("fetchAllRows", () => {
+  it("walks every batch with the same filters and sort", async () => {
+    const all = Array.from({ length: 5 }, (_, i) => ({ id: `r${i}` }));
+    const seen: TableQueryState[] = [];
+    const rows = await fetchAllRows(async (state) => {
+      seen.push(state);
+      const from = (state.page - 1) * state.pageSize;
+      return { rows: all.slice(from, from + state.pageSize), count: all.length };
+    }, { ...baseState, page: 4, filters: { status: "open" } }, 2);
+
+    expect(rows).toEqual(all);
+    expect(seen.map((state) => state.page)).toEqual([1, 2, 3]);
+    expect(seen.every((state) => state.filters.status === "open" && state.pageSize === 2)).toBe(true);
+  });
+
+  it("stops once the count is reached on an exact batch boundary", async () => {
+    let calls = 0;
+    const rows = await fetchAllRows(async () => {
+      calls++;
+      return { rows: [{ id: "a" }, { id: "b" }], count: 2 };
+    }, baseState, 2);
+    expect(rows).toHaveLength(2);
+    expect(calls).toBe(1);
+  });
+});
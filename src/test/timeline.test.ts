@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import { TimelineEvent, groupTimelineByDay, timelineDay } from "@/lib/timeline";
+
+const event = (event_id: string, event_date: string, event_time: string | null = null): TimelineEvent => ({
+  event_id,
+  kind: "case",
+  event_date,
+  event_time,
+  title: event_id,
+  detail: null,
+  tag: null,
+  record_id: event_id,
+  owner_id: null,
+  actor_name: null,
+});
+
+describe("timelineDay", () => {
+  it("keeps the stored day of date-only events", () => {
+    expect(timelineDay(event("opened", "2026-03-01"))).toBe("2026-03-01");
+  });
+
+  it("uses the local day of timed events", () => {
+    const time = "2026-03-01T23:30:00Z";
+    expect(timelineDay(event("custody", "2026-03-01", time))).toBe(format(new Date(time), "yyyy-MM-dd"));
+  });
+});
+
+describe("groupTimelineByDay", () => {
+  it("orders days oldest first with date-only events leading each day", () => {
+    const groups = groupTimelineByDay([
+      event("later", "2026-03-02", new Date(2026, 2, 2, 15).toISOString()),
+      event("collected", "2026-03-02"),
+      event("earlier", "2026-03-02", new Date(2026, 2, 2, 9).toISOString()),
+      event("opened", "2026-03-01"),
+    ]);
+    expect(groups.map((g) => [g.day, g.events.map((e) => e.event_id)])).toEqual([
+      ["2026-03-01", ["opened"]],
+      ["2026-03-02", ["collected", "earlier", "later"]],
+    ]);
+  });
+
+  it("returns no groups for no events", () => {
+    expect(groupTimelineByDay([])).toEqual([]);
+  });
+});
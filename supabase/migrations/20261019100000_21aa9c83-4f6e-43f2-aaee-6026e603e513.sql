@@ -0,0 +1,32 @@
+-- Create evidence_custody_events table: append-only chain-of-custody ledger
+CREATE TABLE public.evidence_custody_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key on user_id: removing an account must not take its entries with it
+  user_id UUID NOT NULL,
+  evidence_id UUID NOT NULL REFERENCES public.evidence(id) ON DELETE RESTRICT,
+  released_by TEXT NOT NULL,
+  received_by TEXT NOT NULL,
+  transferred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  location TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_evidence_custody_events_evidence_id ON public.evidence_custody_events(evidence_id, transferred_at);
+
+-- Entries can be read and appended, never edited or removed by users
+ALTER TABLE public.evidence_custody_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view all custody events" ON public.evidence_custody_events FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert custody events" ON public.evidence_custody_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Reject updates and deletes outright so the ledger stays immutable even for privileged roles
+CREATE OR REPLACE FUNCTION public.prevent_custody_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Custody events are append-only and cannot be modified';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_evidence_custody_events_mutation BEFORE UPDATE OR DELETE ON public.evidence_custody_events FOR EACH ROW EXECUTE FUNCTION public.prevent_custody_event_mutation();
@@ -0,0 +1,78 @@
+-- Constrain profiles.role to the supported application roles
+UPDATE public.profiles SET role = 'investigator' WHERE role IS NULL OR role NOT IN ('admin', 'supervisor', 'investigator', 'lab_technician', 'auditor');
+ALTER TABLE public.profiles ALTER COLUMN role SET NOT NULL;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'supervisor', 'investigator', 'lab_technician', 'auditor'));
+
+-- Role lookup helpers used by RLS policies (SECURITY DEFINER so policies on profiles do not recurse)
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_role(_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.current_user_role() = ANY(_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles: everyone can see who is who, only admins can change roles
+DROP POLICY "Users can view their own profile" ON public.profiles;
+DROP POLICY "Users can insert their own profile" ON public.profiles;
+CREATE POLICY "Users can view all profiles" ON public.profiles FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert their own profile" ON public.profiles FOR INSERT WITH CHECK (auth.uid() = user_id AND role = 'investigator');
+CREATE POLICY "Admins can update any profile" ON public.profiles FOR UPDATE USING (public.has_role(ARRAY['admin']));
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL AND NOT public.has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only administrators can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_profiles_role BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- Cases: investigators manage their own, supervisors and admins manage all
+DROP POLICY "Users can insert cases" ON public.cases;
+DROP POLICY "Users can update their cases" ON public.cases;
+DROP POLICY "Users can delete their cases" ON public.cases;
+CREATE POLICY "Users can insert cases" ON public.cases FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator']));
+CREATE POLICY "Users can update cases" ON public.cases FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+CREATE POLICY "Users can delete cases" ON public.cases FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+-- Evidence
+DROP POLICY "Users can insert evidence" ON public.evidence;
+DROP POLICY "Users can update their evidence" ON public.evidence;
+DROP POLICY "Users can delete their evidence" ON public.evidence;
+CREATE POLICY "Users can insert evidence" ON public.evidence FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator']));
+CREATE POLICY "Users can update evidence" ON public.evidence FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+CREATE POLICY "Users can delete evidence" ON public.evidence FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+-- Suspects
+DROP POLICY "Users can insert suspects" ON public.suspects;
+DROP POLICY "Users can update their suspects" ON public.suspects;
+DROP POLICY "Users can delete their suspects" ON public.suspects;
+CREATE POLICY "Users can insert suspects" ON public.suspects FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator']));
+CREATE POLICY "Users can update suspects" ON public.suspects FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+CREATE POLICY "Users can delete suspects" ON public.suspects FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+-- Officers: personnel records are maintained by supervisors and admins
+DROP POLICY "Users can insert officers" ON public.officers;
+DROP POLICY "Users can update their officers" ON public.officers;
+DROP POLICY "Users can delete their officers" ON public.officers;
+CREATE POLICY "Users can insert officers" ON public.officers FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor']));
+CREATE POLICY "Users can update officers" ON public.officers FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']));
+CREATE POLICY "Users can delete officers" ON public.officers FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']));
+
+-- Lab reports: written by lab technicians, who may update any report in the lab
+DROP POLICY "Users can insert lab_reports" ON public.lab_reports;
+DROP POLICY "Users can update their lab_reports" ON public.lab_reports;
+DROP POLICY "Users can delete their lab_reports" ON public.lab_reports;
+CREATE POLICY "Users can insert lab_reports" ON public.lab_reports FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'lab_technician']));
+CREATE POLICY "Users can update lab_reports" ON public.lab_reports FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor', 'lab_technician']));
+CREATE POLICY "Users can delete lab_reports" ON public.lab_reports FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['lab_technician'])));
+
+-- Custody events: anyone handling evidence can append, auditors only read
+DROP POLICY "Users can insert custody events" ON public.evidence_custody_events;
+CREATE POLICY "Users can insert custody events" ON public.evidence_custody_events FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator', 'lab_technician']));
@@ -0,0 +1,54 @@
+-- Create audit_log table: immutable record of every change to investigative data
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  old_data JSONB,
+  new_data JSONB
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id);
+CREATE INDEX idx_audit_log_occurred_at ON public.audit_log(occurred_at DESC);
+
+-- Only oversight roles may read the log; rows are written exclusively by the audit trigger
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Oversight roles can view audit log" ON public.audit_log FOR SELECT USING (public.has_role(ARRAY['admin', 'supervisor', 'auditor']));
+
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.audit_log (table_name, record_id, action, actor_id, new_data)
+    VALUES (TG_TABLE_NAME, NEW.id, TG_OP, auth.uid(), to_jsonb(NEW));
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.audit_log (table_name, record_id, action, actor_id, old_data, new_data)
+    VALUES (TG_TABLE_NAME, NEW.id, TG_OP, auth.uid(), to_jsonb(OLD), to_jsonb(NEW));
+    RETURN NEW;
+  ELSE
+    INSERT INTO public.audit_log (table_name, record_id, action, actor_id, old_data)
+    VALUES (TG_TABLE_NAME, OLD.id, TG_OP, auth.uid(), to_jsonb(OLD));
+    RETURN OLD;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_cases AFTER INSERT OR UPDATE OR DELETE ON public.cases FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+CREATE TRIGGER audit_evidence AFTER INSERT OR UPDATE OR DELETE ON public.evidence FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+CREATE TRIGGER audit_suspects AFTER INSERT OR UPDATE OR DELETE ON public.suspects FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+CREATE TRIGGER audit_officers AFTER INSERT OR UPDATE OR DELETE ON public.officers FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+CREATE TRIGGER audit_lab_reports AFTER INSERT OR UPDATE OR DELETE ON public.lab_reports FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- The log itself can never be rewritten, not even by privileged roles
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries are immutable';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_audit_log_update BEFORE UPDATE OR DELETE ON public.audit_log FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_mutation();
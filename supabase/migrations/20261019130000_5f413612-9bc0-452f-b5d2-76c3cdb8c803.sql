@@ -0,0 +1,26 @@
+-- Track who last touched each row so realtime subscribers can attribute live changes
+ALTER TABLE public.cases ADD COLUMN updated_by UUID;
+ALTER TABLE public.evidence ADD COLUMN updated_by UUID;
+ALTER TABLE public.suspects ADD COLUMN updated_by UUID;
+ALTER TABLE public.lab_reports ADD COLUMN updated_by UUID;
+
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by = auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_cases_updated_by BEFORE INSERT OR UPDATE ON public.cases FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER set_evidence_updated_by BEFORE INSERT OR UPDATE ON public.evidence FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER set_suspects_updated_by BEFORE INSERT OR UPDATE ON public.suspects FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER set_lab_reports_updated_by BEFORE INSERT OR UPDATE ON public.lab_reports FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+-- Full replica identity so delete events carry the old row's id through RLS
+ALTER TABLE public.cases REPLICA IDENTITY FULL;
+ALTER TABLE public.evidence REPLICA IDENTITY FULL;
+ALTER TABLE public.suspects REPLICA IDENTITY FULL;
+ALTER TABLE public.lab_reports REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.cases, public.evidence, public.suspects, public.lab_reports;
@@ -0,0 +1,43 @@
+-- Private bucket holding evidence files; object paths are prefixed with the evidence id
+INSERT INTO storage.buckets (id, name, public) VALUES ('evidence-files', 'evidence-files', false);
+
+-- Create evidence_attachments table: one row per stored file with the digest computed at upload
+CREATE TABLE public.evidence_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  -- Restricted so deleting evidence can't orphan its stored files; attachments are removed first
+  evidence_id UUID NOT NULL REFERENCES public.evidence(id) ON DELETE RESTRICT,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_evidence_attachments_evidence ON public.evidence_attachments(evidence_id, created_at);
+
+ALTER TABLE public.evidence_attachments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view all evidence attachments" ON public.evidence_attachments FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert evidence attachments" ON public.evidence_attachments FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator', 'lab_technician']));
+CREATE POLICY "Users can delete evidence attachments" ON public.evidence_attachments FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+-- A stored digest is only meaningful if it can never be rewritten
+CREATE OR REPLACE FUNCTION public.prevent_attachment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Evidence attachments are immutable; delete and re-upload instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_evidence_attachment_update BEFORE UPDATE ON public.evidence_attachments FOR EACH ROW EXECUTE FUNCTION public.prevent_attachment_update();
+
+-- Storage access mirrors the attachment table; objects are never overwritten in place
+CREATE POLICY "Users can read evidence files" ON storage.objects FOR SELECT USING (bucket_id = 'evidence-files' AND auth.uid() IS NOT NULL);
+CREATE POLICY "Users can upload evidence files" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'evidence-files' AND public.has_role(ARRAY['admin', 'supervisor', 'investigator', 'lab_technician']));
+CREATE POLICY "Users can delete evidence files" ON storage.objects FOR DELETE USING (bucket_id = 'evidence-files' AND (public.has_role(ARRAY['admin', 'supervisor']) OR (owner = auth.uid() AND public.has_role(ARRAY['investigator']))));
+-- Lets any uploader roll back their own file when the attachment row for it was never written
+CREATE POLICY "Uploaders can delete unattached evidence files" ON storage.objects FOR DELETE USING (
+  bucket_id = 'evidence-files' AND owner = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.evidence_attachments a WHERE a.storage_path = storage.objects.name)
+);
@@ -0,0 +1,46 @@
+-- A suspect row now describes a person; how they relate to each case lives in case_involvements
+CREATE TABLE public.case_involvements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  suspect_id UUID NOT NULL REFERENCES public.suspects(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'suspect' CHECK (role IN ('suspect', 'person_of_interest', 'witness', 'associate')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'arrested', 'charged', 'cleared')),
+  notes TEXT,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (case_id, suspect_id)
+);
+
+CREATE INDEX idx_case_involvements_suspect ON public.case_involvements(suspect_id);
+
+ALTER TABLE public.case_involvements ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view all case involvements" ON public.case_involvements FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert case involvements" ON public.case_involvements FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator']));
+CREATE POLICY "Users can update case involvements" ON public.case_involvements FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+CREATE POLICY "Users can delete case involvements" ON public.case_involvements FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+CREATE TRIGGER update_case_involvements_updated_at BEFORE UPDATE ON public.case_involvements FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER set_case_involvements_updated_by BEFORE INSERT OR UPDATE ON public.case_involvements FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER audit_case_involvements AFTER INSERT OR UPDATE OR DELETE ON public.case_involvements FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+ALTER TABLE public.case_involvements REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.case_involvements;
+
+-- Carry every existing suspect row over as that person's involvement in its case
+INSERT INTO public.case_involvements (user_id, case_id, suspect_id, role, status, created_at)
+SELECT
+  user_id,
+  case_id,
+  id,
+  CASE WHEN status = 'person_of_interest' THEN 'person_of_interest' ELSE 'suspect' END,
+  CASE WHEN status IN ('arrested', 'cleared') THEN status ELSE 'active' END,
+  created_at
+FROM public.suspects;
+
+ALTER TABLE public.suspects DROP COLUMN case_id;
+ALTER TABLE public.suspects DROP COLUMN status;
+
+-- Backs the duplicate check run before creating a person
+CREATE INDEX idx_suspects_lower_name ON public.suspects(lower(name));
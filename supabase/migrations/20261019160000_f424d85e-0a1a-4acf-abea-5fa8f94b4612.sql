@@ -0,0 +1,65 @@
+-- Case status workflow: open -> under_investigation -> pending -> closed, with reopen
+ALTER TABLE public.cases ADD COLUMN closure_reason TEXT;
+
+-- Bring existing rows in line with the closure rules before they are enforced
+UPDATE public.cases
+SET date_closed = COALESCE(date_closed, updated_at::date),
+    closure_reason = COALESCE(NULLIF(btrim(closure_reason), ''), 'Closed before closure reasons were recorded')
+WHERE status = 'closed';
+UPDATE public.cases SET date_closed = NULL WHERE status <> 'closed' AND date_closed IS NOT NULL;
+
+ALTER TABLE public.cases ADD CONSTRAINT cases_closure_consistent CHECK (
+  (status = 'closed') = (date_closed IS NOT NULL AND closure_reason IS NOT NULL AND btrim(closure_reason) <> '')
+);
+
+CREATE OR REPLACE FUNCTION public.case_status_allowed(from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT from_status = to_status OR (from_status, to_status) IN (
+    ('open', 'under_investigation'),
+    ('under_investigation', 'pending'),
+    ('pending', 'under_investigation'),
+    ('pending', 'closed'),
+    ('closed', 'open')
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enforce_case_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'open' THEN
+      RAISE EXCEPTION 'New cases must start as open';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.case_status_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot move a case from % to %', replace(OLD.status, '_', ' '), replace(NEW.status, '_', ' ');
+  END IF;
+
+  IF NEW.status = 'closed' THEN
+    IF NEW.closure_reason IS NULL OR btrim(NEW.closure_reason) = '' THEN
+      RAISE EXCEPTION 'A closure reason is required to close a case';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.lab_reports lr
+      JOIN public.evidence e ON e.id = lr.evidence_id
+      WHERE e.case_id = NEW.id AND lr.status IN ('pending', 'in_progress')
+    ) THEN
+      RAISE EXCEPTION 'Cannot close a case while lab reports are still pending';
+    END IF;
+    NEW.date_closed = CURRENT_DATE;
+  ELSIF OLD.status = 'closed' THEN
+    NEW.date_closed = NULL;
+    NEW.closure_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_cases_status BEFORE INSERT OR UPDATE ON public.cases FOR EACH ROW EXECUTE FUNCTION public.enforce_case_status();
@@ -0,0 +1,56 @@
+-- Lab report lifecycle drives the status of the evidence it analyzes
+CREATE INDEX idx_lab_reports_evidence_status ON public.lab_reports (evidence_id, status);
+
+-- Finished reports carry a completion date, open ones never do; released or disposed evidence can't go to the lab
+CREATE OR REPLACE FUNCTION public.prepare_lab_report()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'inconclusive') THEN
+    NEW.date_completed = COALESCE(NEW.date_completed, CURRENT_DATE);
+    RETURN NEW;
+  END IF;
+
+  NEW.date_completed = NULL;
+  IF (TG_OP = 'INSERT' OR OLD.status IN ('completed', 'inconclusive') OR OLD.evidence_id <> NEW.evidence_id)
+    AND EXISTS (SELECT 1 FROM public.evidence WHERE id = NEW.evidence_id AND status IN ('released', 'disposed')) THEN
+    RAISE EXCEPTION 'Evidence that has been released or disposed cannot be submitted to the lab';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Evidence is in the lab while any report on it is open, and back in storage once none are.
+-- Security definer because lab technicians may not otherwise update evidence rows.
+CREATE OR REPLACE FUNCTION public.refresh_evidence_lab_status(_evidence_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.lab_reports WHERE evidence_id = _evidence_id AND status IN ('pending', 'in_progress')) THEN
+    UPDATE public.evidence SET status = 'in_lab' WHERE id = _evidence_id AND status = 'in_storage';
+  ELSE
+    UPDATE public.evidence SET status = 'in_storage' WHERE id = _evidence_id AND status = 'in_lab';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_evidence_lab_status(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_evidence_lab_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_evidence_lab_status(NEW.evidence_id);
+  END IF;
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.evidence_id <> NEW.evidence_id) THEN
+    PERFORM public.refresh_evidence_lab_status(OLD.evidence_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prepare_lab_reports BEFORE INSERT OR UPDATE ON public.lab_reports FOR EACH ROW EXECUTE FUNCTION public.prepare_lab_report();
+CREATE TRIGGER sync_lab_reports_evidence_status AFTER INSERT OR UPDATE OF status, evidence_id OR DELETE ON public.lab_reports FOR EACH ROW EXECUTE FUNCTION public.sync_evidence_lab_status();
+
+-- Backfill: stamp finished reports and line evidence up with the reports already on file
+UPDATE public.lab_reports SET date_completed = COALESCE(date_completed, updated_at::date) WHERE status IN ('completed', 'inconclusive');
+UPDATE public.lab_reports SET date_completed = NULL WHERE status IN ('pending', 'in_progress') AND date_completed IS NOT NULL;
+SELECT public.refresh_evidence_lab_status(id) FROM public.evidence WHERE status IN ('in_storage', 'in_lab');
@@ -0,0 +1,82 @@
+-- Legacy imports bring cases in at whatever stage they reached in the old system. Only import_cases
+-- sets the flag that lets an insert carry any status; every other insert must still start open.
+-- Imported closed cases still need a reason; the date defaults to today.
+CREATE OR REPLACE FUNCTION public.enforce_case_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF current_setting('app.importing_cases', true) IS DISTINCT FROM 'on' THEN
+      IF NEW.status <> 'open' THEN
+        RAISE EXCEPTION 'New cases must start as open';
+      END IF;
+      RETURN NEW;
+    END IF;
+    IF NEW.status = 'closed' THEN
+      IF NEW.closure_reason IS NULL OR btrim(NEW.closure_reason) = '' THEN
+        RAISE EXCEPTION 'A closure reason is required to close a case';
+      END IF;
+      NEW.date_closed = COALESCE(NEW.date_closed, CURRENT_DATE);
+    ELSE
+      NEW.date_closed = NULL;
+      NEW.closure_reason = NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.case_status_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot move a case from % to %', replace(OLD.status, '_', ' '), replace(NEW.status, '_', ' ');
+  END IF;
+
+  IF NEW.status = 'closed' THEN
+    IF NEW.closure_reason IS NULL OR btrim(NEW.closure_reason) = '' THEN
+      RAISE EXCEPTION 'A closure reason is required to close a case';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.lab_reports lr
+      JOIN public.evidence e ON e.id = lr.evidence_id
+      WHERE e.case_id = NEW.id AND lr.status IN ('pending', 'in_progress')
+    ) THEN
+      RAISE EXCEPTION 'Cannot close a case while lab reports are still pending';
+    END IF;
+    NEW.date_closed = CURRENT_DATE;
+  ELSIF OLD.status = 'closed' THEN
+    NEW.date_closed = NULL;
+    NEW.closure_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Bulk case import for the roles allowed to run imports. Runs as the caller, so the cases insert
+-- policy still applies; the flag is transaction-local and cleared before returning.
+CREATE OR REPLACE FUNCTION public.import_cases(records JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  IF NOT public.has_role(ARRAY['admin', 'supervisor']) THEN
+    RAISE EXCEPTION 'Permission denied: you are not allowed to import cases';
+  END IF;
+
+  PERFORM set_config('app.importing_cases', 'on', true);
+  INSERT INTO public.cases (
+    user_id, case_number, title, description, date_opened, status, priority,
+    location, lead_officer_id, closure_reason, date_closed
+  )
+  SELECT
+    auth.uid(), r.case_number, r.title, r.description, r.date_opened, COALESCE(r.status, 'open'),
+    COALESCE(r.priority, 'medium'), r.location, r.lead_officer_id, r.closure_reason, r.date_closed
+  FROM jsonb_to_recordset(records) AS r(
+    case_number TEXT, title TEXT, description TEXT, date_opened DATE, status TEXT, priority TEXT,
+    location TEXT, lead_officer_id UUID, closure_reason TEXT, date_closed DATE
+  );
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  PERFORM set_config('app.importing_cases', 'off', true);
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
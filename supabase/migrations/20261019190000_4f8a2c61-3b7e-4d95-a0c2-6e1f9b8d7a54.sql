@@ -0,0 +1,76 @@
+-- Dashboard analytics. Each function aggregates over a date range in the database so the
+-- browser only receives chart-sized results. They run as the caller, so RLS still applies.
+
+-- Cases opened and closed per calendar month, including months with neither
+CREATE OR REPLACE FUNCTION public.analytics_cases_by_month(from_date DATE, to_date DATE)
+RETURNS TABLE (month DATE, opened BIGINT, closed BIGINT) AS $$
+  WITH months AS (
+    SELECT generate_series(date_trunc('month', from_date)::date, to_date, interval '1 month')::date AS month
+  ), opened AS (
+    SELECT date_trunc('month', c.date_opened)::date AS month, count(*) AS total
+    FROM public.cases c
+    WHERE c.date_opened BETWEEN from_date AND to_date
+    GROUP BY 1
+  ), closed AS (
+    SELECT date_trunc('month', c.date_closed)::date AS month, count(*) AS total
+    FROM public.cases c
+    WHERE c.date_closed BETWEEN from_date AND to_date
+    GROUP BY 1
+  )
+  SELECT m.month, COALESCE(o.total, 0), COALESCE(cl.total, 0)
+  FROM months m
+  LEFT JOIN opened o ON o.month = m.month
+  LEFT JOIN closed cl ON cl.month = m.month
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Evidence collected in the range, by type
+CREATE OR REPLACE FUNCTION public.analytics_evidence_by_type(from_date DATE, to_date DATE)
+RETURNS TABLE (evidence_type TEXT, total BIGINT) AS $$
+  SELECT e.type, count(*)
+  FROM public.evidence e
+  WHERE e.date_collected BETWEEN from_date AND to_date
+  GROUP BY e.type
+  ORDER BY count(*) DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Average days from submission to completion for reports finished in the range
+CREATE OR REPLACE FUNCTION public.analytics_lab_turnaround(from_date DATE, to_date DATE)
+RETURNS TABLE (analysis_type TEXT, reports BIGINT, avg_days NUMERIC) AS $$
+  SELECT lr.analysis_type, count(*), round(avg(lr.date_completed - lr.date_submitted), 1)
+  FROM public.lab_reports lr
+  WHERE lr.status IN ('completed', 'inconclusive')
+    AND lr.date_completed BETWEEN from_date AND to_date
+  GROUP BY lr.analysis_type
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Cases opened in the range that were still unresolved at its end, bucketed by age at that point
+CREATE OR REPLACE FUNCTION public.analytics_case_aging(from_date DATE, to_date DATE)
+RETURNS TABLE (priority TEXT, age_bucket TEXT, total BIGINT) AS $$
+  SELECT a.priority,
+    CASE
+      WHEN a.age <= 30 THEN '0-30'
+      WHEN a.age <= 90 THEN '31-90'
+      WHEN a.age <= 180 THEN '91-180'
+      ELSE '180+'
+    END,
+    count(*)
+  FROM (
+    SELECT c.priority, LEAST(to_date, CURRENT_DATE) - c.date_opened AS age
+    FROM public.cases c
+    WHERE c.date_opened BETWEEN from_date AND to_date
+      AND (c.date_closed IS NULL OR c.date_closed > to_date)
+  ) a
+  GROUP BY 1, 2;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Status of people linked to cases in the range
+CREATE OR REPLACE FUNCTION public.analytics_involvement_status(from_date DATE, to_date DATE)
+RETURNS TABLE (status TEXT, total BIGINT) AS $$
+  SELECT ci.status, count(*)
+  FROM public.case_involvements ci
+  WHERE ci.created_at::date BETWEEN from_date AND to_date
+  GROUP BY ci.status
+  ORDER BY count(*) DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,71 @@
+-- Dashboard activity feed: creations and updates from the audit log. The log itself stays limited
+-- to oversight roles, so this exposes only what the feed shows, and only for records that still exist.
+CREATE OR REPLACE FUNCTION public.activity_feed(
+  entity_types TEXT[] DEFAULT NULL,
+  only_my_cases BOOLEAN DEFAULT false,
+  before_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  entity_type TEXT,
+  record_id UUID,
+  action TEXT,
+  occurred_at TIMESTAMPTZ,
+  actor_id UUID,
+  actor_name TEXT,
+  label TEXT,
+  case_id UUID,
+  case_number TEXT,
+  changed_fields TEXT[]
+) AS $$
+  SELECT
+    a.id,
+    a.table_name,
+    a.record_id,
+    a.action,
+    a.occurred_at,
+    a.actor_id,
+    p.full_name,
+    COALESCE(c.title, e.evidence_number, s.name, lr.report_number),
+    COALESCE(c.id, e.case_id, lre.case_id),
+    COALESCE(c.case_number, ec.case_number, lrc.case_number),
+    CASE WHEN a.action = 'UPDATE' THEN ARRAY(
+      SELECT k FROM jsonb_object_keys(a.new_data) AS k
+      WHERE k NOT IN ('updated_at', 'updated_by') AND a.old_data -> k IS DISTINCT FROM a.new_data -> k
+      ORDER BY k
+    ) END
+  FROM public.audit_log a
+  LEFT JOIN public.cases c ON a.table_name = 'cases' AND c.id = a.record_id
+  LEFT JOIN public.evidence e ON a.table_name = 'evidence' AND e.id = a.record_id
+  LEFT JOIN public.cases ec ON ec.id = e.case_id
+  LEFT JOIN public.suspects s ON a.table_name = 'suspects' AND s.id = a.record_id
+  LEFT JOIN public.lab_reports lr ON a.table_name = 'lab_reports' AND lr.id = a.record_id
+  LEFT JOIN public.evidence lre ON lre.id = lr.evidence_id
+  LEFT JOIN public.cases lrc ON lrc.id = lre.case_id
+  LEFT JOIN public.profiles p ON p.user_id = a.actor_id
+  WHERE auth.uid() IS NOT NULL
+    AND a.action IN ('INSERT', 'UPDATE')
+    AND (entity_types IS NULL OR a.table_name = ANY (entity_types))
+    AND COALESCE(c.id, e.id, s.id, lr.id) IS NOT NULL
+    -- Keyset paging: a bulk import writes many entries with the same timestamp
+    AND (before_at IS NULL OR (a.occurred_at, a.id) < (before_at, before_id))
+    AND (NOT only_my_cases OR CASE a.table_name
+      WHEN 'suspects' THEN EXISTS (
+        SELECT 1 FROM public.case_involvements ci
+        JOIN public.cases mc ON mc.id = ci.case_id
+        WHERE ci.suspect_id = s.id AND mc.user_id = auth.uid()
+      )
+      ELSE EXISTS (
+        SELECT 1 FROM public.cases mc
+        WHERE mc.id = COALESCE(c.id, e.case_id, lre.case_id) AND mc.user_id = auth.uid()
+      )
+    END)
+  ORDER BY a.occurred_at DESC, a.id DESC
+  LIMIT LEAST(page_size, 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Matches the feed's ordering, tie-breaker included
+DROP INDEX public.idx_audit_log_occurred_at;
+CREATE INDEX idx_audit_log_occurred_at ON public.audit_log(occurred_at DESC, id DESC);
@@ -0,0 +1,52 @@
+-- Global search: each searchable table gets a generated tsvector over the fields people look
+-- records up by (numbers, names, titles). The 'simple' configuration keeps identifiers unstemmed.
+ALTER TABLE public.cases ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(case_number, '') || ' ' || coalesce(title, '') || ' ' || coalesce(location, ''))
+) STORED;
+ALTER TABLE public.evidence ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(evidence_number, '') || ' ' || coalesce(type, '') || ' ' || coalesce(storage_location, ''))
+) STORED;
+ALTER TABLE public.suspects ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(phone, '') || ' ' || coalesce(address, ''))
+) STORED;
+ALTER TABLE public.officers ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(rank, '') || ' ' || coalesce(badge_number, ''))
+) STORED;
+ALTER TABLE public.lab_reports ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(report_number, '') || ' ' || coalesce(analysis_type, '') || ' ' || coalesce(lab_tech_name, ''))
+) STORED;
+
+CREATE INDEX idx_cases_search ON public.cases USING GIN (search_vector);
+CREATE INDEX idx_evidence_search ON public.evidence USING GIN (search_vector);
+CREATE INDEX idx_suspects_search ON public.suspects USING GIN (search_vector);
+CREATE INDEX idx_officers_search ON public.officers USING GIN (search_vector);
+CREATE INDEX idx_lab_reports_search ON public.lab_reports USING GIN (search_vector);
+
+-- Turns free text into a prefix query, so "case-20 smi" matches while the user is still typing.
+-- Punctuation other than hyphens is dropped rather than parsed as tsquery operators.
+CREATE OR REPLACE FUNCTION public.prefix_tsquery(term TEXT)
+RETURNS tsquery AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(btrim(regexp_replace(lower(term), '[^[:alnum:]\s-]', ' ', 'g')), '\s+') AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Best matches per entity type for the command palette. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION public.global_search(term TEXT, per_type INTEGER DEFAULT 5)
+RETURNS TABLE (entity_type TEXT, id UUID, title TEXT, subtitle TEXT, rank REAL) AS $$
+  WITH q AS (SELECT public.prefix_tsquery(term) AS query)
+  (SELECT 'cases', c.id, c.case_number, c.title, ts_rank(c.search_vector, q.query) AS rank
+    FROM public.cases c, q WHERE c.search_vector @@ q.query ORDER BY rank DESC LIMIT per_type)
+  UNION ALL
+  (SELECT 'evidence', e.id, e.evidence_number, concat_ws(' - ', ec.case_number, e.type), ts_rank(e.search_vector, q.query) AS rank
+    FROM public.evidence e JOIN public.cases ec ON ec.id = e.case_id, q WHERE e.search_vector @@ q.query ORDER BY rank DESC LIMIT per_type)
+  UNION ALL
+  (SELECT 'suspects', s.id, s.name, concat_ws(' - ', s.phone, s.address), ts_rank(s.search_vector, q.query) AS rank
+    FROM public.suspects s, q WHERE s.search_vector @@ q.query ORDER BY rank DESC LIMIT per_type)
+  UNION ALL
+  (SELECT 'officers', o.id, o.name, concat_ws(' - ', o.rank, o.badge_number), ts_rank(o.search_vector, q.query) AS rank
+    FROM public.officers o, q WHERE o.search_vector @@ q.query ORDER BY rank DESC LIMIT per_type)
+  UNION ALL
+  (SELECT 'lab_reports', lr.id, lr.report_number, concat_ws(' - ', lr.analysis_type, lr.lab_tech_name), ts_rank(lr.search_vector, q.query) AS rank
+    FROM public.lab_reports lr, q WHERE lr.search_vector @@ q.query ORDER BY rank DESC LIMIT per_type);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,65 @@
+-- Full-text search over the narrative fields where most investigative content lives. Unlike the
+-- identifier vectors used by global_search, these use the english configuration so word forms match.
+ALTER TABLE public.cases ADD COLUMN narrative_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+ALTER TABLE public.evidence ADD COLUMN narrative_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(description, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(location_found, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(chain_of_custody, '')), 'C')
+) STORED;
+ALTER TABLE public.suspects ADD COLUMN narrative_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(description, ''))
+) STORED;
+ALTER TABLE public.lab_reports ADD COLUMN narrative_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(analysis_result, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(notes, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(analysis_type, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_cases_narrative ON public.cases USING GIN (narrative_vector);
+CREATE INDEX idx_evidence_narrative ON public.evidence USING GIN (narrative_vector);
+CREATE INDEX idx_suspects_narrative ON public.suspects USING GIN (narrative_vector);
+CREATE INDEX idx_lab_reports_narrative ON public.lab_reports USING GIN (narrative_vector);
+
+-- Ranked matches for one entity with highlighted snippets. Accepts web-search syntax
+-- ("quoted phrases", OR, -excluded). Matches are wrapped in U+0001/U+0002 rather than
+-- HTML so the client never has to trust markup built from record text.
+CREATE OR REPLACE FUNCTION public.search_records(entity TEXT, term TEXT, max_results INTEGER DEFAULT 50)
+RETURNS TABLE (id UUID, rank REAL, snippet TEXT) AS $$
+DECLARE
+  q tsquery := websearch_to_tsquery('english', term);
+  opts TEXT := format('StartSel=%s, StopSel=%s, MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" ... "', chr(1), chr(2));
+  lim INTEGER := LEAST(max_results, 200);
+BEGIN
+  -- Headlines are costly, so they are only built for the rows that make the cut
+  IF entity = 'cases' THEN
+    RETURN QUERY
+    SELECT m.id, m.rank, ts_headline('english', concat_ws(' - ', c.title, c.description), q, opts)
+    FROM (SELECT t.id, ts_rank(t.narrative_vector, q) AS rank FROM public.cases t
+          WHERE t.narrative_vector @@ q ORDER BY rank DESC LIMIT lim) m
+    JOIN public.cases c ON c.id = m.id ORDER BY m.rank DESC;
+  ELSIF entity = 'evidence' THEN
+    RETURN QUERY
+    SELECT m.id, m.rank, ts_headline('english', concat_ws(' - ', e.description, e.location_found, e.chain_of_custody), q, opts)
+    FROM (SELECT t.id, ts_rank(t.narrative_vector, q) AS rank FROM public.evidence t
+          WHERE t.narrative_vector @@ q ORDER BY rank DESC LIMIT lim) m
+    JOIN public.evidence e ON e.id = m.id ORDER BY m.rank DESC;
+  ELSIF entity = 'suspects' THEN
+    RETURN QUERY
+    SELECT m.id, m.rank, ts_headline('english', coalesce(s.description, ''), q, opts)
+    FROM (SELECT t.id, ts_rank(t.narrative_vector, q) AS rank FROM public.suspects t
+          WHERE t.narrative_vector @@ q ORDER BY rank DESC LIMIT lim) m
+    JOIN public.suspects s ON s.id = m.id ORDER BY m.rank DESC;
+  ELSIF entity = 'lab_reports' THEN
+    RETURN QUERY
+    SELECT m.id, m.rank, ts_headline('english', concat_ws(' - ', lr.analysis_result, lr.notes), q, opts)
+    FROM (SELECT t.id, ts_rank(t.narrative_vector, q) AS rank FROM public.lab_reports t
+          WHERE t.narrative_vector @@ q ORDER BY rank DESC LIMIT lim) m
+    JOIN public.lab_reports lr ON lr.id = m.id ORDER BY m.rank DESC;
+  ELSE
+    RAISE EXCEPTION 'Unknown search entity: %', entity;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
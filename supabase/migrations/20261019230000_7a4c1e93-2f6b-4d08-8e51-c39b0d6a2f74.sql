@@ -0,0 +1,120 @@
+-- Manual case timeline entries: interviews, warrants and other events that have no record of their own
+CREATE TABLE public.case_timeline_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL DEFAULT 'note' CHECK (entry_type IN ('interview', 'warrant', 'search', 'court', 'note')),
+  title TEXT NOT NULL,
+  details TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_timeline_entries_case ON public.case_timeline_entries(case_id, occurred_at);
+
+ALTER TABLE public.case_timeline_entries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view all timeline entries" ON public.case_timeline_entries FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert timeline entries" ON public.case_timeline_entries FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator']));
+CREATE POLICY "Users can update timeline entries" ON public.case_timeline_entries FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+CREATE POLICY "Users can delete timeline entries" ON public.case_timeline_entries FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator'])));
+
+CREATE TRIGGER update_case_timeline_entries_updated_at BEFORE UPDATE ON public.case_timeline_entries FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER set_case_timeline_entries_updated_by BEFORE INSERT OR UPDATE ON public.case_timeline_entries FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER audit_case_timeline_entries AFTER INSERT OR UPDATE OR DELETE ON public.case_timeline_entries FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+ALTER TABLE public.case_timeline_entries REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.case_timeline_entries;
+
+-- Everything that happened on a case in one list. Status changes come from the audit log, which
+-- stays limited to oversight roles, so only the status transitions themselves are exposed here.
+-- Date-only sources leave event_time NULL so clients do not shift them across time zones.
+CREATE OR REPLACE FUNCTION public.case_timeline(target_case UUID)
+RETURNS TABLE (
+  event_id TEXT,
+  kind TEXT,
+  event_date DATE,
+  event_time TIMESTAMPTZ,
+  title TEXT,
+  detail TEXT,
+  tag TEXT,
+  record_id UUID,
+  owner_id UUID,
+  actor_name TEXT
+) AS $$
+  SELECT * FROM (
+    SELECT 'opened:' || c.id, 'case', c.date_opened, NULL::timestamptz, 'Case opened', c.title, NULL, c.id, NULL::uuid, NULL
+    FROM public.cases c WHERE c.id = target_case
+
+    UNION ALL
+    SELECT 'closed:' || c.id, 'case', c.date_closed, NULL, 'Case closed', c.closure_reason, 'closed', c.id, NULL, NULL
+    FROM public.cases c WHERE c.id = target_case AND c.date_closed IS NOT NULL
+
+    UNION ALL
+    -- The closure still in effect is already shown from date_closed above
+    SELECT 'status:' || a.id, 'case', a.occurred_at::date, a.occurred_at,
+      'Status changed to ' || replace(a.new_data ->> 'status', '_', ' '),
+      'From ' || replace(a.old_data ->> 'status', '_', ' '), a.new_data ->> 'status', c.id, NULL, p.full_name
+    FROM public.audit_log a
+    JOIN public.cases c ON c.id = a.record_id
+    LEFT JOIN public.profiles p ON p.user_id = a.actor_id
+    WHERE a.table_name = 'cases' AND a.record_id = target_case AND a.action = 'UPDATE'
+      AND a.old_data ->> 'status' IS DISTINCT FROM a.new_data ->> 'status'
+      AND NOT (a.new_data ->> 'status' = 'closed' AND (a.new_data ->> 'date_closed')::date IS NOT DISTINCT FROM c.date_closed)
+
+    UNION ALL
+    SELECT 'evidence:' || e.id, 'evidence', e.date_collected, NULL,
+      'Evidence collected: ' || e.evidence_number, e.description, e.type, e.id, NULL, e.collected_by
+    FROM public.evidence e WHERE e.case_id = target_case
+
+    UNION ALL
+    SELECT 'custody:' || ce.id, 'custody', ce.transferred_at::date, ce.transferred_at,
+      'Custody of ' || e.evidence_number || ': ' || ce.released_by || ' to ' || ce.received_by,
+      ce.purpose || ' at ' || ce.location, NULL, e.id, NULL, NULL
+    FROM public.evidence_custody_events ce
+    JOIN public.evidence e ON e.id = ce.evidence_id
+    WHERE e.case_id = target_case
+
+    UNION ALL
+    SELECT 'involvement:' || ci.id, 'people', ci.created_at::date, ci.created_at,
+      s.name || ' added as ' || replace(ci.role, '_', ' '), ci.notes, ci.role, s.id, NULL, p.full_name
+    FROM public.case_involvements ci
+    JOIN public.suspects s ON s.id = ci.suspect_id
+    LEFT JOIN public.profiles p ON p.user_id = ci.user_id
+    WHERE ci.case_id = target_case
+
+    UNION ALL
+    SELECT 'involvement_status:' || a.id, 'people', a.occurred_at::date, a.occurred_at,
+      s.name || ' marked ' || (a.new_data ->> 'status'), 'Was ' || (a.old_data ->> 'status'), a.new_data ->> 'status', s.id, NULL, p.full_name
+    FROM public.audit_log a
+    JOIN public.case_involvements ci ON ci.id = a.record_id
+    JOIN public.suspects s ON s.id = ci.suspect_id
+    LEFT JOIN public.profiles p ON p.user_id = a.actor_id
+    WHERE a.table_name = 'case_involvements' AND ci.case_id = target_case AND a.action = 'UPDATE'
+      AND a.old_data ->> 'status' IS DISTINCT FROM a.new_data ->> 'status'
+
+    UNION ALL
+    SELECT 'lab_submitted:' || lr.id, 'lab', lr.date_submitted, NULL,
+      lr.report_number || ' submitted for ' || lr.analysis_type, 'Evidence ' || e.evidence_number, lr.status, lr.id, NULL, lr.lab_tech_name
+    FROM public.lab_reports lr
+    JOIN public.evidence e ON e.id = lr.evidence_id
+    WHERE e.case_id = target_case
+
+    UNION ALL
+    SELECT 'lab_completed:' || lr.id, 'lab', lr.date_completed, NULL,
+      lr.report_number || ' completed', lr.analysis_result, lr.status, lr.id, NULL, lr.lab_tech_name
+    FROM public.lab_reports lr
+    JOIN public.evidence e ON e.id = lr.evidence_id
+    WHERE e.case_id = target_case AND lr.date_completed IS NOT NULL
+
+    UNION ALL
+    SELECT 'entry:' || te.id, 'entry', te.occurred_at::date, te.occurred_at,
+      te.title, te.details, te.entry_type, te.id, te.user_id, p.full_name
+    FROM public.case_timeline_entries te
+    LEFT JOIN public.profiles p ON p.user_id = te.user_id
+    WHERE te.case_id = target_case
+  ) AS events (event_id, kind, event_date, event_time, title, detail, tag, record_id, owner_id, actor_name)
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY event_date, event_time NULLS FIRST, event_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
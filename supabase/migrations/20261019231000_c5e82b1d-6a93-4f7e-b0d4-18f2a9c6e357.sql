@@ -0,0 +1,46 @@
+-- Ties a person to an evidence item: whose item it is, whose traces were found on it,
+-- or which lab report matched them. A link may cite the lab report that established it.
+CREATE TABLE public.evidence_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  suspect_id UUID NOT NULL REFERENCES public.suspects(id) ON DELETE CASCADE,
+  evidence_id UUID NOT NULL REFERENCES public.evidence(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('owned_by', 'found_on', 'matched_by_lab')),
+  confidence TEXT NOT NULL DEFAULT 'medium' CHECK (confidence IN ('low', 'medium', 'high', 'confirmed')),
+  lab_report_id UUID REFERENCES public.lab_reports(id) ON DELETE SET NULL,
+  notes TEXT,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (suspect_id, evidence_id, link_type)
+);
+
+CREATE INDEX idx_evidence_links_evidence ON public.evidence_links(evidence_id);
+CREATE INDEX idx_evidence_links_lab_report ON public.evidence_links(lab_report_id);
+
+ALTER TABLE public.evidence_links ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view all evidence links" ON public.evidence_links FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Users can insert evidence links" ON public.evidence_links FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['admin', 'supervisor', 'investigator', 'lab_technician']));
+CREATE POLICY "Users can update evidence links" ON public.evidence_links FOR UPDATE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator', 'lab_technician'])));
+CREATE POLICY "Users can delete evidence links" ON public.evidence_links FOR DELETE USING (public.has_role(ARRAY['admin', 'supervisor']) OR (auth.uid() = user_id AND public.has_role(ARRAY['investigator', 'lab_technician'])));
+
+-- A cited lab report must have analyzed the linked item
+CREATE OR REPLACE FUNCTION public.validate_evidence_link()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lab_report_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.lab_reports WHERE id = NEW.lab_report_id AND evidence_id = NEW.evidence_id
+  ) THEN
+    RAISE EXCEPTION 'The cited lab report does not cover this evidence item';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_evidence_links BEFORE INSERT OR UPDATE ON public.evidence_links FOR EACH ROW EXECUTE FUNCTION public.validate_evidence_link();
+CREATE TRIGGER update_evidence_links_updated_at BEFORE UPDATE ON public.evidence_links FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER set_evidence_links_updated_by BEFORE INSERT OR UPDATE ON public.evidence_links FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER audit_evidence_links AFTER INSERT OR UPDATE OR DELETE ON public.evidence_links FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+ALTER TABLE public.evidence_links REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.evidence_links;
@@ -0,0 +1,62 @@
+-- One hop of the link-analysis graph: every record directly related to the given one,
+-- through foreign keys, case involvements and person-to-evidence links.
+CREATE OR REPLACE FUNCTION public.graph_neighbors(node_type TEXT, node_id UUID)
+RETURNS TABLE (neighbor_type TEXT, neighbor_id UUID, label TEXT, detail TEXT, relation TEXT) AS $$
+  -- Case: its lead officer, evidence and people
+  SELECT 'officers', o.id, o.name, o.rank, 'lead officer'
+  FROM public.cases c JOIN public.officers o ON o.id = c.lead_officer_id
+  WHERE node_type = 'cases' AND c.id = node_id
+  UNION ALL
+  SELECT 'evidence', e.id, e.evidence_number, e.description, 'evidence'
+  FROM public.evidence e
+  WHERE node_type = 'cases' AND e.case_id = node_id
+  UNION ALL
+  SELECT 'suspects', s.id, s.name, NULL, replace(ci.role, '_', ' ')
+  FROM public.case_involvements ci JOIN public.suspects s ON s.id = ci.suspect_id
+  WHERE node_type = 'cases' AND ci.case_id = node_id
+
+  -- Person: their cases and linked evidence
+  UNION ALL
+  SELECT 'cases', c.id, c.case_number, c.title, replace(ci.role, '_', ' ')
+  FROM public.case_involvements ci JOIN public.cases c ON c.id = ci.case_id
+  WHERE node_type = 'suspects' AND ci.suspect_id = node_id
+  UNION ALL
+  SELECT 'evidence', e.id, e.evidence_number, e.description, replace(el.link_type, '_', ' ')
+  FROM public.evidence_links el JOIN public.evidence e ON e.id = el.evidence_id
+  WHERE node_type = 'suspects' AND el.suspect_id = node_id
+
+  -- Evidence: its case, lab reports and linked people
+  UNION ALL
+  SELECT 'cases', c.id, c.case_number, c.title, 'evidence'
+  FROM public.evidence e JOIN public.cases c ON c.id = e.case_id
+  WHERE node_type = 'evidence' AND e.id = node_id
+  UNION ALL
+  SELECT 'lab_reports', lr.id, lr.report_number, lr.analysis_type, 'analysis'
+  FROM public.lab_reports lr
+  WHERE node_type = 'evidence' AND lr.evidence_id = node_id
+  UNION ALL
+  SELECT 'suspects', s.id, s.name, NULL, replace(el.link_type, '_', ' ')
+  FROM public.evidence_links el JOIN public.suspects s ON s.id = el.suspect_id
+  WHERE node_type = 'evidence' AND el.evidence_id = node_id
+
+  -- Officer: the cases they lead
+  UNION ALL
+  SELECT 'cases', c.id, c.case_number, c.title, 'lead officer'
+  FROM public.cases c
+  WHERE node_type = 'officers' AND c.lead_officer_id = node_id
+
+  -- Lab report: the analyzed item and the people it matched
+  UNION ALL
+  SELECT 'evidence', e.id, e.evidence_number, e.description, 'analysis'
+  FROM public.lab_reports lr JOIN public.evidence e ON e.id = lr.evidence_id
+  WHERE node_type = 'lab_reports' AND lr.id = node_id
+  UNION ALL
+  SELECT 'suspects', s.id, s.name, NULL, 'matched by lab'
+  FROM public.evidence_links el JOIN public.suspects s ON s.id = el.suspect_id
+  WHERE node_type = 'lab_reports' AND el.lab_report_id = node_id
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Foreign keys the graph walks in reverse
+CREATE INDEX IF NOT EXISTS idx_cases_lead_officer ON public.cases(lead_officer_id);
+CREATE INDEX IF NOT EXISTS idx_evidence_case ON public.evidence(case_id);
+CREATE INDEX IF NOT EXISTS idx_lab_reports_evidence ON public.lab_reports(evidence_id);
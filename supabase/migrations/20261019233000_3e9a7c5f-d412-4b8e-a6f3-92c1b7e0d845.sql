@@ -0,0 +1,172 @@
+-- Case, evidence and lab report numbers are assigned by the database. Cases and lab reports
+-- count up per year (CASE-2026-014, LAB-2026-003); evidence counts up within its case
+-- (CASE-2026-014-E03). Admins choose the prefixes.
+CREATE TABLE public.record_number_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity TEXT NOT NULL UNIQUE CHECK (entity IN ('cases', 'evidence', 'lab_reports')),
+  prefix TEXT NOT NULL CHECK (prefix ~ '^[A-Z0-9]{1,12}$'),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.record_number_settings (entity, prefix) VALUES ('cases', 'CASE'), ('evidence', 'E'), ('lab_reports', 'LAB');
+
+ALTER TABLE public.record_number_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view numbering settings" ON public.record_number_settings FOR SELECT USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Admins can update numbering settings" ON public.record_number_settings FOR UPDATE USING (public.has_role(ARRAY['admin']));
+
+CREATE TRIGGER update_record_number_settings_updated_at BEFORE UPDATE ON public.record_number_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER set_record_number_settings_updated_by BEFORE INSERT OR UPDATE ON public.record_number_settings FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+CREATE TRIGGER audit_record_number_settings AFTER INSERT OR UPDATE OR DELETE ON public.record_number_settings FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Last number handed out per scope: 'cases:2026', 'lab_reports:2026' or 'evidence:<case id>'.
+-- Only the numbering functions below write here, so no policies are granted.
+CREATE TABLE public.record_number_counters (
+  scope TEXT NOT NULL PRIMARY KEY,
+  last_value INTEGER NOT NULL
+);
+
+ALTER TABLE public.record_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_number_scope(target_entity TEXT, parent_case UUID, for_date DATE)
+RETURNS TEXT AS $$
+  SELECT CASE target_entity
+    WHEN 'evidence' THEN 'evidence:' || parent_case
+    ELSE target_entity || ':' || extract(year FROM for_date)::int
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_number_candidate(target_entity TEXT, parent_case UUID, for_date DATE, seq INTEGER)
+RETURNS TEXT AS $$
+  SELECT CASE target_entity
+    WHEN 'evidence' THEN (SELECT c.case_number FROM public.cases c WHERE c.id = parent_case) || '-' || s.prefix || lpad(seq::text, 2, '0')
+    ELSE s.prefix || '-' || extract(year FROM for_date)::int || '-' || lpad(seq::text, 3, '0')
+  END
+  FROM public.record_number_settings s
+  WHERE s.entity = target_entity;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Numbers typed by hand or imported before numbering existed may already use a candidate
+CREATE OR REPLACE FUNCTION public.record_number_taken(target_entity TEXT, candidate TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE target_entity
+    WHEN 'cases' THEN EXISTS (SELECT 1 FROM public.cases WHERE case_number = candidate)
+    WHEN 'evidence' THEN EXISTS (SELECT 1 FROM public.evidence WHERE evidence_number = candidate)
+    ELSE EXISTS (SELECT 1 FROM public.lab_reports WHERE report_number = candidate)
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Takes the next free number in the scope. The counter row stays locked until the inserting
+-- transaction ends, so concurrent inserts in one scope queue rather than collide.
+CREATE OR REPLACE FUNCTION public.assign_record_number(target_entity TEXT, parent_case UUID, for_date DATE)
+RETURNS TEXT AS $$
+DECLARE
+  counter_scope TEXT := public.record_number_scope(target_entity, parent_case, for_date);
+  seq INTEGER;
+  candidate TEXT;
+BEGIN
+  LOOP
+    INSERT INTO public.record_number_counters (scope, last_value) VALUES (counter_scope, 1)
+    ON CONFLICT (scope) DO UPDATE SET last_value = record_number_counters.last_value + 1
+    RETURNING last_value INTO seq;
+    candidate := public.record_number_candidate(target_entity, parent_case, for_date, seq);
+    IF candidate IS NULL THEN
+      RAISE EXCEPTION 'Cannot number % without a parent case', target_entity;
+    END IF;
+    EXIT WHEN NOT public.record_number_taken(target_entity, candidate);
+  END LOOP;
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the numbering triggers may take numbers; calling it over the API would leave gaps
+REVOKE EXECUTE ON FUNCTION public.assign_record_number(TEXT, UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- The number the next insert would get, without using it up. Another user saving first
+-- moves it on, so forms present it as a preview.
+CREATE OR REPLACE FUNCTION public.preview_record_number(target_entity TEXT, parent_case UUID DEFAULT NULL, for_date DATE DEFAULT CURRENT_DATE)
+RETURNS TEXT AS $$
+DECLARE
+  seq INTEGER;
+  candidate TEXT;
+BEGIN
+  IF target_entity = 'evidence' AND parent_case IS NULL THEN
+    RETURN NULL;
+  END IF;
+  SELECT COALESCE(max(last_value), 0) INTO seq
+  FROM public.record_number_counters
+  WHERE scope = public.record_number_scope(target_entity, parent_case, for_date);
+  LOOP
+    seq := seq + 1;
+    candidate := public.record_number_candidate(target_entity, parent_case, for_date, seq);
+    EXIT WHEN candidate IS NULL OR NOT public.record_number_taken(target_entity, candidate);
+  END LOOP;
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A blank number on insert is filled in; an explicit one (e.g. a legacy import) is kept. The triggers
+-- run as the owner so they can call assign_record_number, which callers cannot.
+CREATE OR REPLACE FUNCTION public.set_case_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(btrim(NEW.case_number), '') = '' THEN
+    NEW.case_number := public.assign_record_number('cases', NULL, NEW.date_opened);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_evidence_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(btrim(NEW.evidence_number), '') = '' THEN
+    NEW.evidence_number := public.assign_record_number('evidence', NEW.case_id, NULL);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_report_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(btrim(NEW.report_number), '') = '' THEN
+    NEW.report_number := public.assign_record_number('lab_reports', NULL, NEW.date_submitted);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Evidence numbers carry their case's number, so an item cannot be moved to another case afterwards
+CREATE OR REPLACE FUNCTION public.prevent_evidence_case_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.case_id IS DISTINCT FROM OLD.case_id THEN
+    RAISE EXCEPTION 'Evidence cannot be moved to another case; its number is derived from the case';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_cases_number BEFORE INSERT ON public.cases FOR EACH ROW EXECUTE FUNCTION public.set_case_number();
+CREATE TRIGGER set_evidence_number BEFORE INSERT ON public.evidence FOR EACH ROW EXECUTE FUNCTION public.set_evidence_number();
+CREATE TRIGGER set_lab_reports_number BEFORE INSERT ON public.lab_reports FOR EACH ROW EXECUTE FUNCTION public.set_report_number();
+CREATE TRIGGER prevent_evidence_case_change BEFORE UPDATE OF case_id ON public.evidence FOR EACH ROW EXECUTE FUNCTION public.prevent_evidence_case_change();
+
+-- Hand-typed numbers may already collide; suffix the later duplicates so the constraints can be added
+UPDATE public.cases c SET case_number = c.case_number || '-DUP' || d.n
+FROM (SELECT id, row_number() OVER (PARTITION BY case_number ORDER BY created_at, id) - 1 AS n FROM public.cases) d
+WHERE d.id = c.id AND d.n > 0;
+
+UPDATE public.evidence e SET evidence_number = e.evidence_number || '-DUP' || d.n
+FROM (SELECT id, row_number() OVER (PARTITION BY evidence_number ORDER BY created_at, id) - 1 AS n FROM public.evidence) d
+WHERE d.id = e.id AND d.n > 0;
+
+UPDATE public.lab_reports lr SET report_number = lr.report_number || '-DUP' || d.n
+FROM (SELECT id, row_number() OVER (PARTITION BY report_number ORDER BY created_at, id) - 1 AS n FROM public.lab_reports) d
+WHERE d.id = lr.id AND d.n > 0;
+
+ALTER TABLE public.cases ADD CONSTRAINT cases_case_number_key UNIQUE (case_number);
+ALTER TABLE public.evidence ADD CONSTRAINT evidence_evidence_number_key UNIQUE (evidence_number);
+ALTER TABLE public.lab_reports ADD CONSTRAINT lab_reports_report_number_key UNIQUE (report_number);